@@ -0,0 +1,112 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+/**
+ * Record/replay cassettes for external traffic. In record mode every GitHub
+ * response and LLM result passing through the cassette is captured and written
+ * to a JSON file; in replay mode those results are served back in the same
+ * order, and any request that was not recorded fails loudly.
+ */
+
+export type CassetteMode = "record" | "replay";
+export type CassetteKind = "github" | "llm";
+
+export interface CassetteEntry {
+  kind: CassetteKind;
+  key: string;
+  request: unknown;
+  response: unknown;
+}
+
+interface CassetteFile {
+  version: 1;
+  recordedAt: string;
+  entries: CassetteEntry[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(kind: CassetteKind, key: string, cassettePath: string) {
+    super(`No recorded ${kind} response for "${key}" in cassette ${cassettePath}`);
+    this.name = "CassetteMissError";
+  }
+}
+
+export class Cassette {
+  readonly mode: CassetteMode;
+  readonly path: string;
+  private entries: CassetteEntry[] = [];
+  // Replay queues keyed by kind + key; repeated identical requests replay in recorded order
+  private queues = new Map<string, CassetteEntry[]>();
+
+  private constructor(cassettePath: string, mode: CassetteMode) {
+    this.path = cassettePath;
+    this.mode = mode;
+  }
+
+  static record(cassettePath: string): Cassette {
+    return new Cassette(cassettePath, "record");
+  }
+
+  static replay(cassettePath: string): Cassette {
+    if (!existsSync(cassettePath)) {
+      throw new Error(`Cassette not found: ${cassettePath}`);
+    }
+
+    const cassette = new Cassette(cassettePath, "replay");
+    const file = JSON.parse(readFileSync(cassettePath, "utf-8")) as CassetteFile;
+    for (const entry of file.entries) {
+      const queueKey = `${entry.kind} ${entry.key}`;
+      const queue = cassette.queues.get(queueKey) ?? [];
+      queue.push(entry);
+      cassette.queues.set(queueKey, queue);
+    }
+    cassette.entries = file.entries;
+    return cassette;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Record the result of `perform`, or in replay mode return the recorded result
+   * for `key` without calling it. `request` is stored alongside for debugging.
+   */
+  async intercept<T>(kind: CassetteKind, key: string, request: unknown, perform: () => Promise<T>): Promise<T> {
+    if (this.mode === "replay") {
+      const entry = this.queues.get(`${kind} ${key}`)?.shift();
+      if (!entry) {
+        throw new CassetteMissError(kind, key, this.path);
+      }
+      return entry.response as T;
+    }
+
+    const response = await perform();
+    this.entries.push({ kind, key, request, response });
+    return response;
+  }
+
+  /**
+   * Write recorded entries to disk. Does nothing in replay mode.
+   */
+  save(): void {
+    if (this.mode !== "record") return;
+
+    mkdirSync(path.dirname(path.resolve(this.path)), { recursive: true });
+    const file: CassetteFile = { version: 1, recordedAt: new Date().toISOString(), entries: this.entries };
+    writeFileSync(this.path, JSON.stringify(file, null, 2));
+    console.error(`Recorded ${this.entries.length} interactions to ${this.path}`);
+  }
+}
+
+/**
+ * Open a cassette from --record/--replay style options.
+ */
+export function openCassette(options: { record?: string; replay?: string }): Cassette | undefined {
+  if (options.record && options.replay) {
+    throw new Error("Use either --record or --replay, not both");
+  }
+  if (options.record) return Cassette.record(options.record);
+  if (options.replay) return Cassette.replay(options.replay);
+  return undefined;
+}
@@ -0,0 +1,44 @@
+import { createHash } from "crypto";
+import type { Cassette } from "./cassette.js";
+
+interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Statuses that must not carry a body when rebuilt as a Response
+const NULL_BODY_STATUSES = [204, 304];
+
+/**
+ * Wrap a fetch implementation so every request goes through the cassette.
+ * Requests are keyed by method, path and query, plus a hash of the body for
+ * POSTs such as GraphQL queries. The host is left out so a cassette recorded
+ * against one API URL replays against any other.
+ */
+export function createCassetteFetch(cassette: Cassette, baseFetch: typeof fetch = fetch): typeof fetch {
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = init?.method ?? "GET";
+    const body = typeof init?.body === "string" ? init.body : undefined;
+    const target = `${url.pathname}${url.search}`;
+    const key = body ? `${method} ${target} ${createHash("sha256").update(body).digest("hex").slice(0, 16)}` : `${method} ${target}`;
+
+    const recorded = await cassette.intercept<RecordedResponse>("github", key, { method, url: target, body }, async () => {
+      const response = await baseFetch(input, init);
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        body: await response.text(),
+      };
+    });
+
+    return new Response(NULL_BODY_STATUSES.includes(recorded.status) ? null : recorded.body, {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers,
+    });
+  };
+}
@@ -0,0 +1,2 @@
+export { Cassette, CassetteMissError, openCassette, type CassetteMode, type CassetteKind } from "./cassette.js";
+export { createCassetteFetch } from "./fetch.js";
@@ -3,7 +3,22 @@ import "dotenv/config";
 import { Command } from "commander";
 import { fetchCommand } from "./commands/fetch.js";
 import { enrichCommand } from "./commands/enrich.js";
+import { refreshCommand } from "./commands/refresh.js";
+import { retryFailedCommand } from "./commands/retry-failed.js";
 import { dumpCommand } from "./commands/dump.js";
+import { historyCommand } from "./commands/history.js";
+import { legitimacyCommand } from "./commands/legitimacy.js";
+import { techCommand } from "./commands/tech.js";
+import { emailsCommand } from "./commands/emails.js";
+import {
+  companiesBreakdownCommand,
+  companiesClassifyCommand,
+  companiesListCommand,
+  companiesMergeCommand,
+  companiesRenameCommand,
+  companiesResolveCommand,
+  companiesSetCommand,
+} from "./commands/companies.js";
 
 const program = new Command();
 
@@ -17,6 +32,12 @@ program
   .description("Fetch stargazers from a GitHub repo (format: owner/repo)")
   .option("-d, --data-dir <path>", "Base data directory", "./data")
   .option("-l, --limit <n>", "Limit to last N stargazers", parseInt)
+  .option("--full", "Walk every page instead of syncing only stars since the last run")
+  .option("--no-cache", "Bypass the HTTP response cache")
+  .option("--api-url <url>", "GitHub REST API base URL (e.g. https://ghe.example.com/api/v3)")
+  .option("--graphql-url <url>", "GitHub GraphQL endpoint (default derived from --api-url)")
+  .option("--record <file>", "Record all GitHub and LLM traffic to a cassette file")
+  .option("--replay <file>", "Replay GitHub and LLM traffic from a cassette file instead of calling the APIs")
   .action(fetchCommand);
 
 program
@@ -25,13 +46,154 @@ program
   .option("-d, --data-dir <path>", "Base data directory", "./data")
   .option("-l, --limit <n>", "Limit number of profiles to enrich", parseInt)
   .option("-s, --sample <fraction>", "Random sample fraction (0.0-1.0, e.g. 0.1 for 10%)", parseFloat)
+  .option("--api <mode>", "GitHub API used to fetch profiles (graphql or rest)", "graphql")
+  .option("-m, --model <name>", "LLM model for extraction (default: LLM_MODEL or google/gemini-2.5-flash-lite)")
+  .option("--no-cache", "Bypass the HTTP response cache")
+  .option("--no-llm-cache", "Bypass the LLM result cache")
+  .option("--refresh-cache", "Re-run LLM calls and overwrite their cached results")
+  .option("--github-concurrency <n>", "Users whose GitHub data is fetched in parallel (default 4)", parseInt)
+  .option("--llm-concurrency <n>", "LLM extractions run in parallel (default 8)", parseInt)
+  .option("--api-url <url>", "GitHub REST API base URL (e.g. https://ghe.example.com/api/v3)")
+  .option("--graphql-url <url>", "GitHub GraphQL endpoint (default derived from --api-url)")
+  .option("--record <file>", "Record all GitHub and LLM traffic to a cassette file")
+  .option("--replay <file>", "Replay GitHub and LLM traffic from a cassette file instead of calling the APIs")
   .action(enrichCommand);
 
+program
+  .command("refresh <repo>")
+  .description("Re-enrich completed profiles that are out of date and record what changed")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .option("--days <n>", "Refresh profiles last enriched more than N days ago (default 30)", parseInt)
+  .option("-l, --limit <n>", "Limit number of profiles to refresh", parseInt)
+  .option("--api <mode>", "GitHub API used to fetch profiles (graphql or rest)", "graphql")
+  .option("-m, --model <name>", "LLM model for extraction (default: LLM_MODEL or google/gemini-2.5-flash-lite)")
+  .option("--no-cache", "Bypass the HTTP response cache")
+  .option("--no-llm-cache", "Bypass the LLM result cache")
+  .option("--refresh-cache", "Re-run LLM calls and overwrite their cached results")
+  .option("--github-concurrency <n>", "Users whose GitHub data is fetched in parallel (default 4)", parseInt)
+  .option("--llm-concurrency <n>", "LLM extractions run in parallel (default 8)", parseInt)
+  .option("--api-url <url>", "GitHub REST API base URL (e.g. https://ghe.example.com/api/v3)")
+  .option("--graphql-url <url>", "GitHub GraphQL endpoint (default derived from --api-url)")
+  .option("--record <file>", "Record all GitHub and LLM traffic to a cassette file")
+  .option("--replay <file>", "Replay GitHub and LLM traffic from a cassette file instead of calling the APIs")
+  .action(refreshCommand);
+
+program
+  .command("retry-failed <repo>")
+  .description("Retry failed enrichments now, ignoring their backoff and attempt limit")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .option("-k, --kind <kinds...>", "Only retry these error kinds (e.g. github_server llm_schema)")
+  .option("-l, --limit <n>", "Limit number of profiles to retry", parseInt)
+  .option("--api <mode>", "GitHub API used to fetch profiles (graphql or rest)", "graphql")
+  .option("-m, --model <name>", "LLM model for extraction (default: LLM_MODEL or google/gemini-2.5-flash-lite)")
+  .option("--no-cache", "Bypass the HTTP response cache")
+  .option("--no-llm-cache", "Bypass the LLM result cache")
+  .option("--refresh-cache", "Re-run LLM calls and overwrite their cached results")
+  .option("--github-concurrency <n>", "Users whose GitHub data is fetched in parallel (default 4)", parseInt)
+  .option("--llm-concurrency <n>", "LLM extractions run in parallel (default 8)", parseInt)
+  .option("--api-url <url>", "GitHub REST API base URL (e.g. https://ghe.example.com/api/v3)")
+  .option("--graphql-url <url>", "GitHub GraphQL endpoint (default derived from --api-url)")
+  .option("--record <file>", "Record all GitHub and LLM traffic to a cassette file")
+  .option("--replay <file>", "Replay GitHub and LLM traffic from a cassette file instead of calling the APIs")
+  .action(retryFailedCommand);
+
 program
   .command("dump <repo>")
   .description("Export enriched profiles to CSV")
   .option("-d, --data-dir <path>", "Base data directory", "./data")
   .option("-o, --output <path>", "Output file path (default: <data-dir>/<repo>/export.csv, use - for stdout)")
+  .option("--exclude-gone", "Leave out deleted and suspended accounts")
+  .option("--min-confidence <score>", "Blank out enriched fields below this confidence (0.0-1.0)", parseFloat)
+  .option("--confidence", "Add a confidence and source column for each enriched field")
   .action(dumpCommand);
 
+program
+  .command("history <repo>")
+  .description("Show star growth, churn and re-stars over time")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .option("-i, --interval <unit>", "Bucket size: day, week, month or year", "week")
+  .action(historyCommand);
+
+program
+  .command("legitimacy <repo>")
+  .description("Score enriched stargazers for signs of fake stars and estimate the fake share")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .option("-s, --sample <fraction>", "Score a random sample of the stargazers (0.0-1.0, e.g. 0.1 for 10%)", parseFloat)
+  .option("-t, --threshold <score>", "Suspicion score at which a star counts as fake (default 0.5)", parseFloat)
+  .option("--top <n>", "Number of most suspicious stargazers to list (default 10)", parseInt)
+  .action(legitimacyCommand);
+
+program
+  .command("tech <repo>")
+  .description("Share of stargazers by the languages, topics and frameworks of their public repos")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .option("-b, --by <field>", "language, topic or framework", "language")
+  .option("--top <n>", "Number of values to list (default 20)", parseInt)
+  .option("--min-share <share>", "Share of someone's code a language needs to count (0.0-1.0, default 0.1)", parseFloat)
+  .action(techCommand);
+
+program
+  .command("emails <repo> <username>")
+  .description("Show the ranked commit emails found for a stargazer and which one was chosen")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .action(emailsCommand);
+
+const companies = program
+  .command("companies")
+  .description("Review the canonical companies that employers are resolved to");
+
+companies
+  .command("list <repo>")
+  .description("List companies by number of stargazers, with their aliases")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .option("-s, --search <text>", "Only companies whose name or an alias contains this text")
+  .option("-l, --limit <n>", "Show at most N companies", parseInt)
+  .action(companiesListCommand);
+
+companies
+  .command("merge <repo> <target> <sources...>")
+  .description("Merge companies into <target>; each is an ID, name, org handle or domain")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .action(companiesMergeCommand);
+
+companies
+  .command("rename <repo> <company> <name>")
+  .description("Change a company's canonical name")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .action(companiesRenameCommand);
+
+companies
+  .command("resolve <repo>")
+  .description("Resolve the employers of every enriched profile to companies")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .action(companiesResolveCommand);
+
+companies
+  .command("classify <repo>")
+  .description("Classify companies by industry, size, type and HQ country")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .option("--all", "Reclassify every company not classified by hand, not just new ones")
+  .option("-m, --model <name>", "LLM model for classification (default: LLM_MODEL or google/gemini-2.5-flash-lite)")
+  .option("--no-cache", "Bypass the LLM result cache")
+  .option("--refresh-cache", "Re-run LLM calls and overwrite their cached results")
+  .option("--llm-concurrency <n>", "LLM classifications run in parallel (default 8)", parseInt)
+  .action(companiesClassifyCommand);
+
+companies
+  .command("set <repo> <company>")
+  .description("Correct a company's classification by hand")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .option("--industry <industry>", "Industry, e.g. software, fintech or education")
+  .option("--size <bucket>", "Employee count: 1-10, 11-50, 51-200, 201-1000, 1001-10000 or 10000+")
+  .option("--type <type>", "startup, big_tech, enterprise, university, government, nonprofit, self_employed or other")
+  .option("--hq-country <country>", "Country of the headquarters")
+  .action(companiesSetCommand);
+
+companies
+  .command("breakdown <repo>")
+  .description("Count stargazers by a classification of their current employer")
+  .option("-d, --data-dir <path>", "Base data directory", "./data")
+  .option("-b, --by <field>", "industry, size, company_type or hq_country", "industry")
+  .action(companiesBreakdownCommand);
+
 program.parse();
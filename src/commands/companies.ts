@@ -0,0 +1,256 @@
+import path from "path";
+import type { DuckDBConnection } from "@duckdb/node-api";
+import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import {
+  CLASSIFICATION_COLUMNS,
+  COMPANY_SIZES,
+  COMPANY_TYPES,
+  INDUSTRIES,
+  companyBreakdown,
+  countEmployedStargazers,
+  findCompany,
+  formatClassificationSources,
+  listCompanies,
+  mergeCompanies,
+  renameCompany,
+  resolveAllEmployers,
+  setCompanyClassification,
+  type ClassificationColumn,
+  type CompanyClassification,
+} from "../companies/index.js";
+import { standardizeCountry } from "../enrichment/index.js";
+import { runClassifyCompanies } from "../worker/index.js";
+import { getRepoDataDir } from "./fetch.js";
+
+export interface CompaniesOptions {
+  dataDir?: string;
+}
+
+export interface CompaniesListOptions extends CompaniesOptions {
+  search?: string;
+  limit?: number;
+}
+
+export interface CompaniesClassifyOptions extends CompaniesOptions {
+  all?: boolean;
+  model?: string;
+  cache?: boolean;
+  refreshCache?: boolean;
+  llmConcurrency?: number;
+}
+
+export interface CompaniesSetOptions extends CompaniesOptions {
+  industry?: string;
+  size?: string;
+  type?: string;
+  hqCountry?: string;
+}
+
+export interface CompaniesBreakdownOptions extends CompaniesOptions {
+  by?: string;
+}
+
+async function withConnection(
+  repo: string,
+  options: CompaniesOptions,
+  action: string,
+  run: (connection: DuckDBConnection) => Promise<void>
+): Promise<void> {
+  const dataDir = getRepoDataDir(repo, options.dataDir);
+  const dbPath = path.join(dataDir, "stargazers.db");
+
+  try {
+    const db = await getDb(dbPath);
+    await initializeSchema(db);
+    const connection = await db.connect();
+    try {
+      await run(connection);
+    } finally {
+      connection.closeSync();
+    }
+  } catch (error) {
+    console.error(`${action} failed:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await closeDb();
+  }
+}
+
+export async function companiesListCommand(repo: string, options: CompaniesListOptions): Promise<void> {
+  await withConnection(repo, options, "Listing companies", async (connection) => {
+    const companies = await listCompanies(connection, options.search);
+    if (companies.length === 0) {
+      console.log("No companies yet. Run enrich, or companies resolve for profiles enriched earlier.");
+      return;
+    }
+
+    const shown = options.limit ? companies.slice(0, options.limit) : companies;
+    const headers = ["id", "name", "stargazers", "by_email", "confirmed", "industry", "size", "type", "hq", "orgs", "domains", "aliases"];
+    const table = shown.map((c) => [
+      String(c.id),
+      c.name,
+      String(c.stargazers),
+      String(c.emailStargazers),
+      String(c.emailConfirmed),
+      c.classification.industry ?? "",
+      c.classification.size ?? "",
+      c.classification.company_type ?? "",
+      c.classification.hq_country ?? "",
+      c.orgs.map((o) => `@${o}`).join(" "),
+      c.domains.join(" "),
+      c.names.join(", "),
+    ]);
+
+    const widths = headers.map((h, i) => Math.max(h.length, ...table.map((r) => r[i].length)));
+    const format = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join("  ").trimEnd();
+
+    console.log(format(headers));
+    console.log(widths.map((w) => "-".repeat(w)).join("  "));
+    for (const cells of table) {
+      console.log(format(cells));
+    }
+    if (shown.length < companies.length) {
+      console.log(`\n${companies.length - shown.length} more not shown`);
+    }
+  });
+}
+
+export async function companiesMergeCommand(
+  repo: string,
+  target: string,
+  sources: string[],
+  options: CompaniesOptions
+): Promise<void> {
+  await withConnection(repo, options, "Merge", async (connection) => {
+    const targetId = await findCompany(connection, target);
+    const sourceIds: number[] = [];
+    for (const source of sources) {
+      sourceIds.push(await findCompany(connection, source));
+    }
+
+    const merged = new Set(sourceIds.filter((id) => id !== targetId)).size;
+    const moved = await mergeCompanies(connection, targetId, sourceIds);
+    console.log(`Merged ${merged} ${merged === 1 ? "company" : "companies"} into ${targetId}, moving ${moved} employer links`);
+  });
+}
+
+export async function companiesRenameCommand(
+  repo: string,
+  company: string,
+  name: string,
+  options: CompaniesOptions
+): Promise<void> {
+  await withConnection(repo, options, "Rename", async (connection) => {
+    const companyId = await findCompany(connection, company);
+    await renameCompany(connection, companyId, name);
+    console.log(`Renamed company ${companyId} to "${name}"`);
+  });
+}
+
+export async function companiesSetCommand(repo: string, company: string, options: CompaniesSetOptions): Promise<void> {
+  const choices: [string | undefined, string, readonly string[]][] = [
+    [options.industry, "--industry", INDUSTRIES],
+    [options.size, "--size", COMPANY_SIZES],
+    [options.type, "--type", COMPANY_TYPES],
+  ];
+  for (const [value, flag, allowed] of choices) {
+    if (value !== undefined && !allowed.includes(value)) {
+      console.error(`Error: ${flag} must be one of ${allowed.join(", ")}`);
+      process.exit(1);
+    }
+  }
+  if (choices.every(([value]) => value === undefined) && options.hqCountry === undefined) {
+    console.error("Error: give at least one of --industry, --size, --type or --hq-country");
+    process.exit(1);
+  }
+  const hqCountry = standardizeCountry(options.hqCountry);
+  if (options.hqCountry !== undefined && !hqCountry) {
+    console.error(`Error: --hq-country "${options.hqCountry}" is not a country we recognize`);
+    process.exit(1);
+  }
+
+  await withConnection(repo, options, "Setting classification", async (connection) => {
+    const companyId = await findCompany(connection, company);
+    await setCompanyClassification(connection, companyId, {
+      industry: options.industry as CompanyClassification["industry"],
+      size: options.size as CompanyClassification["size"],
+      company_type: options.type as CompanyClassification["company_type"],
+      hq_country: hqCountry,
+    });
+    console.log(`Updated the classification of company ${companyId}`);
+  });
+}
+
+export async function companiesClassifyCommand(repo: string, options: CompaniesClassifyOptions): Promise<void> {
+  const dataDir = getRepoDataDir(repo, options.dataDir);
+  const dbPath = path.join(dataDir, "stargazers.db");
+
+  try {
+    const db = await getDb(dbPath);
+    await initializeSchema(db);
+
+    const stats = await runClassifyCompanies({
+      dbPath,
+      all: options.all,
+      model: options.model,
+      cache: options.cache,
+      refreshCache: options.refreshCache,
+      llmConcurrency: options.llmConcurrency,
+    });
+
+    const sources = formatClassificationSources(stats.sources);
+    console.log(`Classified ${stats.classified} companies${sources ? ` (${sources})` : ""}`);
+    if (stats.failed > 0) {
+      console.log(`${stats.failed} failed and will be retried on the next run`);
+    }
+  } catch (error) {
+    console.error("Classifying companies failed:", error);
+    process.exit(1);
+  } finally {
+    await closeDb();
+  }
+}
+
+export async function companiesBreakdownCommand(repo: string, options: CompaniesBreakdownOptions): Promise<void> {
+  const by = (options.by ?? "industry") as ClassificationColumn;
+  if (!CLASSIFICATION_COLUMNS.includes(by)) {
+    console.error(`Error: --by must be one of ${CLASSIFICATION_COLUMNS.join(", ")}`);
+    process.exit(1);
+  }
+
+  await withConnection(repo, options, "Breakdown", async (connection) => {
+    const rows = await companyBreakdown(connection, by);
+    if (rows.length === 0) {
+      console.log("No stargazers with a current employer yet. Run enrich first.");
+      return;
+    }
+
+    // Shares are of everyone with a current employer; someone with several
+    // counts under each of their values, so shares can add up to more than 100%
+    const total = await countEmployedStargazers(connection);
+    const headers = [by, "stargazers", "share", "companies"];
+    const table = rows.map((row) => [
+      row.value ?? "(unclassified)",
+      String(row.stargazers),
+      `${((row.stargazers / total) * 100).toFixed(1)}%`,
+      String(row.companies),
+    ]);
+
+    const widths = headers.map((h, i) => Math.max(h.length, ...table.map((r) => r[i].length)));
+    const format = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  ");
+
+    console.log(format(headers));
+    console.log(widths.map((w) => "-".repeat(w)).join("  "));
+    for (const cells of table) {
+      console.log(format(cells));
+    }
+  });
+}
+
+export async function companiesResolveCommand(repo: string, options: CompaniesOptions): Promise<void> {
+  await withConnection(repo, options, "Resolving companies", async (connection) => {
+    const profiles = await resolveAllEmployers(connection);
+    const companies = await listCompanies(connection);
+    console.log(`Resolved employers of ${profiles} profiles to ${companies.length} companies`);
+  });
+}
@@ -1,22 +1,35 @@
 import { writeFileSync } from "fs";
 import path from "path";
 import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import { PROFILE_FIELDS, type ProfileField, type ProfileProvenance } from "../enrichment/index.js";
+import type { LanguageShare } from "../tech/index.js";
+import { runDataMigrations } from "../worker/index.js";
 import { getRepoDataDir } from "./fetch.js";
 
 export interface DumpOptions {
   dataDir?: string;
   output?: string;
+  excludeGone?: boolean;
+  minConfidence?: number;
+  confidence?: boolean; // add <field>_confidence and <field>_source columns
 }
 
 export async function dumpCommand(repo: string, options: DumpOptions): Promise<void> {
   const dataDir = getRepoDataDir(repo, options.dataDir);
   const dbPath = path.join(dataDir, "stargazers.db");
   const defaultOutput = path.join(dataDir, "export.csv");
+  const { minConfidence } = options;
+
+  if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+    console.error("Error: --min-confidence must be a number between 0 and 1");
+    process.exit(1);
+  }
 
   try {
     const db = await getDb(dbPath);
     await initializeSchema(db);
     const connection = await db.connect();
+    await runDataMigrations(connection);
 
     const query = await connection.run(`
       SELECT
@@ -31,13 +44,55 @@ export async function dumpCommand(repo: string, options: DumpOptions): Promise<v
         e.website_url,
         e.university,
         e.twitter_username,
-        e.social_accounts
+        e.social_accounts,
+        e.field_provenance,
+        s.id,
+        e.city,
+        e.region,
+        e.country_code,
+        e.job_title,
+        e.role_category,
+        e.seniority,
+        t.primary_language,
+        t.languages,
+        t.frameworks,
+        t.topics,
+        t.original_repo_count,
+        t.fork_count,
+        t.last_push_at,
+        e.email_type,
+        e.email_domain,
+        ec.name
       FROM stargazers s
       LEFT JOIN enriched_profiles e ON s.id = e.github_id
+      LEFT JOIN companies ec ON ec.id = e.email_company_id
+      LEFT JOIN stargazer_tech t ON s.id = t.stargazer_id
+      ${options.excludeGone ? "WHERE s.enrichment_status <> 'gone'" : ""}
       ORDER BY s.starred_at DESC
     `);
 
     const rows = await query.getRows();
+
+    // Employers under their canonical company names, in extraction order, those
+    // the work email confirms, and the classification of the first current one
+    const employersQuery = await connection.run(`
+      SELECT pe.github_id, pe.is_current, COALESCE(c.name, pe.name), pe.email_confirmed, c.industry, c.size, c.company_type, c.hq_country
+      FROM profile_employers pe
+      LEFT JOIN companies c ON c.id = pe.company_id
+      ORDER BY pe.github_id, pe.position
+    `);
+    const canonicalEmployers = new Map<
+      number,
+      { current: string[]; past: string[]; confirmed: string[]; classification?: unknown[] }
+    >();
+    for (const [githubId, isCurrent, name, emailConfirmed, ...classification] of await employersQuery.getRows()) {
+      const entry = canonicalEmployers.get(Number(githubId)) ?? { current: [], past: [], confirmed: [] };
+      const names = isCurrent ? entry.current : entry.past;
+      if (!names.includes(String(name))) names.push(String(name));
+      if (emailConfirmed && !entry.confirmed.includes(String(name))) entry.confirmed.push(String(name));
+      if (isCurrent && !entry.classification) entry.classification = classification;
+      canonicalEmployers.set(Number(githubId), entry);
+    }
     connection.closeSync();
 
     // CSV header
@@ -47,15 +102,41 @@ export async function dumpCommand(repo: string, options: DumpOptions): Promise<v
       "join_date",
       "name",
       "email",
+      "email_type",
+      "email_domain",
+      "email_company",
       "country",
+      "city",
+      "region",
+      "country_code",
+      "job_title",
+      "role_category",
+      "seniority",
       "current_employer",
       "past_employers",
+      "email_confirmed_employers",
+      "employer_industry",
+      "employer_size",
+      "employer_type",
+      "employer_hq_country",
       "linkedin_url",
       "twitter_url",
       "website_url",
       "university",
       "other_socials",
+      "primary_language",
+      "languages",
+      "frameworks",
+      "topics",
+      "original_repos",
+      "forked_repos",
+      "last_push_at",
     ];
+    if (options.confidence) {
+      for (const field of PROFILE_FIELDS) {
+        headers.push(`${field}_confidence`, `${field}_source`);
+      }
+    }
 
     // Escape CSV value
     const escapeCSV = (value: unknown): string => {
@@ -67,9 +148,22 @@ export async function dumpCommand(repo: string, options: DumpOptions): Promise<v
       return str;
     };
 
-    // Parse employers JSON and split into current/past
-    const parseEmployers = (employersJson: unknown): { current: string; past: string } => {
-      if (!employersJson) return { current: "", past: "" };
+    // Split employers into current/past, using canonical company names once they
+    // have been resolved and the raw employers JSON before that. Only resolved
+    // employers can be confirmed by the work email.
+    const parseEmployers = (
+      githubId: number,
+      employersJson: unknown
+    ): { current: string; past: string; confirmed: string } => {
+      if (!employersJson) return { current: "", past: "", confirmed: "" };
+      const canonical = canonicalEmployers.get(githubId);
+      if (canonical) {
+        return {
+          current: canonical.current.join(", "),
+          past: canonical.past.join(", "),
+          confirmed: canonical.confirmed.join(", "),
+        };
+      }
       try {
         const employers = JSON.parse(String(employersJson)) as Array<{ name: string; current?: boolean }>;
         const current = employers.filter((e) => e.current).map((e) => e.name);
@@ -77,9 +171,10 @@ export async function dumpCommand(repo: string, options: DumpOptions): Promise<v
         return {
           current: current.join(", "),
           past: past.join(", "),
+          confirmed: "",
         };
       } catch {
-        return { current: "", past: "" };
+        return { current: "", past: "", confirmed: "" };
       }
     };
 
@@ -123,29 +218,87 @@ export async function dumpCommand(repo: string, options: DumpOptions): Promise<v
       return { linkedin, twitter, others: others.join(", ") };
     };
 
+    // Technology profile lists are stored as JSON; languages carry their share
+    const parseTechList = (json: unknown): string => {
+      if (!json) return "";
+      try {
+        const items = JSON.parse(String(json)) as Array<string | LanguageShare>;
+        return items
+          .map((item) => (typeof item === "string" ? item : `${item.language} ${Math.round(item.share * 100)}%`))
+          .join(", ");
+      } catch {
+        return "";
+      }
+    };
+
+    const parseProvenance = (provenanceJson: unknown): ProfileProvenance => {
+      if (!provenanceJson) return {};
+      try {
+        return JSON.parse(String(provenanceJson)) as ProfileProvenance;
+      } catch {
+        return {};
+      }
+    };
+
+    // Blank out values below --min-confidence. Profiles enriched before provenance
+    // was recorded have no confidence and are treated as 0.
+    const keep = (provenance: ProfileProvenance, field: ProfileField, value: unknown): unknown => {
+      if (minConfidence === undefined) return value;
+      return (provenance[field]?.confidence ?? 0) >= minConfidence ? value : null;
+    };
+
     // Build CSV
     const lines: string[] = [headers.join(",")];
 
     for (const row of rows) {
-      // row: [username, starred_at, join_date, name, email, country, employers, linkedin_url, website_url, university, twitter_username, social_accounts]
-      const { current, past } = parseEmployers(row[6]);
+      // row: [username, starred_at, join_date, name, email, country, employers, linkedin_url, website_url, university, twitter_username, social_accounts, field_provenance, id, city, region, country_code, job_title, role_category, seniority, primary_language, languages, frameworks, topics, original_repo_count, fork_count, last_push_at, email_type, email_domain, email_company]
+      const provenance = parseProvenance(row[12]);
+      const employers = keep(provenance, "employers", row[6]);
+      const { current, past, confirmed } = parseEmployers(Number(row[13]), employers);
+      const classification = (employers ? canonicalEmployers.get(Number(row[13]))?.classification : undefined) ?? [];
       // Pass linkedin_url (row[7]), twitter_username (row[10]), and social_accounts (row[11])
-      const { linkedin, twitter, others } = parseSocialAccounts(row[11], row[7], row[10]);
+      const { linkedin, twitter, others } = parseSocialAccounts(row[11], keep(provenance, "linkedin_url", row[7]), row[10]);
       const values = [
         escapeCSV(row[0]), // username
         escapeCSV(row[1]), // starred_at
         escapeCSV(row[2]), // join_date
         escapeCSV(row[3]), // name
-        escapeCSV(row[4]), // email
-        escapeCSV(row[5]), // country
+        escapeCSV(keep(provenance, "email", row[4])), // email
+        escapeCSV(keep(provenance, "email", row[27])), // email_type
+        escapeCSV(keep(provenance, "email", row[28])), // email_domain
+        escapeCSV(keep(provenance, "email", row[29])), // email_company
+        escapeCSV(keep(provenance, "country", row[5])), // country
+        escapeCSV(keep(provenance, "country", row[14])), // city
+        escapeCSV(keep(provenance, "country", row[15])), // region
+        escapeCSV(keep(provenance, "country", row[16])), // country_code
+        escapeCSV(keep(provenance, "job_title", row[17])), // job_title
+        escapeCSV(keep(provenance, "role_category", row[18])), // role_category
+        escapeCSV(keep(provenance, "seniority", row[19])), // seniority
         escapeCSV(current), // current_employer
         escapeCSV(past), // past_employers
+        escapeCSV(confirmed), // email_confirmed_employers
+        escapeCSV(classification[0]), // employer_industry
+        escapeCSV(classification[1]), // employer_size
+        escapeCSV(classification[2]), // employer_type
+        escapeCSV(classification[3]), // employer_hq_country
         escapeCSV(linkedin), // linkedin_url (from dedicated field or social_accounts)
         escapeCSV(twitter), // twitter_url (from dedicated field or social_accounts)
-        escapeCSV(row[8]), // website_url
-        escapeCSV(row[9]), // university
+        escapeCSV(keep(provenance, "website_url", row[8])), // website_url
+        escapeCSV(keep(provenance, "university", row[9])), // university
         escapeCSV(others), // other_socials (excludes linkedin and twitter)
+        escapeCSV(row[20]), // primary_language
+        escapeCSV(parseTechList(row[21])), // languages
+        escapeCSV(parseTechList(row[22])), // frameworks
+        escapeCSV(parseTechList(row[23])), // topics
+        escapeCSV(row[24]), // original_repos
+        escapeCSV(row[25]), // forked_repos
+        escapeCSV(row[26]), // last_push_at
       ];
+      if (options.confidence) {
+        for (const field of PROFILE_FIELDS) {
+          values.push(escapeCSV(provenance[field]?.confidence), escapeCSV(provenance[field]?.source));
+        }
+      }
       lines.push(values.join(","));
     }
 
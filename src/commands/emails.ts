@@ -0,0 +1,75 @@
+import path from "path";
+import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import { loadEmailCandidates } from "../emails/index.js";
+import type { ProfileProvenance } from "../enrichment/index.js";
+import { runDataMigrations } from "../worker/index.js";
+import { getRepoDataDir } from "./fetch.js";
+
+export interface EmailsOptions {
+  dataDir?: string;
+}
+
+/**
+ * Show the ranked commit emails found for a stargazer, and which one was chosen.
+ */
+export async function emailsCommand(repo: string, username: string, options: EmailsOptions): Promise<void> {
+  const dataDir = getRepoDataDir(repo, options.dataDir);
+  const dbPath = path.join(dataDir, "stargazers.db");
+
+  try {
+    const db = await getDb(dbPath);
+    await initializeSchema(db);
+    const connection = await db.connect();
+    await runDataMigrations(connection);
+
+    const result = await connection.run(
+      `SELECT s.id, s.username, e.email, e.field_provenance
+       FROM stargazers s
+       LEFT JOIN enriched_profiles e ON s.id = e.github_id
+       WHERE lower(s.username) = lower(?)`,
+      [username]
+    );
+    const rows = await result.getRows();
+    if (rows.length === 0) {
+      connection.closeSync();
+      console.error(`Error: ${username} is not a stargazer of ${repo}`);
+      process.exit(1);
+    }
+
+    const [id, login, email, provenanceJson] = rows[0];
+    const candidates = await loadEmailCandidates(connection, Number(id));
+    connection.closeSync();
+
+    let provenance: ProfileProvenance = {};
+    try {
+      provenance = provenanceJson ? (JSON.parse(String(provenanceJson)) as ProfileProvenance) : {};
+    } catch {
+      // Show the email without its provenance
+    }
+    const source = provenance.email
+      ? ` (${provenance.email.source}${provenance.email.detail ? `, ${provenance.email.detail}` : ""}, confidence ${provenance.email.confidence})`
+      : "";
+    console.log(`${login}: ${email ?? "no email"}${source}`);
+
+    if (candidates.length === 0) {
+      console.log("No commit emails found. Emails are only looked for when the profile has no public email.");
+      return;
+    }
+
+    console.log("");
+    for (const candidate of candidates) {
+      const marker = candidate.chosen ? "*" : " ";
+      const names = candidate.names.length > 0 ? ` as ${candidate.names.map((n) => `"${n}"`).join(", ")}` : "";
+      const type = candidate.type ? `  ${candidate.type}` : "";
+      console.log(
+        `${marker} ${candidate.rank}. ${candidate.email}  ${candidate.score.toFixed(2)}${type}  ${candidate.sources.join(", ")}${names}`
+      );
+      console.log(`     ${candidate.reasons.join("; ")}`);
+    }
+  } catch (error) {
+    console.error("Listing emails failed:", error);
+    process.exit(1);
+  } finally {
+    await closeDb();
+  }
+}
@@ -1,19 +1,40 @@
 import path from "path";
 import { getDb, initializeSchema, closeDb } from "../db/index.js";
-import { runEnrich } from "../worker/index.js";
+import { openCassette, type Cassette } from "../cassette/index.js";
+import { runEnrich, formatFailureKinds, type GitHubApiMode } from "../worker/index.js";
 import { getRepoDataDir } from "./fetch.js";
 
 export interface EnrichCommandOptions {
   dataDir?: string;
   limit?: number;
   sample?: number;
+  api?: GitHubApiMode;
+  model?: string;
+  cache?: boolean;
+  llmCache?: boolean;
+  refreshCache?: boolean;
+  githubConcurrency?: number;
+  llmConcurrency?: number;
+  apiUrl?: string;
+  graphqlUrl?: string;
+  record?: string;
+  replay?: string;
 }
 
 export async function enrichCommand(repo: string, options: EnrichCommandOptions): Promise<void> {
   const dataDir = getRepoDataDir(repo, options.dataDir);
   const dbPath = path.join(dataDir, "stargazers.db");
 
+  if (options.api && options.api !== "graphql" && options.api !== "rest") {
+    console.error(`Error: --api must be "graphql" or "rest", got "${options.api}"`);
+    process.exit(1);
+  }
+
+  let cassette: Cassette | undefined;
+
   try {
+    cassette = openCassette(options);
+
     // Initialize database (in case it doesn't exist)
     const db = await getDb(dbPath);
     await initializeSchema(db);
@@ -23,16 +44,30 @@ export async function enrichCommand(repo: string, options: EnrichCommandOptions)
       dbPath,
       limit: options.limit,
       sample: options.sample,
+      api: options.api,
+      model: options.model,
+      cache: options.cache,
+      llmCache: options.llmCache,
+      refreshCache: options.refreshCache,
+      githubConcurrency: options.githubConcurrency,
+      llmConcurrency: options.llmConcurrency,
+      apiUrl: options.apiUrl,
+      graphqlUrl: options.graphqlUrl,
+      cassette,
     });
 
     console.log("\nDone:");
     console.log(`  Enriched: ${stats.enriched}`);
-    console.log(`  Failed: ${stats.failed}`);
+    console.log(`  Failed: ${stats.failed}${stats.failed > 0 ? ` (${formatFailureKinds(stats.failures)})` : ""}`);
+    console.log(`  Gone: ${stats.gone}`);
     console.log(`  Remaining: ${stats.pending}`);
+    console.log(`  LLM calls: ${stats.llm.called} (${stats.llm.cached} cached, ${stats.llm.skipped} skipped by rules)`);
   } catch (error) {
     console.error("Enrich failed:", error);
+    cassette?.save(); // process.exit skips the finally block
     process.exit(1);
   } finally {
+    cassette?.save();
     await closeDb();
   }
 }
@@ -1,11 +1,18 @@
 import { mkdirSync } from "fs";
 import path from "path";
 import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import { openCassette, type Cassette } from "../cassette/index.js";
 import { runFetch } from "../worker/index.js";
 
 export interface FetchCommandOptions {
   dataDir?: string;
   limit?: number;
+  full?: boolean;
+  cache?: boolean;
+  apiUrl?: string;
+  graphqlUrl?: string;
+  record?: string;
+  replay?: string;
 }
 
 export function getRepoDataDir(repo: string, baseDir: string = "./data"): string {
@@ -32,7 +39,11 @@ export async function fetchCommand(repo: string, options: FetchCommandOptions):
   const dataDir = getRepoDataDir(repo, options.dataDir);
   const dbPath = path.join(dataDir, "stargazers.db");
 
+  let cassette: Cassette | undefined;
+
   try {
+    cassette = openCassette(options);
+
     // Ensure data directory exists
     mkdirSync(dataDir, { recursive: true });
     console.log(`Using data directory: ${dataDir}`);
@@ -47,15 +58,25 @@ export async function fetchCommand(repo: string, options: FetchCommandOptions):
       repo: repoName,
       dbPath,
       limit: options.limit,
+      full: options.full,
+      cache: options.cache,
+      apiUrl: options.apiUrl,
+      graphqlUrl: options.graphqlUrl,
+      cassette,
     });
 
     console.log("\nDone:");
+    console.log(`  Sync: ${stats.full ? "full" : "incremental"}`);
     console.log(`  Total stargazers: ${stats.total}`);
     console.log(`  New: ${stats.new}`);
+    console.log(`  Re-starred: ${stats.restarred}`);
+    console.log(`  Unstarred: ${stats.unstarred}`);
   } catch (error) {
     console.error("Fetch failed:", error);
+    cassette?.save(); // process.exit skips the finally block
     process.exit(1);
   } finally {
+    cassette?.save();
     await closeDb();
   }
 }
@@ -0,0 +1,111 @@
+import path from "path";
+import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import { getRepoDataDir } from "./fetch.js";
+
+export interface HistoryOptions {
+  dataDir?: string;
+  interval?: string;
+}
+
+const INTERVALS = ["day", "week", "month", "year"];
+
+export async function historyCommand(repo: string, options: HistoryOptions): Promise<void> {
+  const dataDir = getRepoDataDir(repo, options.dataDir);
+  const dbPath = path.join(dataDir, "stargazers.db");
+  const interval = options.interval ?? "week";
+
+  if (!INTERVALS.includes(interval)) {
+    console.error(`Error: --interval must be one of ${INTERVALS.join(", ")}`);
+    process.exit(1);
+  }
+
+  try {
+    const db = await getDb(dbPath);
+    await initializeSchema(db);
+    const connection = await db.connect();
+
+    // A re-star is any star event after a stargazer's first one.
+    // Churn is unstars as a share of active stargazers at the start of the period.
+    const query = await connection.run(`
+      WITH ranked AS (
+        SELECT
+          date_trunc('${interval}', event_at) AS period,
+          event_type,
+          ROW_NUMBER() OVER (PARTITION BY stargazer_id, event_type ORDER BY event_at, id) AS nth
+        FROM star_events
+      ),
+      periods AS (
+        SELECT
+          period,
+          COUNT(*) FILTER (WHERE event_type = 'star') AS stars,
+          COUNT(*) FILTER (WHERE event_type = 'star' AND nth > 1) AS restars,
+          COUNT(*) FILTER (WHERE event_type = 'unstar') AS unstars
+        FROM ranked
+        GROUP BY period
+      )
+      SELECT
+        strftime(period, '%Y-%m-%d') AS period,
+        stars,
+        restars,
+        unstars,
+        stars - unstars AS net,
+        SUM(stars - unstars) OVER (ORDER BY period) AS active,
+        SUM(stars - unstars) OVER (ORDER BY period) - (stars - unstars) AS active_at_start
+      FROM periods
+      ORDER BY period
+    `);
+
+    const rows = await query.getRows();
+    connection.closeSync();
+
+    if (rows.length === 0) {
+      console.log("No star events recorded yet. Run fetch first.");
+      return;
+    }
+
+    const headers = ["period", "stars", "re-stars", "unstars", "net", "active", "churn"];
+    const table = rows.map((row) => {
+      const unstars = Number(row[3]);
+      const activeAtStart = Number(row[6]);
+      const churn = activeAtStart > 0 ? `${((unstars / activeAtStart) * 100).toFixed(2)}%` : "-";
+      const net = Number(row[4]);
+      return [
+        String(row[0]),
+        String(row[1]),
+        String(row[2]),
+        String(unstars),
+        net > 0 ? `+${net}` : String(net),
+        String(row[5]),
+        churn,
+      ];
+    });
+
+    const widths = headers.map((h, i) => Math.max(h.length, ...table.map((r) => r[i].length)));
+    const format = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  ");
+
+    console.log(format(headers));
+    console.log(widths.map((w) => "-".repeat(w)).join("  "));
+    for (const cells of table) {
+      console.log(format(cells));
+    }
+
+    const totals = rows.reduce<{ stars: number; restars: number; unstars: number }>(
+      (acc, row) => ({
+        stars: acc.stars + Number(row[1]),
+        restars: acc.restars + Number(row[2]),
+        unstars: acc.unstars + Number(row[3]),
+      }),
+      { stars: 0, restars: 0, unstars: 0 }
+    );
+
+    console.log("\nTotals:");
+    console.log(`  Stars: ${totals.stars} (${totals.restars} re-stars)`);
+    console.log(`  Unstars: ${totals.unstars}`);
+    console.log(`  Net: ${totals.stars - totals.unstars}`);
+  } catch (error) {
+    console.error("History failed:", error);
+    process.exit(1);
+  } finally {
+    await closeDb();
+  }
+}
@@ -0,0 +1,125 @@
+import path from "path";
+import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import {
+  countEnriched,
+  countGone,
+  countPopulation,
+  DEFAULT_SUSPICION_THRESHOLD,
+  estimateShare,
+  loadSignals,
+  loadStarTimes,
+  REASON_DESCRIPTIONS,
+  saveScores,
+  scoreStargazers,
+  SUSPICION_REASONS,
+} from "../legitimacy/index.js";
+import { getRepoDataDir } from "./fetch.js";
+
+export interface LegitimacyOptions {
+  dataDir?: string;
+  sample?: number; // 0.0-1.0, share of the repo's stargazers to score
+  threshold?: number;
+  top?: number;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export async function legitimacyCommand(repo: string, options: LegitimacyOptions): Promise<void> {
+  const dataDir = getRepoDataDir(repo, options.dataDir);
+  const dbPath = path.join(dataDir, "stargazers.db");
+  const { sample } = options;
+  const threshold = options.threshold ?? DEFAULT_SUSPICION_THRESHOLD;
+  const top = options.top ?? 10;
+
+  if (sample !== undefined && !(sample > 0 && sample <= 1)) {
+    console.error("Error: --sample must be a number between 0 and 1");
+    process.exit(1);
+  }
+  if (!(threshold > 0 && threshold <= 1)) {
+    console.error("Error: --threshold must be a number between 0 and 1");
+    process.exit(1);
+  }
+
+  try {
+    const db = await getDb(dbPath);
+    await initializeSchema(db);
+    const connection = await db.connect();
+
+    const population = await countPopulation(connection);
+    const gone = await countGone(connection);
+    const enriched = await countEnriched(connection);
+    if (enriched === 0) {
+      connection.closeSync();
+      console.log("No enriched stargazers to score. Run enrich first (e.g. enrich --sample 0.1).");
+      return;
+    }
+
+    let limit: number | undefined;
+    if (sample !== undefined) {
+      limit = Math.max(1, Math.round(population * sample));
+      if (limit > enriched) {
+        console.log(`Only ${enriched} stargazers are enriched, fewer than the ${limit} requested; scoring all of them`);
+        limit = undefined;
+      }
+    }
+
+    const signals = await loadSignals(connection, limit);
+    const scores = scoreStargazers(signals, await loadStarTimes(connection));
+    await saveScores(connection, scores);
+    connection.closeSync();
+
+    const flagged = scores.filter((s) => s.score >= threshold);
+    const estimate = estimateShare(flagged.length, scores.length, population);
+
+    console.log(`Scored ${scores.length} of ${population} active stargazers`);
+    if (!estimate.exact && limit === undefined) {
+      console.log("  The interval assumes the enriched stargazers are a random sample (enrich with --sample)");
+    }
+    console.log(`Suspicious (score >= ${threshold}): ${flagged.length} (${percent(estimate.share)})`);
+
+    if (estimate.exact) {
+      console.log(`Fake share: ${percent(estimate.share)}, ${flagged.length} stars`);
+    } else {
+      const low = Math.round(estimate.lower * population);
+      const high = Math.round(estimate.upper * population);
+      console.log(
+        `Estimated fake share: ${percent(estimate.share)} (95% CI ${percent(estimate.lower)}-${percent(estimate.upper)}), ` +
+          `roughly ${low}-${high} of ${population} stars`
+      );
+    }
+    if (gone > 0) {
+      // Not scored, and left out of the share above, but most likely fake
+      const low = Math.round(estimate.lower * population) + gone;
+      const high = Math.round(estimate.upper * population) + gone;
+      const total = population + gone;
+      const range = low === high ? `${low}` : `${low}-${high}`;
+      const shares = low === high ? percent(low / total) : `${percent(low / total)}-${percent(high / total)}`;
+      console.log(
+        `Deleted or suspended accounts: ${gone} more stars, not scored. ` +
+          `Counting them as fake: ${range} of ${total} stars (${shares})`
+      );
+    }
+
+    if (flagged.length > 0) {
+      console.log("\nReasons among suspicious stargazers:");
+      for (const reason of SUSPICION_REASONS) {
+        const count = flagged.filter((s) => s.reasons.includes(reason)).length;
+        if (count > 0) console.log(`  ${REASON_DESCRIPTIONS[reason]}: ${count}`);
+      }
+
+      console.log("\nMost suspicious:");
+      const ranked = [...flagged].sort((a, b) => b.score - a.score).slice(0, top);
+      const width = Math.max(...ranked.map((s) => s.username.length));
+      for (const score of ranked) {
+        console.log(`  ${score.username.padEnd(width)}  ${score.score.toFixed(2)}  ${score.reasons.join(", ")}`);
+      }
+    }
+  } catch (error) {
+    console.error("Legitimacy check failed:", error);
+    process.exit(1);
+  } finally {
+    await closeDb();
+  }
+}
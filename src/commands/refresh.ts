@@ -0,0 +1,67 @@
+import path from "path";
+import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import { openCassette, type Cassette } from "../cassette/index.js";
+import { runRefresh, formatFailureKinds } from "../worker/index.js";
+import { getRepoDataDir } from "./fetch.js";
+import type { EnrichCommandOptions } from "./enrich.js";
+
+export interface RefreshCommandOptions extends Omit<EnrichCommandOptions, "sample"> {
+  days?: number;
+}
+
+const DEFAULT_REFRESH_DAYS = 30;
+
+export async function refreshCommand(repo: string, options: RefreshCommandOptions): Promise<void> {
+  const dataDir = getRepoDataDir(repo, options.dataDir);
+  const dbPath = path.join(dataDir, "stargazers.db");
+  const days = options.days ?? DEFAULT_REFRESH_DAYS;
+
+  if (!Number.isInteger(days) || days < 0) {
+    console.error(`Error: --days must be a non-negative integer, got "${options.days}"`);
+    process.exit(1);
+  }
+  if (options.api && options.api !== "graphql" && options.api !== "rest") {
+    console.error(`Error: --api must be "graphql" or "rest", got "${options.api}"`);
+    process.exit(1);
+  }
+
+  let cassette: Cassette | undefined;
+
+  try {
+    cassette = openCassette(options);
+
+    // Initialize database (in case it doesn't exist)
+    const db = await getDb(dbPath);
+    await initializeSchema(db);
+
+    const stats = await runRefresh({
+      dbPath,
+      olderThanDays: days,
+      limit: options.limit,
+      api: options.api,
+      model: options.model,
+      cache: options.cache,
+      llmCache: options.llmCache,
+      refreshCache: options.refreshCache,
+      githubConcurrency: options.githubConcurrency,
+      llmConcurrency: options.llmConcurrency,
+      apiUrl: options.apiUrl,
+      graphqlUrl: options.graphqlUrl,
+      cassette,
+    });
+
+    console.log("\nDone:");
+    console.log(`  Refreshed: ${stats.refreshed}`);
+    console.log(`  Changed: ${stats.changed}`);
+    console.log(`  Failed: ${stats.failed}${stats.failed > 0 ? ` (${formatFailureKinds(stats.failures)})` : ""}`);
+    console.log(`  Gone: ${stats.gone}`);
+    console.log(`  Still stale: ${stats.stale}`);
+  } catch (error) {
+    console.error("Refresh failed:", error);
+    cassette?.save(); // process.exit skips the finally block
+    process.exit(1);
+  } finally {
+    cassette?.save();
+    await closeDb();
+  }
+}
@@ -0,0 +1,66 @@
+import path from "path";
+import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import { openCassette, type Cassette } from "../cassette/index.js";
+import { runRetryFailed, ENRICHMENT_ERROR_KINDS, formatFailureKinds, type EnrichmentErrorKind } from "../worker/index.js";
+import { getRepoDataDir } from "./fetch.js";
+import type { EnrichCommandOptions } from "./enrich.js";
+
+export interface RetryFailedCommandOptions extends Omit<EnrichCommandOptions, "sample"> {
+  kind?: string[];
+}
+
+export async function retryFailedCommand(repo: string, options: RetryFailedCommandOptions): Promise<void> {
+  const dataDir = getRepoDataDir(repo, options.dataDir);
+  const dbPath = path.join(dataDir, "stargazers.db");
+
+  // Accept both --kind a --kind b and --kind a,b
+  const kinds = options.kind?.flatMap((k) => k.split(",")).map((k) => k.trim()).filter(Boolean);
+  const unknown = kinds?.filter((k) => !(ENRICHMENT_ERROR_KINDS as readonly string[]).includes(k)) ?? [];
+  if (unknown.length > 0) {
+    console.error(`Error: unknown error kind(s) ${unknown.join(", ")}. Expected one of: ${ENRICHMENT_ERROR_KINDS.join(", ")}`);
+    process.exit(1);
+  }
+  if (options.api && options.api !== "graphql" && options.api !== "rest") {
+    console.error(`Error: --api must be "graphql" or "rest", got "${options.api}"`);
+    process.exit(1);
+  }
+
+  let cassette: Cassette | undefined;
+
+  try {
+    cassette = openCassette(options);
+
+    // Initialize database (in case it doesn't exist)
+    const db = await getDb(dbPath);
+    await initializeSchema(db);
+
+    const stats = await runRetryFailed({
+      dbPath,
+      kinds: kinds as EnrichmentErrorKind[] | undefined,
+      limit: options.limit,
+      api: options.api,
+      model: options.model,
+      cache: options.cache,
+      llmCache: options.llmCache,
+      refreshCache: options.refreshCache,
+      githubConcurrency: options.githubConcurrency,
+      llmConcurrency: options.llmConcurrency,
+      apiUrl: options.apiUrl,
+      graphqlUrl: options.graphqlUrl,
+      cassette,
+    });
+
+    console.log("\nDone:");
+    console.log(`  Enriched: ${stats.enriched}`);
+    console.log(`  Failed again: ${stats.failed}${stats.failed > 0 ? ` (${formatFailureKinds(stats.failures)})` : ""}`);
+    console.log(`  Gone: ${stats.gone}`);
+    console.log(`  Still failed: ${stats.pending}`);
+  } catch (error) {
+    console.error("Retry failed:", error);
+    cassette?.save(); // process.exit skips the finally block
+    process.exit(1);
+  } finally {
+    cassette?.save();
+    await closeDb();
+  }
+}
@@ -0,0 +1,92 @@
+import path from "path";
+import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import {
+  ACTIVE_WITHIN_DAYS,
+  DEFAULT_MIN_LANGUAGE_SHARE,
+  TECH_DIMENSIONS,
+  techBreakdown,
+  techSummary,
+  type TechDimension,
+} from "../tech/index.js";
+import { getRepoDataDir } from "./fetch.js";
+
+export interface TechOptions {
+  dataDir?: string;
+  by?: string;
+  top?: number;
+  minShare?: number; // share of someone's code a language needs to count
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export async function techCommand(repo: string, options: TechOptions): Promise<void> {
+  const dataDir = getRepoDataDir(repo, options.dataDir);
+  const dbPath = path.join(dataDir, "stargazers.db");
+  const by = (options.by ?? "language") as TechDimension;
+  const top = options.top ?? 20;
+  const minShare = options.minShare ?? DEFAULT_MIN_LANGUAGE_SHARE;
+
+  if (!TECH_DIMENSIONS.includes(by)) {
+    console.error(`Error: --by must be one of ${TECH_DIMENSIONS.join(", ")}`);
+    process.exit(1);
+  }
+  if (!(minShare > 0 && minShare <= 1)) {
+    console.error("Error: --min-share must be a number between 0 and 1");
+    process.exit(1);
+  }
+
+  try {
+    const db = await getDb(dbPath);
+    await initializeSchema(db);
+    const connection = await db.connect();
+
+    const summary = await techSummary(connection);
+    if (summary.profiled === 0) {
+      connection.closeSync();
+      console.log("No stargazers with a technology profile yet. Run enrich first.");
+      return;
+    }
+    const rows = await techBreakdown(connection, by, minShare);
+    connection.closeSync();
+
+    const { profiled } = summary;
+    console.log(`${profiled} stargazers with a technology profile`);
+    console.log(`  With original public repos: ${summary.withCode} (${percent(summary.withCode / profiled)})`);
+    console.log(`  Pushed in the last ${ACTIVE_WITHIN_DAYS} days: ${summary.active} (${percent(summary.active / profiled)})`);
+    if (summary.medianOriginalRatio !== null) {
+      console.log(`  Median share of repos that are not forks: ${percent(summary.medianOriginalRatio)}`);
+    }
+    if (by === "language") {
+      console.log(`\nA language counts when it makes up at least ${percent(minShare)} of someone's code.`);
+    }
+    console.log("");
+
+    if (rows.length === 0) {
+      console.log(`No ${by}s found.`);
+      return;
+    }
+
+    // Shares are of all profiled stargazers, so they can add up to more than 100%
+    const headers = [by, "stargazers", "share"];
+    const table = rows.slice(0, top).map((row) => [row.value, String(row.stargazers), percent(row.stargazers / profiled)]);
+
+    const widths = headers.map((h, i) => Math.max(h.length, ...table.map((r) => r[i].length)));
+    const format = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  ");
+
+    console.log(format(headers));
+    console.log(widths.map((w) => "-".repeat(w)).join("  "));
+    for (const cells of table) {
+      console.log(format(cells));
+    }
+    if (rows.length > top) {
+      console.log(`... and ${rows.length - top} more`);
+    }
+  } catch (error) {
+    console.error("Tech report failed:", error);
+    process.exit(1);
+  } finally {
+    await closeDb();
+  }
+}
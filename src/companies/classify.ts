@@ -0,0 +1,241 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import { z } from "zod";
+import {
+  generateCached,
+  getLlmProvider,
+  recordLlmOutcome,
+  standardizeCountry,
+  type CachedGenerateOptions,
+  type LlmOutcome,
+  type LlmProvider,
+  type LlmStats,
+  type LlmUsage,
+} from "../enrichment/index.js";
+import { CassetteMissError } from "../cassette/index.js";
+import { normalizeCompanyName } from "./normalize.js";
+import { lookupSeedCompany } from "./seed.js";
+
+/**
+ * Industry, size, type and HQ country of a company. Companies in the bundled
+ * seed dataset are classified from it; the rest by the LLM.
+ */
+
+export const INDUSTRIES = [
+  "software",
+  "internet",
+  "ai",
+  "cloud",
+  "hardware",
+  "semiconductors",
+  "telecom",
+  "fintech",
+  "finance",
+  "ecommerce",
+  "media",
+  "gaming",
+  "automotive",
+  "consulting",
+  "education",
+  "research",
+  "healthcare",
+  "government",
+  "nonprofit",
+  "other",
+] as const;
+
+// Employee count buckets
+export const COMPANY_SIZES = ["1-10", "11-50", "51-200", "201-1000", "1001-10000", "10000+"] as const;
+
+export const COMPANY_TYPES = [
+  "startup",
+  "big_tech",
+  "enterprise", // an established company that is not big tech
+  "university",
+  "government",
+  "nonprofit",
+  "self_employed",
+  "other",
+] as const;
+
+export const CompanyClassificationSchema = z.object({
+  industry: z.enum(INDUSTRIES).nullable(),
+  size: z.enum(COMPANY_SIZES).nullable(),
+  company_type: z.enum(COMPANY_TYPES).nullable(),
+  hq_country: z.string().nullable(),
+});
+
+export type CompanyClassification = z.infer<typeof CompanyClassificationSchema>;
+
+/**
+ * Where a classification came from: the seed dataset, a naming rule, the LLM,
+ * or set by hand.
+ */
+export type ClassificationSource = "seed" | "rule" | "llm" | "manual";
+
+export interface CompanyToClassify {
+  name: string;
+  names: string[]; // normalized name aliases
+  orgs: string[];
+  domains: string[];
+}
+
+export interface ClassifyOptions extends Omit<CachedGenerateOptions, "request"> {
+  provider?: LlmProvider; // defaults to the provider configured in the environment
+}
+
+export interface ClassifiedCompany {
+  classification: CompanyClassification;
+  source: ClassificationSource;
+  llm: LlmOutcome;
+  usage?: LlmUsage;
+}
+
+const SELF_EMPLOYED = /^(self[- ]?employed|freelanc(e|er|ing)|independent( consultant| contractor| developer)?|myself|me|contractor|indie( hacker| developer)?)$/;
+
+export async function classifyCompany(
+  company: CompanyToClassify,
+  options: ClassifyOptions = {}
+): Promise<ClassifiedCompany> {
+  const seed = lookupSeedCompany([normalizeCompanyName(company.name), ...company.names, ...company.orgs]);
+  if (seed) {
+    const { industry, size, company_type, hq_country } = seed;
+    return { classification: { industry, size, company_type, hq_country }, source: "seed", llm: "skipped" };
+  }
+
+  if ([normalizeCompanyName(company.name), ...company.names].some((name) => SELF_EMPLOYED.test(name))) {
+    return {
+      classification: { industry: null, size: "1-10", company_type: "self_employed", hq_country: null },
+      source: "rule",
+      llm: "skipped",
+    };
+  }
+
+  const prompt = `Classify this employer of software developers, as named on GitHub profiles.
+
+Company:
+- Name: ${company.name}
+- Other names: ${company.names.join(", ") || "N/A"}
+- GitHub organizations: ${company.orgs.join(", ") || "N/A"}
+- Domains: ${company.domains.join(", ") || "N/A"}
+
+Return:
+1. industry: the closest of ${INDUSTRIES.join(", ")}.
+2. size: the employee count bucket, one of ${COMPANY_SIZES.join(", ")}.
+3. company_type: one of ${COMPANY_TYPES.join(", ")}. big_tech is only for the largest technology companies; startup is for young, venture-backed companies.
+4. hq_country: the country of the headquarters. Use country names like "Germany" or "Japan", or "US"/"UK".
+
+Return null for any field you cannot determine with reasonable confidence, e.g. for names too generic to identify one company.`;
+
+  const provider = options.provider ?? getLlmProvider();
+  const { result, outcome } = await generateCached(provider, CompanyClassificationSchema, prompt, {
+    cache: options.cache,
+    refreshCache: options.refreshCache,
+    cassette: options.cassette,
+    request: { company: company.name },
+  });
+
+  const classification = result.object as CompanyClassification;
+  return {
+    classification: { ...classification, hq_country: standardizeCountry(classification.hq_country) },
+    source: "llm",
+    llm: outcome,
+    usage: outcome === "cached" ? undefined : result.usage,
+  };
+}
+
+export interface ClassifyCompaniesOptions extends ClassifyOptions {
+  all?: boolean; // reclassify every company except those set by hand, not just unclassified ones
+  limit?: <T>(task: () => Promise<T>) => Promise<T>; // runs each classification, e.g. under an LLM concurrency limit
+  stats?: LlmStats; // LLM calls and cache hits are added here
+}
+
+export interface ClassifyCompaniesStats {
+  classified: number;
+  failed: number; // left unclassified, to be tried again on the next run
+  sources: Partial<Record<ClassificationSource, number>>;
+}
+
+/**
+ * Classify companies that have not been classified yet. Each company is
+ * classified once and the result stored on its row in `companies`, however
+ * many stargazers work there.
+ */
+export async function classifyCompanies(
+  connection: DuckDBConnection,
+  options: ClassifyCompaniesOptions = {}
+): Promise<ClassifyCompaniesStats> {
+  const result = await connection.run(
+    `SELECT
+       c.id,
+       c.name,
+       (SELECT list(value ORDER BY value) FROM company_aliases WHERE company_id = c.id AND kind = 'name'),
+       (SELECT list(value ORDER BY value) FROM company_aliases WHERE company_id = c.id AND kind = 'org'),
+       (SELECT list(value ORDER BY value) FROM company_aliases WHERE company_id = c.id AND kind = 'domain')
+     FROM companies c
+     WHERE ${options.all ? "c.classification_source IS DISTINCT FROM 'manual'" : "c.classified_at IS NULL"}
+     ORDER BY c.id`
+  );
+  const rows = await result.getRowsJS();
+
+  const stats: ClassifyCompaniesStats = { classified: 0, failed: 0, sources: {} };
+  const limit = options.limit ?? (<T>(task: () => Promise<T>) => task());
+
+  const settled = await Promise.allSettled(
+    rows.map((row) =>
+      limit(async () => {
+        const company: CompanyToClassify = {
+          name: String(row[1]),
+          names: (row[2] as string[] | null) ?? [],
+          orgs: (row[3] as string[] | null) ?? [],
+          domains: (row[4] as string[] | null) ?? [],
+        };
+
+        try {
+          const classified = await classifyCompany(company, options);
+          if (options.stats && classified.llm !== "skipped") {
+            recordLlmOutcome(options.stats, classified.llm, classified.usage);
+          }
+          await saveClassification(connection, Number(row[0]), classified.classification, classified.source);
+          stats.classified++;
+          stats.sources[classified.source] = (stats.sources[classified.source] ?? 0) + 1;
+        } catch (error) {
+          if (error instanceof CassetteMissError) throw error;
+          console.error(`Failed to classify company ${company.name}:`, error);
+          stats.failed++;
+        }
+      })
+    )
+  );
+  const rejected = settled.find((outcome) => outcome.status === "rejected");
+  if (rejected) throw rejected.reason;
+
+  return stats;
+}
+
+export async function saveClassification(
+  connection: DuckDBConnection,
+  companyId: number,
+  classification: CompanyClassification,
+  source: ClassificationSource
+): Promise<void> {
+  await connection.run(
+    `UPDATE companies SET
+       industry = ?, size = ?, company_type = ?, hq_country = ?,
+       classification_source = ?, classified_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [
+      classification.industry,
+      classification.size,
+      classification.company_type,
+      classification.hq_country,
+      source,
+      companyId,
+    ]
+  );
+}
+
+export function formatClassificationSources(sources: Partial<Record<ClassificationSource, number>>): string {
+  return Object.entries(sources)
+    .map(([source, count]) => `${count} ${source}`)
+    .join(", ");
+}
@@ -0,0 +1,39 @@
+export {
+  CompanyResolver,
+  resolveAllEmployers,
+  type AliasKind,
+  type EmployerContext,
+  type MatchMethod,
+  type ResolvedEmployer,
+} from "./resolver.js";
+export {
+  listCompanies,
+  findCompany,
+  renameCompany,
+  mergeCompanies,
+  setCompanyClassification,
+  companyBreakdown,
+  countEmployedStargazers,
+  CLASSIFICATION_COLUMNS,
+  type BreakdownRow,
+  type ClassificationColumn,
+  type CompanySummary,
+} from "./manage.js";
+export { normalizeCompanyName, cleanCompanyName, orgHandleOf, domainOf, workEmailDomain } from "./normalize.js";
+export {
+  classifyCompany,
+  classifyCompanies,
+  saveClassification,
+  formatClassificationSources,
+  CompanyClassificationSchema,
+  INDUSTRIES,
+  COMPANY_SIZES,
+  COMPANY_TYPES,
+  type ClassificationSource,
+  type ClassifiedCompany,
+  type ClassifyOptions,
+  type ClassifyCompaniesOptions,
+  type ClassifyCompaniesStats,
+  type CompanyClassification,
+  type CompanyToClassify,
+} from "./classify.js";
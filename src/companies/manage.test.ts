@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DuckDBInstance } from "@duckdb/node-api";
+import { initializeSchema } from "../db/index.js";
+import { listCompanies, mergeCompanies } from "./manage.js";
+import { CompanyResolver } from "./resolver.js";
+
+async function setup() {
+  const db = await DuckDBInstance.create(":memory:");
+  await initializeSchema(db);
+  const connection = await db.connect();
+  const resolver = new CompanyResolver(connection);
+  const link = async (githubId: number, employers: string[], email: string) => {
+    await connection.run(`INSERT INTO enriched_profiles (github_id) VALUES (?)`, [githubId]);
+    await resolver.linkEmployers(githubId, employers.map((name) => ({ name, current: true })), { email });
+  };
+  const company = (companies: Awaited<ReturnType<typeof listCompanies>>, name: string) => {
+    const found = companies.find((c) => c.name === name);
+    assert.ok(found, name);
+    return found;
+  };
+  return { db, connection, link, company };
+}
+
+test("listCompanies counts work email links next to employer links", async (t) => {
+  const { db, connection, link, company } = await setup();
+  t.after(() => db.closeSync());
+
+  await link(1, ["Stripe"], "jane@stripe.com"); // teaches Stripe its domain, confirmed
+  await link(2, [], "joe@stripe.com"); // at Stripe by email only
+  await link(3, ["Acme"], "ann@gmail.com");
+
+  const companies = await listCompanies(connection);
+  assert.deepEqual(
+    [company(companies, "Stripe"), company(companies, "Acme")].map((c) => [c.stargazers, c.emailStargazers, c.emailConfirmed]),
+    [
+      [1, 2, 1],
+      [1, 0, 0],
+    ]
+  );
+});
+
+test("mergeCompanies re-points work email links to the target", async (t) => {
+  const { db, connection, link, company } = await setup();
+  t.after(() => db.closeSync());
+
+  await link(1, ["Stripe"], "jane@stripe.com");
+  await link(2, ["Stripe Payments"], "joe@gmail.com");
+  const before = await listCompanies(connection);
+  const target = company(before, "Stripe Payments").id;
+  await mergeCompanies(connection, target, [company(before, "Stripe").id]);
+
+  const [merged] = await listCompanies(connection);
+  assert.equal(merged.id, target);
+  assert.equal(merged.stargazers, 2);
+  assert.equal(merged.emailStargazers, 1);
+  assert.equal(merged.emailConfirmed, 1);
+  assert.ok(merged.domains.includes("stripe.com"));
+});
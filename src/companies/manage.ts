@@ -0,0 +1,198 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import { normalizeCompanyName } from "./normalize.js";
+import type { ClassificationSource, CompanyClassification } from "./classify.js";
+
+/**
+ * Manual review of companies: listing, renaming, merging duplicates and
+ * correcting classifications.
+ */
+
+export interface CompanySummary {
+  id: number;
+  name: string;
+  names: string[]; // normalized name aliases
+  orgs: string[];
+  domains: string[];
+  stargazers: number; // distinct profiles linked to the company
+  emailStargazers: number; // profiles whose work email is at the company
+  emailConfirmed: number; // linked profiles whose work email confirms the link
+  classification: CompanyClassification;
+  classificationSource: ClassificationSource | null;
+}
+
+// Classification columns that can be reported on
+export const CLASSIFICATION_COLUMNS = ["industry", "size", "company_type", "hq_country"] as const;
+export type ClassificationColumn = (typeof CLASSIFICATION_COLUMNS)[number];
+
+export async function listCompanies(connection: DuckDBConnection, search?: string): Promise<CompanySummary[]> {
+  const result = await connection.run(
+    `SELECT
+       c.id,
+       c.name,
+       (SELECT list(value ORDER BY value) FROM company_aliases WHERE company_id = c.id AND kind = 'name'),
+       (SELECT list(value ORDER BY value) FROM company_aliases WHERE company_id = c.id AND kind = 'org'),
+       (SELECT list(value ORDER BY value) FROM company_aliases WHERE company_id = c.id AND kind = 'domain'),
+       (SELECT COUNT(DISTINCT github_id) FROM profile_employers WHERE company_id = c.id),
+       (SELECT COUNT(*) FROM enriched_profiles WHERE email_company_id = c.id),
+       (SELECT COUNT(DISTINCT github_id) FROM profile_employers WHERE company_id = c.id AND email_confirmed),
+       c.industry,
+       c.size,
+       c.company_type,
+       c.hq_country,
+       c.classification_source
+     FROM companies c
+     ${search ? "WHERE c.id IN (SELECT company_id FROM company_aliases WHERE value LIKE ?) OR c.name ILIKE ?" : ""}`,
+    search ? [`%${normalizeCompanyName(search)}%`, `%${search}%`] : []
+  );
+  const rows = await result.getRowsJS();
+
+  return rows
+    .map((row) => ({
+      id: Number(row[0]),
+      name: String(row[1]),
+      names: (row[2] as string[] | null) ?? [],
+      orgs: (row[3] as string[] | null) ?? [],
+      domains: (row[4] as string[] | null) ?? [],
+      stargazers: Number(row[5]),
+      emailStargazers: Number(row[6]),
+      emailConfirmed: Number(row[7]),
+      classification: {
+        industry: row[8] as CompanyClassification["industry"],
+        size: row[9] as CompanyClassification["size"],
+        company_type: row[10] as CompanyClassification["company_type"],
+        hq_country: row[11] as string | null,
+      },
+      classificationSource: row[12] as ClassificationSource | null,
+    }))
+    .sort((a, b) => b.stargazers - a.stargazers || a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a company by ID, name, or any alias (name, org handle or domain).
+ */
+export async function findCompany(connection: DuckDBConnection, reference: string): Promise<number> {
+  if (/^\d+$/.test(reference)) {
+    const result = await connection.run(`SELECT id FROM companies WHERE id = ?`, [Number(reference)]);
+    const rows = await result.getRows();
+    if (rows.length > 0) return Number(rows[0][0]);
+  }
+
+  const key = normalizeCompanyName(reference);
+  const result = await connection.run(
+    `SELECT DISTINCT company_id FROM company_aliases WHERE value IN (?, ?, ?)`,
+    [key, reference.trim().replace(/^@/, "").toLowerCase(), reference.trim().toLowerCase()]
+  );
+  const rows = await result.getRows();
+  if (rows.length === 0) throw new Error(`No company matches "${reference}"`);
+  if (rows.length > 1) {
+    const ids = rows.map((row) => String(row[0])).join(", ");
+    throw new Error(`"${reference}" matches more than one company (${ids}); use an ID`);
+  }
+  return Number(rows[0][0]);
+}
+
+export async function renameCompany(connection: DuckDBConnection, companyId: number, name: string): Promise<void> {
+  await connection.run(`UPDATE companies SET name = ? WHERE id = ?`, [name, companyId]);
+  await connection.run(
+    `INSERT INTO company_aliases (kind, value, company_id) VALUES ('name', ?, ?) ON CONFLICT DO NOTHING`,
+    [normalizeCompanyName(name), companyId]
+  );
+}
+
+/**
+ * Fold `sourceIds` into `targetId`. Their aliases move to the target, so future
+ * resolutions land there, and existing employer and work email links are re-pointed.
+ * Returns the number of employer links moved.
+ */
+export async function mergeCompanies(
+  connection: DuckDBConnection,
+  targetId: number,
+  sourceIds: number[]
+): Promise<number> {
+  const sources = sourceIds.filter((id) => id !== targetId);
+  if (sources.length === 0) return 0;
+  const placeholders = sources.map(() => "?").join(", ");
+
+  const moved = await connection.run(
+    `UPDATE profile_employers SET company_id = ? WHERE company_id IN (${placeholders})`,
+    [targetId, ...sources]
+  );
+  await connection.run(
+    `UPDATE company_aliases SET company_id = ? WHERE company_id IN (${placeholders})`,
+    [targetId, ...sources]
+  );
+  await connection.run(
+    `UPDATE enriched_profiles SET email_company_id = ? WHERE email_company_id IN (${placeholders})`,
+    [targetId, ...sources]
+  );
+  await connection.run(`DELETE FROM companies WHERE id IN (${placeholders})`, sources);
+  return moved.rowsChanged;
+}
+
+/**
+ * Override some of a company's classification by hand. Fields left out keep
+ * their current value, and later runs no longer reclassify the company.
+ */
+export async function setCompanyClassification(
+  connection: DuckDBConnection,
+  companyId: number,
+  changes: Partial<CompanyClassification>
+): Promise<void> {
+  await connection.run(
+    `UPDATE companies SET
+       industry = COALESCE(?, industry),
+       size = COALESCE(?, size),
+       company_type = COALESCE(?, company_type),
+       hq_country = COALESCE(?, hq_country),
+       classification_source = 'manual',
+       classified_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [changes.industry ?? null, changes.size ?? null, changes.company_type ?? null, changes.hq_country ?? null, companyId]
+  );
+}
+
+export interface BreakdownRow {
+  value: string | null; // null for unclassified
+  stargazers: number;
+  companies: number;
+}
+
+/**
+ * Active stargazers with at least one current employer linked to a company,
+ * each counted once: the base for shares in a breakdown.
+ */
+export async function countEmployedStargazers(connection: DuckDBConnection): Promise<number> {
+  const result = await connection.run(`
+    SELECT COUNT(DISTINCT pe.github_id)
+    FROM profile_employers pe
+    JOIN stargazers s ON s.id = pe.github_id
+    WHERE pe.is_current AND pe.company_id IS NOT NULL AND s.is_active = TRUE
+  `);
+  const rows = await result.getRows();
+  return Number(rows[0][0]);
+}
+
+/**
+ * Active stargazers by a classification of their current employers. Someone
+ * with several current employers counts once under each distinct value.
+ */
+export async function companyBreakdown(
+  connection: DuckDBConnection,
+  column: ClassificationColumn
+): Promise<BreakdownRow[]> {
+  const result = await connection.run(`
+    SELECT c.${column}, COUNT(DISTINCT pe.github_id), COUNT(DISTINCT c.id)
+    FROM profile_employers pe
+    JOIN companies c ON c.id = pe.company_id
+    JOIN stargazers s ON s.id = pe.github_id
+    WHERE pe.is_current AND s.is_active = TRUE
+    GROUP BY c.${column}
+    ORDER BY 2 DESC, 1
+  `);
+  const rows = await result.getRows();
+  return rows.map((row) => ({
+    value: row[0] as string | null,
+    stargazers: Number(row[1]),
+    companies: Number(row[2]),
+  }));
+}
@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cleanCompanyName, domainMatchesName, domainOf, normalizeCompanyName, orgHandleOf, workEmailDomain } from "./normalize.js";
+
+test("normalizeCompanyName matches spellings of the same company", () => {
+  for (const name of ["Google", "google", "@Google", "Google LLC", "Google, Inc.", "  GOOGLE  "]) {
+    assert.equal(normalizeCompanyName(name), "google", name);
+  }
+});
+
+test("normalizeCompanyName strips stacked legal suffixes and punctuation", () => {
+  assert.equal(normalizeCompanyName("Acme Holdings Co., Ltd."), "acme holdings");
+  assert.equal(normalizeCompanyName("Siemens AG"), "siemens");
+  assert.equal(normalizeCompanyName("Booking.com B.V."), "booking com");
+  assert.equal(normalizeCompanyName("Ernst & Young"), "ernst young");
+});
+
+test("normalizeCompanyName keeps non-Latin names", () => {
+  assert.equal(normalizeCompanyName("株式会社メルカリ"), "株式会社メルカリ");
+  assert.equal(normalizeCompanyName("Яндекс"), "яндекс");
+});
+
+test("normalizeCompanyName reduces domains to their registered name", () => {
+  assert.equal(normalizeCompanyName("polar.sh"), "polar");
+  assert.equal(normalizeCompanyName("https://www.stripe.com/"), "stripe");
+  assert.equal(normalizeCompanyName("mail.stripe.co.uk"), "stripe");
+});
+
+test("cleanCompanyName drops the handle and legal form but keeps the case", () => {
+  assert.equal(cleanCompanyName("@Acme"), "Acme");
+  assert.equal(cleanCompanyName("Acme, Inc."), "Acme");
+  // Nothing left after stripping: keep the original
+  assert.equal(cleanCompanyName("Inc"), "Inc");
+});
+
+test("orgHandleOf only reads single @handles", () => {
+  assert.equal(orgHandleOf("@PolarSource"), "polarsource");
+  assert.equal(orgHandleOf(" @open-sauced "), "open-sauced");
+  assert.equal(orgHandleOf("PolarSource"), null);
+  assert.equal(orgHandleOf("@vercel @nextjs"), null);
+  assert.equal(orgHandleOf("@-invalid"), null);
+});
+
+test("domainOf reads bare domains and URLs", () => {
+  assert.equal(domainOf("polar.sh"), "polar.sh");
+  assert.equal(domainOf("https://www.Stripe.com/"), "stripe.com");
+  assert.equal(domainOf("Stripe"), null);
+  assert.equal(domainOf("https://stripe.com/jobs"), null);
+});
+
+test("domainMatchesName compares the registered name with the key", () => {
+  assert.equal(domainMatchesName("stripe.com", "stripe"), true);
+  assert.equal(domainMatchesName("stripe.co.uk", "stripe"), true);
+  assert.equal(domainMatchesName("polarsource.com", "polar source"), true);
+  assert.equal(domainMatchesName("stripe.com", "square"), false);
+});
+
+test("workEmailDomain keeps only employer domains", () => {
+  assert.equal(workEmailDomain("jane@stripe.com"), "stripe.com");
+  assert.equal(workEmailDomain("dev@janedoe.io"), "janedoe.io");
+  assert.equal(workEmailDomain("info@stripe.com"), null);
+  assert.equal(workEmailDomain("jane@gmail.com"), null);
+  assert.equal(workEmailDomain("jane@mit.edu"), null);
+  assert.equal(workEmailDomain("123+jane@users.noreply.github.com"), null);
+});
@@ -0,0 +1,91 @@
+import { classifyEmail } from "../emails/classify.js";
+
+/**
+ * Normalization of raw employer strings into keys that can be matched against
+ * company aliases, GitHub org handles and domains.
+ */
+
+// Trailing legal forms that do not distinguish one company from another
+const LEGAL_SUFFIX =
+  /[\s,]+(inc|incorporated|llc|l\.l\.c|ltd|limited|gmbh|ag|corp|corporation|co|company|plc|s\.?a|s\.?a\.?s|b\.?v|oy|ab|pty|srl|sarl|k\.?k)\.?$/i;
+
+const DOMAIN_PATTERN = /^(?:https?:\/\/)?(?:www\.)?((?:[a-z0-9-]+\.)+[a-z]{2,})\/?$/i;
+
+// Second-level labels under which companies register, as in "example.co.uk"
+const SECOND_LEVEL_LABELS = new Set(["co", "com", "org", "net", "ac", "gov", "edu"]);
+
+function stripLegalSuffixes(name: string): string {
+  let stripped = name.trim();
+  let previous: string;
+  do {
+    previous = stripped;
+    stripped = stripped.replace(LEGAL_SUFFIX, "").trim();
+  } while (stripped !== previous && stripped.length > 0);
+  return stripped;
+}
+
+/**
+ * A display name for a new company: "@Acme" and "Acme, Inc." become "Acme".
+ */
+export function cleanCompanyName(name: string): string {
+  const withoutHandle = name.trim().replace(/^@/, "");
+  return stripLegalSuffixes(withoutHandle) || withoutHandle;
+}
+
+/**
+ * Key for alias matching: lowercased, without a leading "@", legal suffixes or
+ * punctuation. "Google LLC", "google" and "@Google" all become "google".
+ * Domains match by their name, so "polar.sh" becomes "polar".
+ */
+export function normalizeCompanyName(name: string): string {
+  const domain = domainOf(name);
+  if (domain) return domainName(domain);
+
+  return stripLegalSuffixes(name.trim().replace(/^@/, "").toLowerCase())
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * The registered name within a domain: "stripe" for "stripe.com", "mail.stripe.com" and "stripe.co.uk".
+ */
+function domainName(domain: string): string {
+  const labels = domain.split(".");
+  if (labels.length >= 3 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2])) return labels[labels.length - 3];
+  return labels[Math.max(0, labels.length - 2)];
+}
+
+/**
+ * The GitHub org handle an employer string names, for "@handle" values only.
+ */
+export function orgHandleOf(name: string): string | null {
+  const match = name.trim().match(/^@([a-z0-9](?:[a-z0-9-]*[a-z0-9])?)$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * The domain an employer string names, for values like "polar.sh" or "https://www.stripe.com".
+ */
+export function domainOf(name: string): string | null {
+  const match = name.trim().match(DOMAIN_PATTERN);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * The domain of a work email, or null for webmail, academic, disposable and
+ * role addresses (see src/emails/classify.ts).
+ */
+export function workEmailDomain(email: string | null | undefined): string | null {
+  const classification = classifyEmail(email);
+  if (classification?.type !== "work" || classification.domain.endsWith(".noreply.github.com")) return null;
+  return classification.domain;
+}
+
+/**
+ * Whether a domain plausibly belongs to a company with this alias key, e.g.
+ * "stripe.com" or "stripe.co.uk" for "stripe".
+ */
+export function domainMatchesName(domain: string, key: string): boolean {
+  return domainName(domain) === key.replace(/ /g, "");
+}
@@ -0,0 +1,198 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import type { Employer } from "../enrichment/index.js";
+import type { GitHubOrganization } from "../github/types.js";
+import {
+  cleanCompanyName,
+  domainMatchesName,
+  domainOf,
+  normalizeCompanyName,
+  orgHandleOf,
+  workEmailDomain,
+} from "./normalize.js";
+
+/**
+ * Resolution of extracted employers to canonical companies. A company is known
+ * by its aliases in `company_aliases`: normalized names, GitHub org handles and
+ * domains. Each profile's employers are linked to companies in
+ * `profile_employers`, so merging companies re-points existing links too.
+ *
+ * A work email is a separate employer signal: the company owning its domain is
+ * stored as the profile's `email_company_id`, and employers at that company are
+ * marked `email_confirmed`.
+ */
+
+export type AliasKind = "name" | "org" | "domain";
+
+export type MatchMethod =
+  | "domain" // the employer is a domain, e.g. "polar.sh"
+  | "org" // an "@handle", or an org the user belongs to
+  | "alias" // a known normalized name
+  | "email_domain" // the user's work email domain belongs to a known company
+  | "created"; // nothing matched, so a new company was created
+
+export interface EmployerContext {
+  organizations?: GitHubOrganization[]; // the user's orgs, for display names and handles
+  email?: string | null; // the user's email, for domain matching
+}
+
+export interface ResolvedEmployer extends Employer {
+  companyId: number | null; // null when the name is empty after normalization
+  matchedBy: MatchMethod | null;
+  emailConfirmed: boolean; // the user's work email is at this company's domain
+}
+
+export class CompanyResolver {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly connection: DuckDBConnection) {}
+
+  /**
+   * Resolve a profile's employers and replace its links in `profile_employers`.
+   * Calls run one at a time, so profiles enriched concurrently that name the
+   * same new company create it once.
+   */
+  linkEmployers(githubId: number, employers: Employer[], context: EmployerContext = {}): Promise<ResolvedEmployer[]> {
+    const result = this.tail.then(() => this.link(githubId, employers, context));
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  private async link(githubId: number, employers: Employer[], context: EmployerContext): Promise<ResolvedEmployer[]> {
+    // A work email only says something about the employer when there is one current employer
+    const soleCurrent = employers.filter((e) => e.current).length === 1;
+
+    const resolved: ResolvedEmployer[] = [];
+    for (const employer of employers) {
+      resolved.push(await this.resolve(employer, context, soleCurrent && employer.current));
+    }
+
+    // Looked up after resolving, which may have taught a company its domain
+    const emailDomain = workEmailDomain(context.email);
+    const emailCompanyId = emailDomain ? await this.lookup("domain", emailDomain) : null;
+    for (const employer of resolved) {
+      employer.emailConfirmed = emailCompanyId !== null && employer.companyId === emailCompanyId;
+    }
+
+    await this.connection.run(`DELETE FROM profile_employers WHERE github_id = ?`, [githubId]);
+    for (const [position, employer] of resolved.entries()) {
+      await this.connection.run(
+        `INSERT INTO profile_employers (github_id, position, name, is_current, company_id, matched_by, email_confirmed)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [githubId, position, employer.name, employer.current, employer.companyId, employer.matchedBy, employer.emailConfirmed]
+      );
+    }
+    await this.connection.run(`UPDATE enriched_profiles SET email_company_id = ? WHERE github_id = ?`, [
+      emailCompanyId,
+      githubId,
+    ]);
+    return resolved;
+  }
+
+  private async resolve(employer: Employer, context: EmployerContext, useEmail: boolean): Promise<ResolvedEmployer> {
+    const key = normalizeCompanyName(employer.name);
+    if (!key) return { ...employer, companyId: null, matchedBy: null, emailConfirmed: false };
+
+    const domain = domainOf(employer.name);
+    const handle = orgHandleOf(employer.name);
+    // An org the user belongs to whose handle or display name the employer names
+    const organization = context.organizations?.find(
+      (o) =>
+        o.login.toLowerCase() === handle ||
+        normalizeCompanyName(o.login) === key ||
+        (o.name !== null && normalizeCompanyName(o.name) === key)
+    );
+    const orgHandle = handle ?? organization?.login.toLowerCase() ?? null;
+    const workDomain = workEmailDomain(context.email);
+    const emailDomain = useEmail ? workDomain : null;
+
+    // Handles are often the name run together or hyphenated, e.g. "Polar Source" → polarsource
+    const attempts: [MatchMethod, AliasKind, string | null][] = [
+      ["domain", "domain", domain],
+      ["org", "org", orgHandle],
+      ["alias", "name", key],
+      ["org", "org", key.replace(/ /g, "")],
+      ["org", "org", key.replace(/ /g, "-")],
+      ["email_domain", "domain", emailDomain],
+    ];
+
+    let companyId: number | null = null;
+    let matchedBy: MatchMethod = "created";
+    for (const [method, kind, value] of attempts) {
+      if (value === null) continue;
+      companyId = await this.lookup(kind, value);
+      if (companyId !== null) {
+        matchedBy = method;
+        break;
+      }
+    }
+    if (companyId === null) {
+      companyId = await this.create(organization?.name || cleanCompanyName(employer.name));
+    }
+
+    // Remember every name the company was seen under. A name matched only by
+    // email domain may be a different company, so it is not made an alias.
+    if (matchedBy !== "email_domain") await this.addAlias("name", key, companyId);
+    if (organization?.name) await this.addAlias("name", normalizeCompanyName(organization.name), companyId);
+    if (orgHandle) await this.addAlias("org", orgHandle, companyId);
+    if (domain) await this.addAlias("domain", domain, companyId);
+    // Any current employer named like the work email's domain owns that domain
+    if (workDomain && employer.current && domainMatchesName(workDomain, key)) {
+      await this.addAlias("domain", workDomain, companyId);
+    }
+
+    return { ...employer, companyId, matchedBy, emailConfirmed: false };
+  }
+
+  private async lookup(kind: AliasKind, value: string): Promise<number | null> {
+    const result = await this.connection.run(
+      `SELECT company_id FROM company_aliases WHERE kind = ? AND value = ?`,
+      [kind, value]
+    );
+    const rows = await result.getRows();
+    return rows.length > 0 ? Number(rows[0][0]) : null;
+  }
+
+  private async create(name: string): Promise<number> {
+    const result = await this.connection.run(`INSERT INTO companies (name) VALUES (?) RETURNING id`, [name]);
+    const rows = await result.getRows();
+    return Number(rows[0][0]);
+  }
+
+  /**
+   * Add an alias unless another company already has it; merges settle those.
+   */
+  private async addAlias(kind: AliasKind, value: string, companyId: number): Promise<void> {
+    if (!value) return;
+    await this.connection.run(
+      `INSERT INTO company_aliases (kind, value, company_id) VALUES (?, ?, ?) ON CONFLICT DO NOTHING`,
+      [kind, value, companyId]
+    );
+  }
+}
+
+/**
+ * Resolve the employers of every enriched profile, e.g. for profiles enriched
+ * before companies were tracked. Returns the number of profiles linked.
+ */
+export async function resolveAllEmployers(connection: DuckDBConnection): Promise<number> {
+  const result = await connection.run(`SELECT github_id, employers, organizations, email FROM enriched_profiles`);
+  const rows = await result.getRows();
+  const resolver = new CompanyResolver(connection);
+
+  for (const [githubId, employers, organizations, email] of rows) {
+    await resolver.linkEmployers(Number(githubId), parseJson<Employer[]>(employers) ?? [], {
+      organizations: parseJson<GitHubOrganization[]>(organizations) ?? [],
+      email: email as string | null,
+    });
+  }
+  return rows.length;
+}
+
+function parseJson<T>(value: unknown): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(String(value)) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,133 @@
+import type { CompanyClassification } from "./classify.js";
+import { normalizeCompanyName } from "./normalize.js";
+
+/**
+ * Well-known companies, classified by hand so they never need the LLM. Each is
+ * matched by its name and aliases after normalization (see normalizeCompanyName).
+ */
+
+interface SeedCompany extends CompanyClassification {
+  name: string;
+  aliases?: string[];
+}
+
+const big = (
+  name: string,
+  industry: CompanyClassification["industry"],
+  hq_country: string,
+  aliases: string[] = []
+): SeedCompany => ({ name, aliases, industry, size: "10000+", company_type: "big_tech", hq_country });
+
+const enterprise = (
+  name: string,
+  industry: CompanyClassification["industry"],
+  size: CompanyClassification["size"],
+  hq_country: string,
+  aliases: string[] = []
+): SeedCompany => ({ name, aliases, industry, size, company_type: "enterprise", hq_country });
+
+const startup = (
+  name: string,
+  industry: CompanyClassification["industry"],
+  size: CompanyClassification["size"],
+  hq_country: string,
+  aliases: string[] = []
+): SeedCompany => ({ name, aliases, industry, size, company_type: "startup", hq_country });
+
+const SEED_COMPANIES: SeedCompany[] = [
+  // Big tech
+  big("Google", "internet", "US", ["Alphabet", "Google DeepMind", "DeepMind"]),
+  big("Microsoft", "software", "US", ["MSFT"]),
+  big("Apple", "hardware", "US"),
+  big("Amazon", "ecommerce", "US", ["AWS", "Amazon Web Services"]),
+  big("Meta", "internet", "US", ["Facebook", "Meta Platforms"]),
+  big("Netflix", "media", "US"),
+  big("NVIDIA", "semiconductors", "US"),
+  big("Intel", "semiconductors", "US"),
+  big("AMD", "semiconductors", "US", ["Advanced Micro Devices"]),
+  big("IBM", "software", "US", ["IBM Research"]),
+  big("Oracle", "software", "US"),
+  big("Salesforce", "software", "US"),
+  big("Adobe", "software", "US"),
+  big("Cisco", "telecom", "US", ["Cisco Systems"]),
+  big("Uber", "internet", "US"),
+  big("Airbnb", "internet", "US"),
+  big("Alibaba", "ecommerce", "China", ["Alibaba Group", "Alibaba Cloud", "Aliyun", "Ant Group"]),
+  big("Tencent", "internet", "China"),
+  big("ByteDance", "internet", "China", ["TikTok"]),
+  big("Baidu", "internet", "China"),
+  big("Huawei", "telecom", "China"),
+  big("Samsung", "hardware", "South Korea", ["Samsung Electronics"]),
+  big("SAP", "software", "Germany", ["SAP SE"]),
+  big("Yandex", "internet", "Russia"),
+
+  // Large established companies
+  enterprise("GitHub", "software", "1001-10000", "US"),
+  enterprise("GitLab", "software", "1001-10000", "US"),
+  enterprise("Atlassian", "software", "10000+", "Australia"),
+  enterprise("Shopify", "ecommerce", "10000+", "Canada"),
+  enterprise("Spotify", "media", "1001-10000", "Sweden"),
+  enterprise("Red Hat", "software", "10000+", "US"),
+  enterprise("Canonical", "software", "1001-10000", "UK"),
+  enterprise("Cloudflare", "cloud", "1001-10000", "US"),
+  enterprise("Datadog", "cloud", "1001-10000", "US"),
+  enterprise("Elastic", "software", "1001-10000", "US"),
+  enterprise("MongoDB", "software", "1001-10000", "US"),
+  enterprise("Snowflake", "cloud", "1001-10000", "US"),
+  enterprise("Databricks", "cloud", "1001-10000", "US"),
+  enterprise("HashiCorp", "cloud", "1001-10000", "US"),
+  enterprise("DigitalOcean", "cloud", "1001-10000", "US"),
+  enterprise("Twilio", "cloud", "1001-10000", "US"),
+  enterprise("JetBrains", "software", "1001-10000", "Czech Republic"),
+  enterprise("Stripe", "fintech", "1001-10000", "US"),
+  enterprise("PayPal", "fintech", "10000+", "US"),
+  enterprise("Goldman Sachs", "finance", "10000+", "US"),
+  enterprise("JPMorgan Chase", "finance", "10000+", "US", ["JPMorgan", "JP Morgan", "J.P. Morgan"]),
+  enterprise("Bloomberg", "finance", "10000+", "US"),
+  enterprise("Accenture", "consulting", "10000+", "Ireland"),
+  enterprise("Deloitte", "consulting", "10000+", "UK"),
+  enterprise("Thoughtworks", "consulting", "10000+", "US"),
+  enterprise("Tesla", "automotive", "10000+", "US"),
+  enterprise("Booking.com", "internet", "10000+", "Netherlands", ["Booking"]),
+  enterprise("Zalando", "ecommerce", "10000+", "Germany"),
+  enterprise("Mercado Libre", "ecommerce", "10000+", "Argentina", ["MercadoLibre"]),
+  enterprise("Rakuten", "ecommerce", "10000+", "Japan"),
+  enterprise("LINE", "internet", "1001-10000", "Japan", ["LINE Corporation", "LY Corporation"]),
+  enterprise("Mozilla", "software", "201-1000", "US", ["Mozilla Foundation"]),
+
+  // Well-known startups and scale-ups
+  startup("OpenAI", "ai", "1001-10000", "US"),
+  startup("Anthropic", "ai", "1001-10000", "US"),
+  startup("Hugging Face", "ai", "201-1000", "US", ["HuggingFace"]),
+  startup("Mistral AI", "ai", "201-1000", "France", ["Mistral"]),
+  startup("Vercel", "cloud", "201-1000", "US"),
+  startup("Supabase", "cloud", "51-200", "US"),
+  startup("Netlify", "cloud", "51-200", "US"),
+  startup("Replit", "software", "51-200", "US"),
+  startup("Figma", "software", "1001-10000", "US"),
+  startup("Notion", "software", "201-1000", "US"),
+  startup("Linear", "software", "51-200", "US"),
+  startup("Sourcegraph", "software", "51-200", "US"),
+  startup("PostHog", "software", "51-200", "US"),
+];
+
+let seedIndex: Map<string, SeedCompany> | null = null;
+
+/**
+ * The seed company matching any of the given alias keys, if there is one.
+ */
+export function lookupSeedCompany(keys: string[]): SeedCompany | null {
+  if (!seedIndex) {
+    seedIndex = new Map();
+    for (const company of SEED_COMPANIES) {
+      for (const name of [company.name, ...(company.aliases ?? [])]) {
+        seedIndex.set(normalizeCompanyName(name), company);
+      }
+    }
+  }
+  for (const key of keys) {
+    const company = seedIndex.get(key);
+    if (company) return company;
+  }
+  return null;
+}
@@ -0,0 +1,42 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import type { CachedResponse, ResponseCache } from "../github/cache.js";
+
+/**
+ * HTTP response cache backed by the `http_cache` table in the repo's database.
+ */
+export class DuckDBResponseCache implements ResponseCache {
+  constructor(private connection: DuckDBConnection) {}
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const result = await this.connection.run(
+      `SELECT etag, last_modified, body, fetched_at FROM http_cache WHERE endpoint = ?`,
+      [key]
+    );
+    const rows = await result.getRows();
+    if (rows.length === 0) return null;
+
+    const [etag, lastModified, body, fetchedAt] = rows[0];
+    return {
+      etag: etag as string | null,
+      lastModified: lastModified as string | null,
+      body: body as string,
+      fetchedAt: String(fetchedAt),
+    };
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    await this.connection.run(
+      `INSERT INTO http_cache (endpoint, etag, last_modified, body, fetched_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (endpoint) DO UPDATE SET
+         etag = excluded.etag,
+         last_modified = excluded.last_modified,
+         body = excluded.body,
+         fetched_at = excluded.fetched_at`,
+      [key, entry.etag, entry.lastModified, entry.body, entry.fetchedAt]
+    );
+  }
+
+  async touch(key: string, fetchedAt: string): Promise<void> {
+    await this.connection.run(`UPDATE http_cache SET fetched_at = ? WHERE endpoint = ?`, [fetchedAt, key]);
+  }
+}
@@ -1,2 +1,6 @@
 export { getDb, closeDb } from "./client.js";
 export { initializeSchema } from "./schema.js";
+export { getSyncState, setSyncState, SYNC_KEYS } from "./sync-state.js";
+export { DuckDBResponseCache } from "./http-cache.js";
+export { DuckDBLlmCache } from "./llm-cache.js";
+export { serializeConnection } from "./serialize.js";
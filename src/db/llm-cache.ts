@@ -0,0 +1,53 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import type { CachedLlmResult, LlmCache } from "../enrichment/llm-cache.js";
+
+/**
+ * LLM result cache backed by the `llm_cache` table.
+ */
+export class DuckDBLlmCache implements LlmCache {
+  constructor(private connection: DuckDBConnection) {}
+
+  async get(key: string): Promise<CachedLlmResult | null> {
+    const result = await this.connection.run(
+      `SELECT model, response, input_tokens, output_tokens, total_tokens, created_at FROM llm_cache WHERE key = ?`,
+      [key]
+    );
+    const rows = await result.getRows();
+    if (rows.length === 0) return null;
+
+    const [model, response, inputTokens, outputTokens, totalTokens, createdAt] = rows[0];
+    return {
+      model: model as string,
+      object: JSON.parse(response as string),
+      usage: {
+        inputTokens: Number(inputTokens),
+        outputTokens: Number(outputTokens),
+        totalTokens: Number(totalTokens),
+      },
+      createdAt: String(createdAt),
+    };
+  }
+
+  async set(key: string, entry: CachedLlmResult): Promise<void> {
+    await this.connection.run(
+      `INSERT INTO llm_cache (key, model, response, input_tokens, output_tokens, total_tokens, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (key) DO UPDATE SET
+         model = excluded.model,
+         response = excluded.response,
+         input_tokens = excluded.input_tokens,
+         output_tokens = excluded.output_tokens,
+         total_tokens = excluded.total_tokens,
+         created_at = excluded.created_at`,
+      [
+        key,
+        entry.model,
+        JSON.stringify(entry.object),
+        entry.usage.inputTokens,
+        entry.usage.outputTokens,
+        entry.usage.totalTokens,
+        entry.createdAt,
+      ]
+    );
+  }
+}
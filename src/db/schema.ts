@@ -12,7 +12,12 @@ export async function initializeSchema(db: DuckDBInstance): Promise<void> {
         join_date TIMESTAMP,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         enriched_at TIMESTAMP,
-        enrichment_status VARCHAR DEFAULT 'pending'
+        enrichment_status VARCHAR DEFAULT 'pending',
+        is_active BOOLEAN DEFAULT TRUE,
+        attempt_count INTEGER DEFAULT 0,
+        last_error VARCHAR,
+        last_error_kind VARCHAR,
+        next_attempt_at TIMESTAMP
       )
     `);
 
@@ -24,27 +29,258 @@ export async function initializeSchema(db: DuckDBInstance): Promise<void> {
         location VARCHAR,
         company VARCHAR,
         country VARCHAR,
+        city VARCHAR,
+        region VARCHAR,
+        country_code VARCHAR,
         employers TEXT,
         linkedin_url VARCHAR,
         website_url VARCHAR,
         university VARCHAR,
         email VARCHAR,
+        job_title VARCHAR,
+        role_category VARCHAR,
+        seniority VARCHAR,
+        email_type VARCHAR,
+        email_domain VARCHAR,
+        email_company_id INTEGER,
         twitter_username VARCHAR,
         social_accounts TEXT,
+        organizations TEXT,
+        field_provenance TEXT,
         raw_github_profile TEXT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
 
+    await connection.run(`CREATE SEQUENCE IF NOT EXISTS star_events_id_seq`);
+
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS star_events (
+        id BIGINT PRIMARY KEY DEFAULT nextval('star_events_id_seq'),
+        stargazer_id INTEGER NOT NULL,
+        username VARCHAR NOT NULL,
+        event_type VARCHAR NOT NULL,
+        event_at TIMESTAMP NOT NULL,
+        detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await connection.run(`CREATE SEQUENCE IF NOT EXISTS profile_changes_id_seq`);
+
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS profile_changes (
+        id BIGINT PRIMARY KEY DEFAULT nextval('profile_changes_id_seq'),
+        github_id INTEGER NOT NULL,
+        username VARCHAR NOT NULL,
+        field VARCHAR NOT NULL,
+        old_value VARCHAR,
+        new_value VARCHAR,
+        detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await connection.run(`CREATE SEQUENCE IF NOT EXISTS companies_id_seq`);
+
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS companies (
+        id INTEGER PRIMARY KEY DEFAULT nextval('companies_id_seq'),
+        name VARCHAR NOT NULL,
+        industry VARCHAR,
+        size VARCHAR,
+        company_type VARCHAR,
+        hq_country VARCHAR,
+        classification_source VARCHAR,
+        classified_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // kind is name (normalized), org (GitHub handle) or domain
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS company_aliases (
+        kind VARCHAR NOT NULL,
+        value VARCHAR NOT NULL,
+        company_id INTEGER NOT NULL,
+        PRIMARY KEY (kind, value)
+      )
+    `);
+
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS profile_employers (
+        github_id INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        name VARCHAR NOT NULL,
+        is_current BOOLEAN NOT NULL,
+        company_id INTEGER,
+        matched_by VARCHAR,
+        email_confirmed BOOLEAN DEFAULT FALSE,
+        PRIMARY KEY (github_id, position)
+      )
+    `);
+
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS legitimacy_scores (
+        stargazer_id INTEGER PRIMARY KEY,
+        username VARCHAR NOT NULL,
+        score DOUBLE NOT NULL,
+        reasons TEXT NOT NULL,
+        scored_at TIMESTAMP NOT NULL
+      )
+    `);
+
+    // Lists (languages, topics, frameworks) are JSON; see src/tech
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS stargazer_tech (
+        stargazer_id INTEGER PRIMARY KEY,
+        primary_language VARCHAR,
+        languages TEXT NOT NULL,
+        topics TEXT NOT NULL,
+        frameworks TEXT NOT NULL,
+        repo_count INTEGER NOT NULL,
+        original_repo_count INTEGER NOT NULL,
+        fork_count INTEGER NOT NULL,
+        original_ratio DOUBLE,
+        active_repo_count INTEGER NOT NULL,
+        total_stars INTEGER NOT NULL,
+        last_push_at TIMESTAMP,
+        computed_at TIMESTAMP NOT NULL
+      )
+    `);
+
+    // Emails found in a user's commits, ranked; names, sources and reasons are JSON lists
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS email_candidates (
+        github_id INTEGER NOT NULL,
+        email VARCHAR NOT NULL,
+        rank INTEGER NOT NULL,
+        score DOUBLE NOT NULL,
+        occurrences INTEGER NOT NULL,
+        names TEXT NOT NULL,
+        sources TEXT NOT NULL,
+        linked BOOLEAN NOT NULL,
+        reasons TEXT NOT NULL,
+        email_type VARCHAR,
+        chosen BOOLEAN NOT NULL,
+        discovered_at TIMESTAMP NOT NULL,
+        PRIMARY KEY (github_id, email)
+      )
+    `);
+
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS http_cache (
+        endpoint VARCHAR PRIMARY KEY,
+        etag VARCHAR,
+        last_modified VARCHAR,
+        body TEXT NOT NULL,
+        fetched_at TIMESTAMP NOT NULL
+      )
+    `);
+    // Entries keyed by path alone predate keying by full URL and can't be told apart by server
+    await connection.run(`DELETE FROM http_cache WHERE endpoint LIKE '/%'`);
+
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS llm_cache (
+        key VARCHAR PRIMARY KEY,
+        model VARCHAR NOT NULL,
+        response TEXT NOT NULL,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        total_tokens INTEGER,
+        created_at TIMESTAMP NOT NULL
+      )
+    `);
+
+    await connection.run(`
+      CREATE TABLE IF NOT EXISTS sync_state (
+        key VARCHAR PRIMARY KEY,
+        value VARCHAR,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     // Add social_accounts column if it doesn't exist (for existing databases)
     await connection.run(`
       ALTER TABLE enriched_profiles ADD COLUMN IF NOT EXISTS social_accounts TEXT
     `);
 
+    // Add organizations column if it doesn't exist (for existing databases)
+    await connection.run(`
+      ALTER TABLE enriched_profiles ADD COLUMN IF NOT EXISTS organizations TEXT
+    `);
+
+    // Add field_provenance column if it doesn't exist (for existing databases)
+    await connection.run(`
+      ALTER TABLE enriched_profiles ADD COLUMN IF NOT EXISTS field_provenance TEXT
+    `);
+
+    // Add geocoded location columns if they don't exist (for existing databases)
+    for (const column of ["city", "region", "country_code"]) {
+      await connection.run(`ALTER TABLE enriched_profiles ADD COLUMN IF NOT EXISTS ${column} VARCHAR`);
+    }
+
+    // Add role columns if they don't exist (for existing databases)
+    for (const column of ["job_title", "role_category", "seniority"]) {
+      await connection.run(`ALTER TABLE enriched_profiles ADD COLUMN IF NOT EXISTS ${column} VARCHAR`);
+    }
+
+    // Add email classification columns if they don't exist (for existing databases)
+    for (const column of ["email_type", "email_domain"]) {
+      await connection.run(`ALTER TABLE enriched_profiles ADD COLUMN IF NOT EXISTS ${column} VARCHAR`);
+    }
+    await connection.run(`
+      ALTER TABLE enriched_profiles ADD COLUMN IF NOT EXISTS email_company_id INTEGER
+    `);
+    await connection.run(`
+      ALTER TABLE profile_employers ADD COLUMN IF NOT EXISTS email_confirmed BOOLEAN DEFAULT FALSE
+    `);
+    await connection.run(`
+      ALTER TABLE email_candidates ADD COLUMN IF NOT EXISTS email_type VARCHAR
+    `);
+
     // Add join_date column if it doesn't exist (for existing databases)
     await connection.run(`
       ALTER TABLE stargazers ADD COLUMN IF NOT EXISTS join_date TIMESTAMP
     `);
+    // Add is_active column if it doesn't exist (for existing databases)
+    await connection.run(`
+      ALTER TABLE stargazers ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT TRUE
+    `);
+
+    // Add retry tracking columns if they don't exist (for existing databases)
+    await connection.run(`
+      ALTER TABLE stargazers ADD COLUMN IF NOT EXISTS attempt_count INTEGER DEFAULT 0
+    `);
+    await connection.run(`
+      ALTER TABLE stargazers ADD COLUMN IF NOT EXISTS last_error VARCHAR
+    `);
+    await connection.run(`
+      ALTER TABLE stargazers ADD COLUMN IF NOT EXISTS last_error_kind VARCHAR
+    `);
+    await connection.run(`
+      ALTER TABLE stargazers ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP
+    `);
+
+    // Add company classification columns if they don't exist (for existing databases)
+    for (const column of ["industry", "size", "company_type", "hq_country", "classification_source"]) {
+      await connection.run(`ALTER TABLE companies ADD COLUMN IF NOT EXISTS ${column} VARCHAR`);
+    }
+    await connection.run(`
+      ALTER TABLE companies ADD COLUMN IF NOT EXISTS classified_at TIMESTAMP
+    `);
+
+    // Rows that failed before retries were tracked count as one attempt and are due now
+    await connection.run(`
+      UPDATE stargazers SET attempt_count = 1, next_attempt_at = CURRENT_TIMESTAMP
+      WHERE enrichment_status = 'failed' AND attempt_count = 0
+    `);
+
+    // Backfill a star event for stargazers recorded before event tracking existed
+    await connection.run(`
+      INSERT INTO star_events (stargazer_id, username, event_type, event_at)
+      SELECT id, username, 'star', starred_at FROM stargazers
+      WHERE starred_at IS NOT NULL
+        AND id NOT IN (SELECT stargazer_id FROM star_events)
+    `);
   } finally {
     connection.closeSync();
   }
@@ -0,0 +1,24 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+
+/**
+ * Wrap a connection so its statements run one at a time, in the order they were
+ * issued, even when callers run concurrently. Results of `run` are materialized,
+ * so reading rows afterwards needs no further serialization.
+ */
+export function serializeConnection(connection: DuckDBConnection): DuckDBConnection {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return new Proxy(connection, {
+    get(target, property) {
+      if (property === "run") {
+        return (...args: Parameters<DuckDBConnection["run"]>) => {
+          const result = tail.then(() => target.run(...args));
+          tail = result.catch(() => undefined);
+          return result;
+        };
+      }
+      const value = Reflect.get(target, property, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
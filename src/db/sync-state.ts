@@ -0,0 +1,25 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+
+/**
+ * Small key/value store for bookkeeping that must survive between runs,
+ * such as the newest synced star timestamp.
+ */
+
+export const SYNC_KEYS = {
+  lastStarredAt: "stargazers.last_starred_at",
+  lastFullSyncAt: "stargazers.last_full_sync_at",
+} as const;
+
+export async function getSyncState(connection: DuckDBConnection, key: string): Promise<string | null> {
+  const result = await connection.run(`SELECT value FROM sync_state WHERE key = ?`, [key]);
+  const rows = await result.getRows();
+  return rows.length > 0 ? (rows[0][0] as string | null) : null;
+}
+
+export async function setSyncState(connection: DuckDBConnection, key: string, value: string): Promise<void> {
+  await connection.run(
+    `INSERT INTO sync_state (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+    [key, value]
+  );
+}
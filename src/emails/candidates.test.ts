@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { automatedReason, rankEmailCandidates, type EmailObservation } from "./candidates.js";
+
+const profile = { login: "jsmith", name: "Jane Smith" };
+
+function seen(email: string, name: string | null, linked = false): EmailObservation {
+  return { email, name, source: "commit", linked };
+}
+
+test("automatedReason flags bots, CI, no-reply and placeholder addresses", () => {
+  assert.equal(automatedReason("49699333+dependabot[bot]@users.noreply.github.com", "dependabot[bot]"), "no-reply address");
+  assert.equal(automatedReason("renovate@whitesourcesoftware.com", null), "bot account");
+  assert.equal(automatedReason("jenkins@corp.com", "Jenkins"), "CI account");
+  assert.equal(automatedReason("actions@github.com", "GitHub Actions"), "CI account");
+  assert.equal(automatedReason("jane@laptop.local", "Jane"), "placeholder domain");
+  assert.equal(automatedReason("root@buildhost.corp.com", null), "default machine user");
+  assert.equal(automatedReason("not-an-email", null), "not an email address");
+  assert.equal(automatedReason("jane@corp.com", "Jane Smith"), null);
+});
+
+test("rankEmailCandidates puts a linked address first and drops automated ones", () => {
+  const candidates = rankEmailCandidates(
+    [
+      seen("Jane@Corp.com", "Jane Smith", true),
+      seen("jane@corp.com", "Jane Smith"),
+      seen("jsmith@gmail.com", "jsmith"),
+      seen("49699333+dependabot[bot]@users.noreply.github.com", "dependabot[bot]"),
+    ],
+    profile
+  );
+
+  assert.deepEqual(
+    candidates.map((c) => c.email),
+    ["jane@corp.com", "jsmith@gmail.com"]
+  );
+  assert.equal(candidates[0].occurrences, 2);
+  assert.equal(candidates[0].linked, true);
+  assert.equal(candidates[0].reasons[0], "linked to the GitHub account");
+  assert.ok(candidates[1].reasons.includes("local part is the login"));
+});
+
+test("rankEmailCandidates scores the user's own name above a coworker's", () => {
+  const candidates = rankEmailCandidates(
+    [seen("jane.smith@corp.com", "Jane Smith"), seen("bob@corp.com", "Bob Jones"), seen("bob@corp.com", "Bob Jones")],
+    profile
+  );
+
+  assert.equal(candidates[0].email, "jane.smith@corp.com");
+  assert.ok(candidates[0].score > candidates[1].score);
+});
@@ -0,0 +1,184 @@
+import type { GitHubUserProfile } from "../github/types.js";
+
+/**
+ * Ranking of the emails found in a user's commits. Every address seen is
+ * aggregated with the names it was used with and how often it appeared, bot
+ * and CI addresses are dropped, and the rest are scored by how likely they are
+ * to belong to the user.
+ */
+
+// Where an address was seen: the commit list of an owned repo, or the commits
+// of a public push event
+export type EmailSource = "commit" | "push_event";
+
+/**
+ * One appearance of an address as a commit author or committer.
+ */
+export interface EmailObservation {
+  email: string;
+  name: string | null; // git user.name used with it
+  source: EmailSource;
+  linked: boolean; // GitHub attributed the commit to the user's account by this address
+}
+
+export interface EmailCandidate {
+  email: string; // lowercase
+  names: string[]; // names used with it, most frequent first
+  occurrences: number;
+  sources: EmailSource[];
+  linked: boolean;
+  score: number; // 0-1, how likely the address is the user's
+  reasons: string[]; // the signals behind the score, strongest first
+}
+
+// Names and local parts of bots and dependency or release tooling
+const BOT_PATTERN =
+  /\[bot\]|(^|[^a-z])bot([^a-z]|$)|github-actions|dependabot|renovate|greenkeeper|semantic-release|pre-commit-ci|allcontributors|imgbot/i;
+
+// Local parts used by CI systems and deploy scripts
+const CI_USERS = new Set(["ci", "build", "builds", "builder", "buildbot", "jenkins", "deploy", "deployer", "release", "releases", "automation"]);
+const CI_ADDRESSES = /^actions@github\.com$|@travis-ci\.org$/i;
+
+// Addresses nobody can receive mail at
+const NO_REPLY_PATTERN = /no-?_?reply/i;
+
+// Defaults left by unconfigured git installs: user@hostname
+const MACHINE_USERS = new Set(["root", "ubuntu", "vagrant", "ec2-user", "pi"]);
+const PLACEHOLDER_DOMAINS = /(^|\.)(example\.(com|org|net)|localhost|local|localdomain|lan|internal|home|invalid|test)$/i;
+
+/**
+ * Why an address is not a person's, or null if it may be one.
+ */
+export function automatedReason(email: string, name: string | null): string | null {
+  const at = email.lastIndexOf("@");
+  if (at <= 0 || at === email.length - 1) return "not an email address";
+  const local = email.slice(0, at).toLowerCase();
+  const domain = email.slice(at + 1).toLowerCase();
+
+  if (NO_REPLY_PATTERN.test(email)) return "no-reply address";
+  if (BOT_PATTERN.test(local) || (name && BOT_PATTERN.test(name))) return "bot account";
+  if (CI_USERS.has(local) || CI_ADDRESSES.test(email)) return "CI account";
+  if (!domain.includes(".") || PLACEHOLDER_DOMAINS.test(domain)) return "placeholder domain";
+  if (MACHINE_USERS.has(local)) return "default machine user";
+  return null;
+}
+
+// Lowercase ASCII words, with accents stripped
+function words(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0);
+}
+
+function squash(text: string): string {
+  return words(text).join("");
+}
+
+function nameParts(name: string | null): string[] {
+  return words(name ?? "").filter((part) => part.length >= 2);
+}
+
+// The local part without a +tag and separators: "Jane.Smith+gh" becomes "janesmith"
+function localPart(email: string): string {
+  return squash(email.slice(0, email.lastIndexOf("@")).replace(/\+.*$/, ""));
+}
+
+interface Signal {
+  strength: number; // 0-1
+  reason: string;
+}
+
+function loginSignal(local: string, login: string): Signal | null {
+  const handle = squash(login);
+  if (!handle || !local) return null;
+  if (local === handle) return { strength: 0.8, reason: "local part is the login" };
+  if (handle.length >= 4 && local.includes(handle)) return { strength: 0.5, reason: "local part contains the login" };
+  if (local.length >= 4 && handle.includes(local)) return { strength: 0.5, reason: "login contains the local part" };
+  return null;
+}
+
+function nameSignal(local: string, name: string | null): Signal | null {
+  const parts = nameParts(name);
+  if (parts.length === 0 || !local) return null;
+
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  if (parts.length >= 2) {
+    const full = [first + last, last + first, first[0] + last, first + last[0], parts.join("")];
+    if (full.includes(local)) return { strength: 0.7, reason: "local part is the name" };
+    if (local.includes(last) && local.includes(first[0]) && last.length >= 3) {
+      return { strength: 0.5, reason: "local part contains the last name" };
+    }
+  }
+  if (parts.some((part) => part.length >= 3 && local.includes(part))) {
+    return { strength: 0.35, reason: "local part contains part of the name" };
+  }
+  return null;
+}
+
+function commitNameSignal(names: string[], profile: Pick<GitHubUserProfile, "login" | "name">): Signal | null {
+  const wanted = new Set([squash(profile.login), squash(profile.name ?? "")].filter(Boolean));
+  const match = names.find((name) => wanted.has(squash(name)));
+  return match ? { strength: 0.6, reason: `committed as "${match}"` } : null;
+}
+
+/**
+ * Aggregate observations by address, drop automated ones, and rank the rest.
+ *
+ * The score combines independent signals as a noisy-or: GitHub linking the
+ * address to the account, the local part matching the login or name, commits
+ * made under the user's name, and the address's share of all appearances.
+ */
+export function rankEmailCandidates(
+  observations: EmailObservation[],
+  profile: Pick<GitHubUserProfile, "login" | "name">
+): EmailCandidate[] {
+  const byEmail = new Map<string, { names: Map<string, number>; occurrences: number; sources: Set<EmailSource>; linked: boolean }>();
+
+  for (const observation of observations) {
+    const email = observation.email.trim().toLowerCase();
+    if (automatedReason(email, observation.name)) continue;
+
+    const entry = byEmail.get(email) ?? { names: new Map(), occurrences: 0, sources: new Set(), linked: false };
+    entry.occurrences++;
+    entry.sources.add(observation.source);
+    entry.linked ||= observation.linked;
+    const name = observation.name?.trim();
+    if (name) entry.names.set(name, (entry.names.get(name) ?? 0) + 1);
+    byEmail.set(email, entry);
+  }
+
+  const total = [...byEmail.values()].reduce((sum, entry) => sum + entry.occurrences, 0);
+
+  const candidates = [...byEmail].map(([email, entry]): EmailCandidate => {
+    const names = [...entry.names].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+    const local = localPart(email);
+    const share = entry.occurrences / total;
+
+    const signals = [
+      entry.linked ? { strength: 0.9, reason: "linked to the GitHub account" } : null,
+      loginSignal(local, profile.login),
+      nameSignal(local, profile.name),
+      commitNameSignal(names, profile),
+      { strength: 0.3 * share, reason: `${entry.occurrences} of ${total} appearances` },
+    ]
+      .filter((signal): signal is Signal => signal !== null)
+      .sort((a, b) => b.strength - a.strength);
+
+    const score = 1 - signals.reduce((miss, signal) => miss * (1 - signal.strength), 1);
+    return {
+      email,
+      names,
+      occurrences: entry.occurrences,
+      sources: [...entry.sources],
+      linked: entry.linked,
+      score: Math.round(score * 1000) / 1000,
+      reasons: signals.map((signal) => signal.reason),
+    };
+  });
+
+  return candidates.sort((a, b) => b.score - a.score || b.occurrences - a.occurrences || a.email.localeCompare(b.email));
+}
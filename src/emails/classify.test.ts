@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyEmail } from "./classify.js";
+
+function typeOf(email: string): string | undefined {
+  return classifyEmail(email)?.type;
+}
+
+test("classifyEmail sorts addresses by domain", () => {
+  assert.equal(typeOf("jane@gmail.com"), "webmail");
+  assert.equal(typeOf("jane@mailinator.com"), "disposable");
+  assert.equal(typeOf("jane@stripe.com"), "work");
+  assert.equal(typeOf("jane@cs.wisc.edu"), "university");
+  assert.equal(typeOf("jane@tu-dresden.de"), "university");
+  assert.equal(typeOf("Jane+github@Corp.example.io"), "work");
+});
+
+test("classifyEmail marks shared mailboxes as role accounts", () => {
+  assert.equal(typeOf("info@stripe.com"), "role");
+  assert.equal(typeOf("support+tickets@corp.io"), "role");
+  assert.equal(typeOf("admin@mit.edu"), "role");
+  // Vanity addresses at a personal domain are the person's own
+  assert.equal(typeOf("dev@janedoe.io"), "work");
+  assert.equal(typeOf("it@janedoe.io"), "work");
+});
+
+test("classifyEmail names listed universities and keeps the domain of others", () => {
+  assert.deepEqual(classifyEmail("bob@csail.mit.edu"), {
+    type: "university",
+    domain: "csail.mit.edu",
+    institution: "mit.edu",
+    university: "Massachusetts Institute of Technology",
+  });
+  assert.deepEqual(classifyEmail("jane@cs.uclan.ac.uk"), {
+    type: "university",
+    domain: "cs.uclan.ac.uk",
+    institution: "uclan.ac.uk",
+    university: null,
+  });
+  assert.equal(classifyEmail("jane@students.fh-kiel.de")?.institution, "fh-kiel.de");
+  assert.equal(classifyEmail("jane@ucsc.edu")?.institution, "ucsc.edu");
+  assert.equal(classifyEmail("jane@gmail.com")?.institution, null);
+});
+
+test("classifyEmail rejects anything that is not an address", () => {
+  assert.equal(classifyEmail(null), null);
+  assert.equal(classifyEmail("jane"), null);
+  assert.equal(classifyEmail("jane@localhost"), null);
+});
@@ -0,0 +1,72 @@
+import {
+  ACADEMIC_SUFFIX,
+  DISPOSABLE_DOMAINS,
+  GERMAN_ACADEMIC_DOMAIN,
+  ROLE_LOCAL_PARTS,
+  UNIVERSITY_DOMAINS,
+  WEBMAIL_DOMAINS,
+} from "./domains.js";
+
+/**
+ * What kind of address an email is, from its domain and local part:
+ * - webmail: a personal address at a free mail provider
+ * - work: an address at any other domain, presumably an employer's
+ * - university: an address at an academic institution
+ * - disposable: a throwaway inbox
+ * - role: a shared inbox like info@ or support@, at any domain
+ */
+export const EMAIL_TYPES = ["webmail", "work", "university", "disposable", "role"] as const;
+export type EmailType = (typeof EMAIL_TYPES)[number];
+
+export interface EmailClassification {
+  type: EmailType;
+  domain: string;
+  institution: string | null; // the academic institution's own domain: "wisc.edu" for "cs.wisc.edu"
+  university: string | null; // for academic domains in UNIVERSITY_DOMAINS
+}
+
+// The domain and each of its parents: "cs.mit.edu", "mit.edu", "edu"
+function domainAndParents(domain: string): string[] {
+  const labels = domain.split(".");
+  return labels.map((_, i) => labels.slice(i).join("."));
+}
+
+function listed(domain: string, list: Set<string>): boolean {
+  return domainAndParents(domain).some((d) => list.has(d));
+}
+
+function listedUniversity(domain: string): string | null {
+  return domainAndParents(domain).find((d) => UNIVERSITY_DOMAINS[d] !== undefined) ?? null;
+}
+
+// The domain an academic address belongs to, listed or recognized by its suffix
+function institutionDomain(domain: string): string | null {
+  return listedUniversity(domain) ?? ACADEMIC_SUFFIX.exec(domain)?.[1] ?? GERMAN_ACADEMIC_DOMAIN.exec(domain)?.[1] ?? null;
+}
+
+/**
+ * Classify an address against the bundled domain lists. Returns null for
+ * anything that is not an email address.
+ */
+export function classifyEmail(email: string | null | undefined): EmailClassification | null {
+  const address = email?.trim().toLowerCase() ?? "";
+  const at = address.lastIndexOf("@");
+  if (at <= 0) return null;
+
+  const local = address.slice(0, at).replace(/\+.*$/, "");
+  const domain = address.slice(at + 1);
+  if (!/^([a-z0-9-]+\.)+[a-z]{2,}$/.test(domain)) return null;
+
+  const institution = institutionDomain(domain);
+  const listedDomain = listedUniversity(domain);
+
+  let type: EmailType;
+  if (listed(domain, DISPOSABLE_DOMAINS)) type = "disposable";
+  else if (ROLE_LOCAL_PARTS.has(local)) type = "role";
+  else if (institution) type = "university";
+  else if (listed(domain, WEBMAIL_DOMAINS)) type = "webmail";
+  else type = "work";
+
+  const university = listedDomain ? UNIVERSITY_DOMAINS[listedDomain] : null;
+  return { type, domain, institution, university };
+}
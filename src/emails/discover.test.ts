@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GitHubClient, type GitHubCommit, type GitHubEvent, type GitHubRepo, type GitHubUserProfile } from "../github/index.js";
+import { startMockGitHubServer, type MockGitHubFixtures } from "../github/mock/server.js";
+import { discoverEmails, MAX_DISCOVERY_CALLS } from "./discover.js";
+
+const profile = { login: "jsmith", name: "Jane Smith" };
+
+function repo(fullName: string): GitHubRepo {
+  const [owner, name] = fullName.split("/");
+  return {
+    id: 1,
+    name,
+    full_name: fullName,
+    owner: { login: owner },
+    updated_at: "2025-06-01T00:00:00Z",
+    pushed_at: "2025-06-01T00:00:00Z",
+    fork: false,
+    language: null,
+    size: 100,
+    topics: [],
+    stargazers_count: 0,
+  };
+}
+
+function commitBy(email: string, login: string | null = null): GitHubCommit {
+  const person = { name: "Jane Smith", email };
+  return { sha: "abc", commit: { author: person, committer: person }, author: login ? { login } : null, committer: null };
+}
+
+// The mock only looks users up by login
+const jsmith = { login: "jsmith" } as GitHubUserProfile;
+
+function push(repoName: string, head: string): GitHubEvent {
+  return { id: head, type: "PushEvent", repo: { name: repoName }, created_at: "2025-06-01T00:00:00Z", payload: { head } };
+}
+
+async function discover(t: { after(fn: () => Promise<void>): void }, fixtures: Partial<MockGitHubFixtures>, repos: GitHubRepo[]) {
+  const server = await startMockGitHubServer({
+    stargazers: {},
+    users: [{ profile: jsmith, events: [] }],
+    ...fixtures,
+  });
+  t.after(() => server.close());
+  const github = new GitHubClient("mock", { apiUrl: server.url });
+  const candidates = await discoverEmails(github, profile, repos);
+  return { candidates, requests: server.requests };
+}
+
+test("discoverEmails reads owned repos and the repos public pushes went to", async (t) => {
+  t.mock.method(console, "log", () => {});
+  const { candidates, requests } = await discover(
+    t,
+    {
+      users: [
+        {
+          profile: jsmith,
+          events: [push("jsmith/site", "111"), push("corp/api", "222"), push("corp/api", "333")],
+        },
+      ],
+      commits: {
+        "jsmith/site": [commitBy("jane@smith.dev", "jsmith")],
+        "corp/api": [commitBy("jane.smith@corp.com")],
+      },
+    },
+    [repo("jsmith/site"), repo("jsmith/notes")]
+  );
+
+  assert.deepEqual(
+    candidates.map((c) => [c.email, c.sources]),
+    [
+      ["jane@smith.dev", ["commit"]],
+      ["jane.smith@corp.com", ["push_event"]],
+    ]
+  );
+  // The owned repo is not looked up again for its push, and corp/api only once
+  assert.deepEqual(requests, [
+    "GET /repos/jsmith/site/commits?author=jsmith&per_page=30",
+    "GET /repos/jsmith/notes/commits?author=jsmith&per_page=30",
+    "GET /users/jsmith/events/public?per_page=100",
+    "GET /repos/corp/api/commits?author=jsmith&sha=222&per_page=30",
+  ]);
+});
+
+test("discoverEmails stops at MAX_DISCOVERY_CALLS", async (t) => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  const owned = ["jsmith/a", "jsmith/b", "jsmith/c", "jsmith/d"].map(repo);
+  const { requests } = await discover(
+    t,
+    { users: [{ profile: jsmith, events: ["x/1", "x/2", "x/3", "x/4"].map((r, i) => push(r, `h${i}`)) }] },
+    owned
+  );
+
+  assert.equal(requests.length, MAX_DISCOVERY_CALLS);
+  assert.equal(requests.filter((r) => r.startsWith("GET /repos/jsmith/")).length, 3);
+});
@@ -0,0 +1,93 @@
+import type { GitHubClient, GitHubCommit, GitHubRepo, GitHubUserProfile } from "../github/index.js";
+import { CassetteMissError } from "../cassette/index.js";
+import { rankEmailCandidates, type EmailCandidate, type EmailObservation, type EmailSource } from "./candidates.js";
+
+// Owned, non-fork repos whose commits are scanned, most recently pushed first
+export const MAX_SCANNED_REPOS = 3;
+
+// REST calls one user's discovery may make: the public events feed, one commit
+// lookup per scanned repo, and one per pushed-to repo with whatever is left
+export const MAX_DISCOVERY_CALLS = 6;
+
+/**
+ * Find the emails a user commits with and rank them. Commits come from up to
+ * MAX_SCANNED_REPOS of their own repos and from repos their public push events
+ * went to. The events feed no longer lists a push's commits, so the commits
+ * reachable from the pushed head are looked up instead, one per repo, newest
+ * push first. Discovery never makes more than MAX_DISCOVERY_CALLS calls. A
+ * source that fails (an empty repo, a hidden feed) is skipped with a warning;
+ * the others still count.
+ */
+export async function discoverEmails(
+  github: GitHubClient,
+  profile: Pick<GitHubUserProfile, "login" | "name">,
+  repos: GitHubRepo[]
+): Promise<EmailCandidate[]> {
+  const { login } = profile;
+  const observations: EmailObservation[] = [];
+  let calls = 0;
+
+  const observe = (commits: GitHubCommit[], source: EmailSource) => {
+    for (const { commit, author, committer } of commits) {
+      if (commit.author) {
+        observations.push({
+          email: commit.author.email,
+          name: commit.author.name,
+          source,
+          linked: author?.login.toLowerCase() === login.toLowerCase(),
+        });
+      }
+      if (commit.committer) {
+        observations.push({
+          email: commit.committer.email,
+          name: commit.committer.name,
+          source,
+          linked: committer?.login.toLowerCase() === login.toLowerCase(),
+        });
+      }
+    }
+  };
+
+  const owned = repos
+    .filter((r) => r.owner.login.toLowerCase() === login.toLowerCase() && !r.fork && r.size > 0)
+    .slice(0, MAX_SCANNED_REPOS);
+  const scanned = new Set(owned.map((r) => r.full_name.toLowerCase()));
+
+  for (const repo of owned) {
+    calls++;
+    await collect(login, `commits of ${repo.full_name}`, async () => {
+      observe(await github.getRepoCommits(repo.owner.login, repo.name, login), "commit");
+    });
+  }
+
+  // Newest push to each repo not scanned above
+  const pushes = new Map<string, string>();
+  calls++;
+  await collect(login, "public events", async () => {
+    for (const event of await github.getUserPublicEvents(login)) {
+      const repo = event.repo.name.toLowerCase();
+      if (event.type !== "PushEvent" || !event.payload.head || scanned.has(repo) || pushes.has(repo)) continue;
+      pushes.set(repo, event.payload.head);
+    }
+  });
+
+  for (const [repo, head] of pushes) {
+    if (calls >= MAX_DISCOVERY_CALLS) break;
+    calls++;
+    const [owner, name] = repo.split("/");
+    await collect(login, `pushed commits of ${repo}`, async () => {
+      observe(await github.getRepoCommits(owner, name, login, head), "push_event");
+    });
+  }
+
+  return rankEmailCandidates(observations, profile);
+}
+
+async function collect(login: string, what: string, run: () => Promise<void>): Promise<void> {
+  try {
+    await run();
+  } catch (error) {
+    if (error instanceof CassetteMissError) throw error;
+    console.warn(`Could not fetch ${what} for ${login}:`, error instanceof Error ? error.message : error);
+  }
+}
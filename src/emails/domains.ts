@@ -0,0 +1,223 @@
+/**
+ * Bundled domain lists for classifying email addresses offline. A domain
+ * matches a list when it or one of its parents is on it, so "mail.utoronto.ca"
+ * counts as "utoronto.ca".
+ */
+
+// Mail providers anyone can sign up with; the domain says nothing about the user
+export const WEBMAIL_DOMAINS = new Set([
+  // Global
+  "gmail.com", "googlemail.com", "outlook.com", "hotmail.com", "live.com", "msn.com",
+  "yahoo.com", "ymail.com", "rocketmail.com", "icloud.com", "me.com", "mac.com", "aol.com",
+  "proton.me", "protonmail.com", "protonmail.ch", "pm.me", "tutanota.com", "tutanota.de", "tuta.io",
+  "hey.com", "fastmail.com", "fastmail.fm", "zoho.com", "zohomail.com", "mail.com", "email.com",
+  "gmx.com", "hushmail.com", "duck.com", "mailbox.org", "posteo.de", "posteo.net", "riseup.net", "disroot.org",
+  // Regional variants of global providers
+  "hotmail.co.uk", "hotmail.fr", "hotmail.de", "hotmail.it", "hotmail.es", "live.co.uk", "live.fr", "live.cn",
+  "outlook.fr", "outlook.de", "outlook.jp", "yahoo.co.uk", "yahoo.co.jp", "yahoo.co.in", "yahoo.fr", "yahoo.de",
+  "yahoo.es", "yahoo.it", "yahoo.com.br", "yahoo.com.tw", "yahoo.com.hk", "yahoo.ca",
+  // Europe
+  "gmx.de", "gmx.net", "gmx.at", "gmx.ch", "web.de", "t-online.de", "freenet.de", "arcor.de",
+  "orange.fr", "free.fr", "laposte.net", "sfr.fr", "wanadoo.fr", "libero.it", "virgilio.it", "tiscali.it",
+  "seznam.cz", "centrum.cz", "wp.pl", "o2.pl", "interia.pl", "onet.pl", "btinternet.com", "sky.com",
+  "ziggo.nl", "telenet.be", "bluewin.ch", "abv.bg", "ukr.net",
+  // Russia and Central Asia
+  "yandex.ru", "yandex.com", "ya.ru", "mail.ru", "bk.ru", "inbox.ru", "list.ru", "rambler.ru",
+  // East Asia
+  "qq.com", "foxmail.com", "163.com", "126.com", "yeah.net", "sina.com", "sina.cn", "sohu.com", "aliyun.com",
+  "139.com", "naver.com", "daum.net", "hanmail.net", "kakao.com", "nate.com",
+  // Americas and elsewhere
+  "comcast.net", "verizon.net", "att.net", "sbcglobal.net", "cox.net", "earthlink.net", "charter.net",
+  "uol.com.br", "bol.com.br", "terra.com.br", "bigpond.com", "optusnet.com.au", "rediffmail.com",
+]);
+
+// Throwaway inbox services
+export const DISPOSABLE_DOMAINS = new Set([
+  "mailinator.com", "guerrillamail.com", "guerrillamail.net", "guerrillamailblock.com", "sharklasers.com",
+  "grr.la", "10minutemail.com", "10minutemail.net", "temp-mail.org", "tempmail.com", "tempmail.net",
+  "tempmailo.com", "temp-mail.io", "tempr.email", "mytemp.email", "yopmail.com", "yopmail.fr", "trashmail.com",
+  "trashmail.de", "getnada.com", "nada.email", "dispostable.com", "maildrop.cc", "throwawaymail.com",
+  "fakeinbox.com", "mailnesia.com", "mintemail.com", "emailondeck.com", "mohmal.com", "burnermail.io",
+  "spamgourmet.com", "discard.email", "mailcatch.com", "mailpoof.com", "moakt.com", "33mail.com",
+  "anonaddy.me", "spam4.me", "inboxkitten.com", "linshiyouxiang.net", "emailfake.com", "tmpmail.org",
+]);
+
+// Local parts of shared mailboxes rather than a person's. Words people also use
+// for vanity addresses at their own domain (dev@, hello@, me@) are left out.
+export const ROLE_LOCAL_PARTS = new Set([
+  "admin", "administrator", "info", "contact", "support", "help", "helpdesk", "team", "office", "sales",
+  "marketing", "press", "hr", "jobs", "careers", "recruiting", "billing", "accounts", "security", "abuse",
+  "postmaster", "hostmaster", "webmaster", "noreply", "no-reply", "donotreply", "legal", "privacy",
+  "feedback", "enquiries", "inquiries", "partners",
+]);
+
+// Suffixes only academic institutions register under: .edu, .edu.au, .ac.uk, ...
+// The capture is the institution's own domain: "wisc.edu" for "cs.wisc.edu".
+export const ACADEMIC_SUFFIX = /(?:^|\.)([a-z0-9-]+\.(?:edu|edu\.[a-z]{2}|ac\.[a-z]{2}))$/;
+
+// German universities and universities of applied sciences: uni-mannheim.de, tu-dresden.de, hs-rm.de
+export const GERMAN_ACADEMIC_DOMAIN = /(?:^|\.)((?:uni|tu|th|hs|fh|ph)-[a-z-]+\.de)$/;
+
+/**
+ * Universities by their email domain. Domains under an academic suffix are
+ * recognized without being listed; those outside one are listed so they are
+ * recognized at all. Names are the ones to store in `university`.
+ */
+export const UNIVERSITY_DOMAINS: Record<string, string> = {
+  // United States
+  "mit.edu": "Massachusetts Institute of Technology",
+  "stanford.edu": "Stanford University",
+  "berkeley.edu": "University of California, Berkeley",
+  "harvard.edu": "Harvard University",
+  "cmu.edu": "Carnegie Mellon University",
+  "caltech.edu": "California Institute of Technology",
+  "princeton.edu": "Princeton University",
+  "yale.edu": "Yale University",
+  "columbia.edu": "Columbia University",
+  "cornell.edu": "Cornell University",
+  "upenn.edu": "University of Pennsylvania",
+  "uchicago.edu": "University of Chicago",
+  "nyu.edu": "New York University",
+  "ucla.edu": "University of California, Los Angeles",
+  "ucsd.edu": "University of California, San Diego",
+  "uw.edu": "University of Washington",
+  "washington.edu": "University of Washington",
+  "umich.edu": "University of Michigan",
+  "illinois.edu": "University of Illinois Urbana-Champaign",
+  "gatech.edu": "Georgia Institute of Technology",
+  "utexas.edu": "University of Texas at Austin",
+  "wisc.edu": "University of Wisconsin-Madison",
+  "umd.edu": "University of Maryland",
+  "purdue.edu": "Purdue University",
+  "usc.edu": "University of Southern California",
+  "duke.edu": "Duke University",
+  "jhu.edu": "Johns Hopkins University",
+  "brown.edu": "Brown University",
+  "northeastern.edu": "Northeastern University",
+  "virginia.edu": "University of Virginia",
+  "asu.edu": "Arizona State University",
+  "osu.edu": "Ohio State University",
+  "psu.edu": "Pennsylvania State University",
+  "rice.edu": "Rice University",
+  "vt.edu": "Virginia Tech",
+  // Canada
+  "utoronto.ca": "University of Toronto",
+  "uwaterloo.ca": "University of Waterloo",
+  "mcgill.ca": "McGill University",
+  "ubc.ca": "University of British Columbia",
+  "ualberta.ca": "University of Alberta",
+  "umontreal.ca": "Université de Montréal",
+  "queensu.ca": "Queen's University",
+  "sfu.ca": "Simon Fraser University",
+  // United Kingdom and Ireland
+  "cam.ac.uk": "University of Cambridge",
+  "ox.ac.uk": "University of Oxford",
+  "imperial.ac.uk": "Imperial College London",
+  "ucl.ac.uk": "University College London",
+  "ed.ac.uk": "University of Edinburgh",
+  "manchester.ac.uk": "University of Manchester",
+  "kcl.ac.uk": "King's College London",
+  "bristol.ac.uk": "University of Bristol",
+  "warwick.ac.uk": "University of Warwick",
+  "tcd.ie": "Trinity College Dublin",
+  "ucd.ie": "University College Dublin",
+  // Continental Europe
+  "ethz.ch": "ETH Zurich",
+  "epfl.ch": "EPFL",
+  "uzh.ch": "University of Zurich",
+  "tum.de": "Technical University of Munich",
+  "lmu.de": "Ludwig Maximilian University of Munich",
+  "rwth-aachen.de": "RWTH Aachen University",
+  "kit.edu": "Karlsruhe Institute of Technology",
+  "tu-berlin.de": "Technische Universität Berlin",
+  "hu-berlin.de": "Humboldt University of Berlin",
+  "fu-berlin.de": "Freie Universität Berlin",
+  "uni-heidelberg.de": "Heidelberg University",
+  "tu-dresden.de": "TU Dresden",
+  "mpg.de": "Max Planck Society",
+  "tuwien.ac.at": "TU Wien",
+  "univie.ac.at": "University of Vienna",
+  "tudelft.nl": "Delft University of Technology",
+  "uva.nl": "University of Amsterdam",
+  "vu.nl": "Vrije Universiteit Amsterdam",
+  "utwente.nl": "University of Twente",
+  "tue.nl": "Eindhoven University of Technology",
+  "kuleuven.be": "KU Leuven",
+  "ugent.be": "Ghent University",
+  "kth.se": "KTH Royal Institute of Technology",
+  "chalmers.se": "Chalmers University of Technology",
+  "lu.se": "Lund University",
+  "uu.se": "Uppsala University",
+  "ku.dk": "University of Copenhagen",
+  "dtu.dk": "Technical University of Denmark",
+  "aalto.fi": "Aalto University",
+  "helsinki.fi": "University of Helsinki",
+  "ntnu.no": "Norwegian University of Science and Technology",
+  "uio.no": "University of Oslo",
+  "polimi.it": "Politecnico di Milano",
+  "unibo.it": "University of Bologna",
+  "uniroma1.it": "Sapienza University of Rome",
+  "upm.es": "Technical University of Madrid",
+  "upc.edu": "Polytechnic University of Catalonia",
+  "polytechnique.edu": "École Polytechnique",
+  "ens.fr": "École Normale Supérieure",
+  "sorbonne-universite.fr": "Sorbonne University",
+  "inria.fr": "Inria",
+  "epita.fr": "EPITA",
+  "ulisboa.pt": "University of Lisbon",
+  "up.pt": "University of Porto",
+  "uw.edu.pl": "University of Warsaw",
+  "pw.edu.pl": "Warsaw University of Technology",
+  "cvut.cz": "Czech Technical University in Prague",
+  "cuni.cz": "Charles University",
+  "msu.ru": "Moscow State University",
+  "itmo.ru": "ITMO University",
+  "hse.ru": "HSE University",
+  "phystech.edu": "Moscow Institute of Physics and Technology",
+  // Asia and Oceania
+  "tsinghua.edu.cn": "Tsinghua University",
+  "pku.edu.cn": "Peking University",
+  "zju.edu.cn": "Zhejiang University",
+  "sjtu.edu.cn": "Shanghai Jiao Tong University",
+  "fudan.edu.cn": "Fudan University",
+  "ustc.edu.cn": "University of Science and Technology of China",
+  "hku.hk": "University of Hong Kong",
+  "ust.hk": "Hong Kong University of Science and Technology",
+  "cuhk.edu.hk": "Chinese University of Hong Kong",
+  "ntu.edu.tw": "National Taiwan University",
+  "u-tokyo.ac.jp": "University of Tokyo",
+  "kyoto-u.ac.jp": "Kyoto University",
+  "titech.ac.jp": "Tokyo Institute of Technology",
+  "kaist.ac.kr": "KAIST",
+  "snu.ac.kr": "Seoul National University",
+  "postech.ac.kr": "POSTECH",
+  "nus.edu.sg": "National University of Singapore",
+  "ntu.edu.sg": "Nanyang Technological University",
+  "iitb.ac.in": "IIT Bombay",
+  "iitd.ac.in": "IIT Delhi",
+  "iitm.ac.in": "IIT Madras",
+  "iitk.ac.in": "IIT Kanpur",
+  "iisc.ac.in": "Indian Institute of Science",
+  "bits-pilani.ac.in": "BITS Pilani",
+  "technion.ac.il": "Technion",
+  "huji.ac.il": "Hebrew University of Jerusalem",
+  "tau.ac.il": "Tel Aviv University",
+  "weizmann.ac.il": "Weizmann Institute of Science",
+  "unimelb.edu.au": "University of Melbourne",
+  "sydney.edu.au": "University of Sydney",
+  "unsw.edu.au": "UNSW Sydney",
+  "anu.edu.au": "Australian National University",
+  "monash.edu": "Monash University",
+  "uq.edu.au": "University of Queensland",
+  "auckland.ac.nz": "University of Auckland",
+  // Latin America and Africa
+  "usp.br": "University of São Paulo",
+  "unicamp.br": "University of Campinas",
+  "ufrj.br": "Federal University of Rio de Janeiro",
+  "unam.mx": "National Autonomous University of Mexico",
+  "itesm.mx": "Tecnológico de Monterrey",
+  "uba.ar": "University of Buenos Aires",
+  "uchile.cl": "University of Chile",
+  "uct.ac.za": "University of Cape Town",
+  "wits.ac.za": "University of the Witwatersrand",
+};
@@ -0,0 +1,10 @@
+export {
+  rankEmailCandidates,
+  automatedReason,
+  type EmailCandidate,
+  type EmailObservation,
+  type EmailSource,
+} from "./candidates.js";
+export { discoverEmails, MAX_DISCOVERY_CALLS, MAX_SCANNED_REPOS } from "./discover.js";
+export { saveEmailCandidates, loadEmailCandidates, type StoredEmailCandidate } from "./store.js";
+export { classifyEmail, EMAIL_TYPES, type EmailClassification, type EmailType } from "./classify.js";
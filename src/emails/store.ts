@@ -0,0 +1,68 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import type { EmailCandidate, EmailSource } from "./candidates.js";
+import { classifyEmail, type EmailType } from "./classify.js";
+
+export interface StoredEmailCandidate extends EmailCandidate {
+  rank: number; // 1 for the most likely
+  type: EmailType | null;
+  chosen: boolean; // the address extraction settled on
+}
+
+/**
+ * Replace a user's ranked candidates, marking the one that was extracted as
+ * their email, if any.
+ */
+export async function saveEmailCandidates(
+  connection: DuckDBConnection,
+  githubId: number,
+  candidates: EmailCandidate[],
+  chosenEmail: string | null
+): Promise<void> {
+  const chosen = chosenEmail?.trim().toLowerCase() ?? null;
+
+  await connection.run(`DELETE FROM email_candidates WHERE github_id = ?`, [githubId]);
+  for (const [i, candidate] of candidates.entries()) {
+    await connection.run(
+      `INSERT INTO email_candidates (
+         github_id, email, rank, score, occurrences, names, sources, linked, reasons, email_type, chosen, discovered_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [
+        githubId,
+        candidate.email,
+        i + 1,
+        candidate.score,
+        candidate.occurrences,
+        JSON.stringify(candidate.names),
+        JSON.stringify(candidate.sources),
+        candidate.linked,
+        JSON.stringify(candidate.reasons),
+        classifyEmail(candidate.email)?.type ?? null,
+        candidate.email === chosen,
+      ]
+    );
+  }
+}
+
+/**
+ * The ranked candidates stored for a stargazer, best first.
+ */
+export async function loadEmailCandidates(connection: DuckDBConnection, githubId: number): Promise<StoredEmailCandidate[]> {
+  const result = await connection.run(
+    `SELECT email, rank, score, occurrences, names, sources, linked, reasons, email_type, chosen
+     FROM email_candidates WHERE github_id = ? ORDER BY rank`,
+    [githubId]
+  );
+  const rows = await result.getRows();
+  return rows.map((row) => ({
+    email: row[0] as string,
+    rank: Number(row[1]),
+    score: Number(row[2]),
+    occurrences: Number(row[3]),
+    names: JSON.parse(String(row[4])) as string[],
+    sources: JSON.parse(String(row[5])) as EmailSource[],
+    linked: row[6] as boolean,
+    reasons: JSON.parse(String(row[7])) as string[],
+    type: (row[8] as EmailType | null) ?? null,
+    chosen: row[9] as boolean,
+  }));
+}
@@ -1,12 +1,17 @@
 import type { GitHubUserProfile } from "../../github/types.js";
 import type { EnrichedProfile } from "../types.js";
 
+export type RoleField = "job_title" | "role_category" | "seniority";
+
+// Role fields are only compared when a fixture gives them
+export type ExpectedProfile = Omit<EnrichedProfile, RoleField> & Partial<Pick<EnrichedProfile, RoleField>>;
+
 export interface EvalFixture {
   name: string;
   description: string;
   input: GitHubUserProfile;
   candidateEmails?: string[];
-  expected: EnrichedProfile;
+  expected: ExpectedProfile;
 }
 
 export const fixtures: EvalFixture[] = [
@@ -36,6 +41,9 @@ export const fixtures: EvalFixture[] = [
       website_url: "http://maraby.org/",
       university: null,
       email: null,
+      job_title: "Principal Engineer",
+      role_category: "engineer",
+      seniority: "principal",
     },
   },
 
@@ -185,6 +193,9 @@ export const fixtures: EvalFixture[] = [
       website_url: null,
       university: null,
       email: null,
+      job_title: null,
+      role_category: null,
+      seniority: null,
     },
   },
 
@@ -217,6 +228,8 @@ export const fixtures: EvalFixture[] = [
       website_url: "http://fabien.potencier.org/",
       university: null,
       email: null,
+      role_category: "founder_exec",
+      seniority: "executive",
     },
   },
 
@@ -630,4 +643,259 @@ export const fixtures: EvalFixture[] = [
       email: null,
     },
   },
+
+  // Role and seniority test cases
+  {
+    name: "role-senior-engineer",
+    description: "Abbreviated seniority in the title",
+    input: {
+      id: 3001,
+      login: "sr_payments",
+      name: "Priya Natarajan",
+      bio: "Sr. Software Engineer at @stripe. Payments infra, Go and Rust.",
+      location: "Dublin, Ireland",
+      company: "@stripe",
+      blog: "",
+      twitter_username: null,
+      email: null,
+      public_repos: 30,
+      followers: 120,
+      following: 40,
+      created_at: "2016-05-10T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+    expected: {
+      country: "Ireland",
+      employers: [{ name: "stripe", current: true }],
+      linkedin_url: null,
+      website_url: null,
+      university: null,
+      email: null,
+      job_title: "Senior Software Engineer",
+      role_category: "engineer",
+      seniority: "senior",
+    },
+  },
+
+  {
+    name: "role-founder-ceo",
+    description: "Founder and CEO with a past employer",
+    input: {
+      id: 3002,
+      login: "launchly_ceo",
+      name: "Marcus Reid",
+      bio: "Co-founder & CEO @launchly (YC W23). Previously eng at Shopify.",
+      location: "Toronto, ON",
+      company: "@launchly",
+      blog: "",
+      twitter_username: null,
+      email: null,
+      public_repos: 30,
+      followers: 120,
+      following: 40,
+      created_at: "2016-05-10T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+    expected: {
+      country: "Canada",
+      employers: [
+        { name: "launchly", current: true },
+        { name: "Shopify", current: false },
+      ],
+      linkedin_url: null,
+      website_url: null,
+      university: null,
+      email: null,
+      job_title: "Co-founder & CEO",
+      role_category: "founder_exec",
+      seniority: "executive",
+    },
+  },
+
+  {
+    name: "role-researcher",
+    description: "Research scientist with a PhD mentioned in the bio",
+    input: {
+      id: 3003,
+      login: "rl_researcher",
+      name: "Elena Petrova",
+      bio: "Research Scientist at DeepMind working on RL. PhD from MIT.",
+      location: "London, UK",
+      company: "Google DeepMind",
+      blog: "",
+      twitter_username: null,
+      email: null,
+      public_repos: 30,
+      followers: 120,
+      following: 40,
+      created_at: "2016-05-10T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+    expected: {
+      country: "UK",
+      employers: [{ name: "DeepMind", current: true }],
+      linkedin_url: null,
+      website_url: null,
+      university: "MIT",
+      email: null,
+      job_title: "Research Scientist",
+      role_category: "researcher",
+    },
+  },
+
+  {
+    name: "role-student",
+    description: "Undergraduate student looking for internships",
+    input: {
+      id: 3004,
+      login: "cs_undergrad",
+      name: "Kevin Lee",
+      bio: "CS undergrad @ UC Berkeley. Looking for summer internships!",
+      location: "Berkeley, CA",
+      company: null,
+      blog: "",
+      twitter_username: null,
+      email: null,
+      public_repos: 30,
+      followers: 120,
+      following: 40,
+      created_at: "2016-05-10T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+    expected: {
+      country: "US",
+      employers: [],
+      linkedin_url: null,
+      website_url: null,
+      university: "UC Berkeley",
+      email: null,
+      role_category: "student",
+    },
+  },
+
+  {
+    name: "role-devrel",
+    description: "Developer advocate",
+    input: {
+      id: 3005,
+      login: "edge_advocate",
+      name: "Sam Ortiz",
+      bio: "Developer Advocate @vercel. Talking about Next.js and edge stuff.",
+      location: "San Francisco",
+      company: "@vercel",
+      blog: "",
+      twitter_username: null,
+      email: null,
+      public_repos: 30,
+      followers: 120,
+      following: 40,
+      created_at: "2016-05-10T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+    expected: {
+      country: "US",
+      employers: [{ name: "vercel", current: true }],
+      linkedin_url: null,
+      website_url: null,
+      university: null,
+      email: null,
+      job_title: "Developer Advocate",
+      role_category: "devrel",
+    },
+  },
+
+  {
+    name: "role-engineering-manager",
+    description: "Engineering manager with a past role",
+    input: {
+      id: 3006,
+      login: "platform_em",
+      name: "Johanna Berg",
+      bio: "Engineering Manager, Platform @ Spotify. Ex-SRE.",
+      location: "Stockholm, Sweden",
+      company: "Spotify",
+      blog: "",
+      twitter_username: null,
+      email: null,
+      public_repos: 30,
+      followers: 120,
+      following: 40,
+      created_at: "2016-05-10T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+    expected: {
+      country: "Sweden",
+      employers: [{ name: "Spotify", current: true }],
+      linkedin_url: null,
+      website_url: null,
+      university: null,
+      email: null,
+      job_title: "Engineering Manager",
+      role_category: "manager",
+    },
+  },
+
+  {
+    name: "role-title-in-company",
+    description: "Job title in the company field and no bio",
+    input: {
+      id: 3007,
+      login: "dd_staff",
+      name: "Omar Haddad",
+      bio: null,
+      location: "New York, NY",
+      company: "Staff Engineer @ Datadog",
+      blog: "",
+      twitter_username: null,
+      email: null,
+      public_repos: 30,
+      followers: 120,
+      following: 40,
+      created_at: "2016-05-10T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+    expected: {
+      country: "US",
+      employers: [{ name: "Datadog", current: true }],
+      linkedin_url: null,
+      website_url: null,
+      university: null,
+      email: null,
+      job_title: "Staff Engineer",
+      role_category: "engineer",
+      seniority: "staff",
+    },
+  },
+
+  {
+    name: "role-no-signal",
+    description: "Bio that says nothing about the user's job",
+    input: {
+      id: 3008,
+      login: "turtle_fan",
+      name: "Alex Kim",
+      bio: "I like turtles and open source.",
+      location: null,
+      company: null,
+      blog: "",
+      twitter_username: null,
+      email: null,
+      public_repos: 30,
+      followers: 120,
+      following: 40,
+      created_at: "2016-05-10T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    },
+    expected: {
+      country: null,
+      employers: [],
+      linkedin_url: null,
+      website_url: null,
+      university: null,
+      email: null,
+      job_title: null,
+      role_category: null,
+      seniority: null,
+    },
+  },
 ];
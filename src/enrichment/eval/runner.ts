@@ -1,8 +1,16 @@
 import "dotenv/config";
-import { fixtures, type EvalFixture } from "./fixtures.js";
+import { mkdirSync } from "fs";
+import path from "path";
+import { fixtures, type EvalFixture, type ExpectedProfile } from "./fixtures.js";
 import { extractProfileData } from "../extractor.js";
-import type { EnrichedProfile, Employer } from "../types.js";
+import { getLlmProvider, type LlmProvider } from "../llm.js";
+import { emptyLlmStats, formatLlmStats, recordLlmOutcome, type LlmCache, type LlmOutcome } from "../llm-cache.js";
+import { getDb, initializeSchema, closeDb, DuckDBLlmCache } from "../../db/index.js";
+import { SENIORITY_LEVELS, type EnrichedProfile, type Employer, type ExtractedProfile } from "../types.js";
 import { standardizeCountry } from "../country.js";
+import { CassetteMissError, openCassette, type Cassette } from "../../cassette/index.js";
+import { rankEmailCandidates } from "../../emails/index.js";
+import { normalizeCompanyName } from "../../companies/index.js";
 
 interface FieldResult {
   field: string;
@@ -17,6 +25,44 @@ interface EvalResult {
   passed: boolean;
   fields: FieldResult[];
   error?: string;
+  llm?: LlmOutcome;
+  usage?: ExtractedProfile["usage"];
+}
+
+interface EvalArgs {
+  record?: string;
+  replay?: string;
+  model?: string;
+  cache: boolean;
+  refreshCache: boolean;
+}
+
+// LLM results are cached across eval runs in their own database
+const EVAL_CACHE_DB = "./data/eval-llm-cache.db";
+
+/**
+ * Read --record <file> / --replay <file> / --model <name> / --no-cache /
+ * --refresh-cache from the command line.
+ */
+function parseEvalArgs(argv: string[]): EvalArgs {
+  const valueOf = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+  return {
+    record: valueOf("--record"),
+    replay: valueOf("--replay"),
+    model: valueOf("--model"),
+    cache: !argv.includes("--no-cache"),
+    refreshCache: argv.includes("--refresh-cache"),
+  };
+}
+
+async function openEvalCache(): Promise<LlmCache> {
+  mkdirSync(path.dirname(EVAL_CACHE_DB), { recursive: true });
+  const db = await getDb(EVAL_CACHE_DB);
+  await initializeSchema(db);
+  return new DuckDBLlmCache(await db.connect());
 }
 
 function normalizeString(s: string | null | undefined): string | null {
@@ -29,20 +75,55 @@ function normalizeCountry(country: string | null): string | null {
   return standardizeCountry(country);
 }
 
-function normalizeEmployerName(name: string): string {
-  // Remove @ prefix, normalize casing
-  return name.replace(/^@/, "").toLowerCase().trim();
+// Title abbreviations, expanded before comparing
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: "senior",
+  snr: "senior",
+  jr: "junior",
+  eng: "engineer",
+  swe: "software engineer",
+  sde: "software engineer",
+  dev: "developer",
+  mgr: "manager",
+  em: "engineering manager",
+  vp: "vice president",
+  cofounder: "co founder",
+};
+
+function titleWords(title: string): Set<string> {
+  const words = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word && word !== "and" && word !== "of");
+  return new Set(words.flatMap((word) => (TITLE_ABBREVIATIONS[word] ?? word).split(" ")));
+}
+
+/**
+ * Titles match when every word of one appears in the other, after expanding
+ * abbreviations: "Sr. SWE" matches "Senior Software Engineer".
+ */
+function titleMatches(expected: string, actual: string): boolean {
+  const expectedWords = titleWords(expected);
+  const actualWords = titleWords(actual);
+  return (
+    [...expectedWords].every((word) => actualWords.has(word)) || [...actualWords].every((word) => expectedWords.has(word))
+  );
 }
 
+/**
+ * Seniority is a judgement call at the boundaries, so neighbouring levels
+ * (senior/staff) count as a match.
+ */
+function seniorityMatches(expected: string, actual: string): boolean {
+  const levels: readonly string[] = SENIORITY_LEVELS;
+  return Math.abs(levels.indexOf(expected) - levels.indexOf(actual)) <= 1;
+}
+
+// Names match as companies do: ignoring case, a leading "@", legal suffixes and
+// punctuation. A name that only contains the expected one ("CTO at Acme") does not.
 function employerMatches(expected: Employer, actual: Employer): boolean {
-  const expectedName = normalizeEmployerName(expected.name);
-  const actualName = normalizeEmployerName(actual.name);
-
-  const nameMatch =
-    expectedName === actualName ||
-    actualName.includes(expectedName) ||
-    expectedName.includes(actualName);
-  return nameMatch && expected.current === actual.current;
+  return normalizeCompanyName(expected.name) === normalizeCompanyName(actual.name) && expected.current === actual.current;
 }
 
 function compareEmployers(expected: Employer[], actual: Employer[]): { match: boolean; details: string } {
@@ -84,7 +165,7 @@ function compareEmployers(expected: Employer[], actual: Employer[]): { match: bo
 
 function compareField(
   field: keyof EnrichedProfile,
-  expected: EnrichedProfile,
+  expected: ExpectedProfile,
   actual: EnrichedProfile
 ): FieldResult {
   const expectedVal = expected[field];
@@ -111,6 +192,18 @@ function compareField(
     return { field, expected: expectedVal, actual: actualVal, match };
   }
 
+  if (typeof expectedVal === "string" && typeof actualVal === "string") {
+    if (field === "job_title") {
+      return { field, expected: expectedVal, actual: actualVal, match: titleMatches(expectedVal, actualVal) };
+    }
+    if (field === "role_category") {
+      return { field, expected: expectedVal, actual: actualVal, match: expectedVal === actualVal };
+    }
+    if (field === "seniority") {
+      return { field, expected: expectedVal, actual: actualVal, match: seniorityMatches(expectedVal, actualVal) };
+    }
+  }
+
   // For string fields, do fuzzy matching
   if (typeof expectedVal === "string" && typeof actualVal === "string") {
     const normalizedExpected = normalizeString(expectedVal);
@@ -150,11 +243,24 @@ function compareField(
   };
 }
 
-async function runFixture(fixture: EvalFixture): Promise<EvalResult> {
+interface FixtureOptions {
+  provider: LlmProvider;
+  cassette?: Cassette;
+  cache?: LlmCache;
+  refreshCache?: boolean;
+}
+
+async function runFixture(fixture: EvalFixture, options: FixtureOptions): Promise<EvalResult> {
   const fields: FieldResult[] = [];
 
   try {
-    const actual = await extractProfileData(fixture.input, fixture.candidateEmails);
+    // Fixtures list bare addresses; rank them as if each appeared in one commit
+    const candidateEmails = fixture.candidateEmails && rankEmailCandidates(
+      fixture.candidateEmails.map((email) => ({ email, name: null, source: "commit" as const, linked: false })),
+      fixture.input
+    );
+    const extracted = await extractProfileData(fixture.input, candidateEmails, options);
+    const actual = extracted.data;
 
     const fieldNames: (keyof EnrichedProfile)[] = [
       "country",
@@ -163,9 +269,14 @@ async function runFixture(fixture: EvalFixture): Promise<EvalResult> {
       "website_url",
       "university",
       "email",
+      "job_title",
+      "role_category",
+      "seniority",
     ];
 
     for (const field of fieldNames) {
+      // Fixtures that predate role extraction leave the role fields out
+      if (!(field in fixture.expected)) continue;
       fields.push(compareField(field, fixture.expected, actual));
     }
 
@@ -176,8 +287,11 @@ async function runFixture(fixture: EvalFixture): Promise<EvalResult> {
       description: fixture.description,
       passed,
       fields,
+      llm: extracted.llm,
+      usage: extracted.usage,
     };
   } catch (error) {
+    if (error instanceof CassetteMissError) throw error;
     return {
       fixture: fixture.name,
       description: fixture.description,
@@ -207,22 +321,44 @@ function printResult(result: EvalResult): void {
 }
 
 async function runEval(): Promise<void> {
+  const args = parseEvalArgs(process.argv.slice(2));
+  const cassette = openCassette(args);
+  const provider = getLlmProvider({ model: args.model });
+  if (cassette?.mode !== "replay") {
+    provider.assertConfigured();
+  }
+  // Like enrich, the cache is bypassed while a cassette is in use
+  const cache = args.cache && !cassette ? await openEvalCache() : undefined;
+
   console.log("=".repeat(60));
   console.log("LLM Extraction Eval");
   console.log("=".repeat(60));
+  console.log(`Model: ${provider.name}/${provider.model}`);
+  if (cassette) {
+    console.log(`Cassette: ${cassette.mode === "record" ? "recording to" : "replaying from"} ${cassette.path}`);
+  }
   console.log(`Running ${fixtures.length} fixtures...\n`);
 
   const results: EvalResult[] = [];
+  const llmStats = emptyLlmStats();
 
   for (const fixture of fixtures) {
     console.log(`Running: ${fixture.name}...`);
-    const result = await runFixture(fixture);
+    const result = await runFixture(fixture, { provider, cassette, cache, refreshCache: args.refreshCache });
     results.push(result);
+    if (result.llm) {
+      recordLlmOutcome(llmStats, result.llm, result.usage);
+    }
 
-    // Small delay between API calls
-    await new Promise((r) => setTimeout(r, 200));
+    // Small delay between API calls (not needed when replaying or for cache hits)
+    if (cassette?.mode !== "replay" && result.llm === "called") {
+      await new Promise((r) => setTimeout(r, 200));
+    }
   }
 
+  cassette?.save();
+  await closeDb();
+
   console.log("\n" + "=".repeat(60));
   console.log("Results");
   console.log("=".repeat(60));
@@ -242,6 +378,7 @@ async function runEval(): Promise<void> {
   console.log(`Passed: ${passed}`);
   console.log(`Failed: ${failed}`);
   console.log(`Pass rate: ${((passed / results.length) * 100).toFixed(1)}%`);
+  console.log(formatLlmStats(llmStats));
 
   // Field-level stats
   const fieldStats: Record<string, { pass: number; fail: number }> = {};
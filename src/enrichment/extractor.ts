@@ -1,23 +1,112 @@
-import { generateObject } from "ai";
-import { getOpenRouter } from "./llm.js";
-import { EnrichedProfileSchema, type EnrichedProfile } from "./types.js";
-import type { GitHubUserProfile } from "../github/types.js";
+import { z } from "zod";
+import { getLlmProvider, type LlmProvider } from "./llm.js";
+import { generateCached, type LlmCache } from "./llm-cache.js";
+import {
+  EnrichedProfileSchema,
+  ROLE_CATEGORIES,
+  SENIORITY_LEVELS,
+  type EnrichedProfile,
+  type ExtractedProfile,
+  type ProfileField,
+  type ProfileProvenance,
+} from "./types.js";
+import type { GitHubOrganization, GitHubSocialAccount, GitHubUserProfile } from "../github/types.js";
+import type { Cassette } from "../cassette/index.js";
 import { standardizeCountry } from "./country.js";
+import { extractWithRules, unresolvedFields } from "./rules.js";
+import { geocodeLocation, locateInCountry, type GeocodeResult, type GeoLocation } from "../geo/index.js";
+import { classifyEmail, type EmailCandidate, type EmailClassification } from "../emails/index.js";
 
+// Commit emails shown to the LLM, best ranked first
+const MAX_PROMPT_CANDIDATES = 5;
+
+export interface ExtractOptions {
+  provider?: LlmProvider; // defaults to the provider configured in the environment
+  cassette?: Cassette; // record or replay the LLM call
+  cache?: LlmCache; // reuse results for identical model, prompt and schema
+  refreshCache?: boolean; // ignore cached results, but still store fresh ones
+  socialAccounts?: GitHubSocialAccount[]; // lets the rules resolve LinkedIn without the LLM
+  organizations?: GitHubOrganization[]; // display names for @org handles in the company field
+}
+
+function fieldInstructions(
+  profile: GitHubUserProfile,
+  candidateEmails: EmailCandidate[] | undefined,
+  geocoded: GeocodeResult
+): Record<ProfileField, string> {
+  const emailInstruction = candidateEmails && candidateEmails.length > 0
+    ? `email: The user's profile email is missing. Here are emails found in their git commits, most likely first, with a match score and the evidence for it:
+${candidateEmails.slice(0, MAX_PROMPT_CANDIDATES).map(describeCandidate).join("\n")}
+   Match one to this user based on name/username similarity. Return null if no confident match.`
+    : `email: Use the profile email if available: ${profile.email || "N/A"}. Return null if not available.`;
+
+  return {
+    country: `country: Be liberal in inferring the country. Use these signals IN PRIORITY ORDER:
+   - **PRIORITY 1: Location field** - If present, this is the gold standard. Parse city/region/country from the location.
+   - **PRIORITY 2: Company location** - If it's a well-known regional company (e.g., Google → US, Alibaba → China)
+   - **PRIORITY 3: Language/cultural signals** - Only use these if location is missing:
+     * Japanese characters in bio/name → Japan
+     * Simplified Chinese → China
+     * Traditional Chinese → Taiwan
+     * Korean → South Korea
+   - **PRIORITY 4: Username or other cultural indicators**
+
+   IMPORTANT: Always use the location field if it exists, even if other signals suggest a different country.
+   If you can make a reasonable guess, provide it. Only return null if there are truly no signals.
+   Use country names like "China", "Japan", "Taiwan", "Germany", etc. or "US"/"UK" for United States/United Kingdom.${
+     geocoded.status === "ambiguous"
+       ? `\n   The location could be any of: ${geocoded.candidates.map(describeLocation).join("; ")}. Pick the most likely one.`
+       : ""
+   }`,
+    employers: `employers: Extract past and current employers from the company field and bio. Mark current employer as current=true.`,
+    linkedin_url: `linkedin_url: Look for LinkedIn URLs in the bio or blog field. Return null if not found.`,
+    website_url: `website_url: Extract personal website URL from the blog field (ignore LinkedIn, Twitter, or GitHub links). Return null if not found.`,
+    university: `university: Look for university/college names in the bio. Return null if not found.`,
+    email: emailInstruction,
+    job_title: `job_title: The user's current job title as written in the bio or company field (e.g. "Staff Software Engineer", "Co-founder & CTO"), without the employer. Return null if no title is given.`,
+    role_category: `role_category: The category of the current role, one of ${ROLE_CATEGORIES.join(", ")}. Use founder_exec for founders and C-level or VP roles, devrel for developer advocates and evangelists, and student for people still studying. Return null if the bio and company do not say what the user does.`,
+    seniority: `seniority: The seniority of the current role, one of ${SENIORITY_LEVELS.join(", ")}. Read it from the title ("Sr." is senior, "Staff"/"Principal" as written, "Head of"/"Director" is director, founders and C-level are executive). Return null if the title does not indicate it.`,
+  };
+}
+
+/**
+ * Extract structured data from a profile. Fields the rules can read with
+ * certainty are filled in first, and only the remaining fields are sent to the
+ * LLM. When the rules resolve everything, no LLM call is made.
+ *
+ * Every field comes back with its provenance: where the value came from and
+ * how confident we are in it. LLM confidence is self-reported by the model.
+ */
 export async function extractProfileData(
   profile: GitHubUserProfile,
-  candidateEmails?: string[]
-): Promise<EnrichedProfile> {
-  const openrouter = getOpenRouter();
+  candidateEmails?: EmailCandidate[],
+  options: ExtractOptions = {}
+): Promise<ExtractedProfile> {
+  const rules = extractWithRules({
+    profile,
+    candidateEmails,
+    socialAccounts: options.socialAccounts,
+    organizations: options.organizations,
+  });
+  const resolved = rules.values;
+  const remaining = unresolvedFields(resolved);
 
-  const emailInstruction = candidateEmails && candidateEmails.length > 0
-    ? `6. email: The user's profile email is missing. Here are emails found in their git commits: ${candidateEmails.join(", ")}. Match one to this user based on name/username similarity. Return null if no confident match.`
-    : `6. email: Use the profile email if available: ${profile.email || "N/A"}. Return null if not available.`;
+  if (remaining.length === 0) {
+    const country = standardizeCountry(resolved.country);
+    const data = { ...(resolved as EnrichedProfile), country };
+    return {
+      data,
+      provenance: rules.provenance,
+      location: locateInCountry(profile.location, country),
+      emailClass: corroborateWithEmail(data, rules.provenance),
+      llm: "skipped",
+    };
+  }
+
+  const instructions = fieldInstructions(profile, candidateEmails, geocodeLocation(profile.location));
+  const steps = remaining.map((field, i) => `${i + 1}. ${instructions[field]}`).join("\n\n");
 
-  const { object } = await generateObject({
-    model: openrouter("google/gemini-2.5-flash-lite"),
-    schema: EnrichedProfileSchema,
-    prompt: `Extract structured data from this GitHub profile. Be liberal with country inference but conservative with other fields.
+  const prompt = `Extract structured data from this GitHub profile. Be liberal with country inference but conservative with other fields.
 
 GitHub Profile:
 - Username: ${profile.login}
@@ -29,36 +118,119 @@ GitHub Profile:
 - Twitter: ${profile.twitter_username || "N/A"}
 
 Extract:
-1. country: Be liberal in inferring the country. Use these signals IN PRIORITY ORDER:
-   - **PRIORITY 1: Location field** - If present, this is the gold standard. Parse city/region/country from the location.
-   - **PRIORITY 2: Company location** - If it's a well-known regional company (e.g., Google → US, Alibaba → China)
-   - **PRIORITY 3: Language/cultural signals** - Only use these if location is missing:
-     * Japanese characters in bio/name → Japan
-     * Simplified Chinese → China
-     * Traditional Chinese → Taiwan
-     * Korean → South Korea
-   - **PRIORITY 4: Username or other cultural indicators**
-   
-   IMPORTANT: Always use the location field if it exists, even if other signals suggest a different country.
-   If you can make a reasonable guess, provide it. Only return null if there are truly no signals.
-   Use country names like "China", "Japan", "Taiwan", "Germany", etc. or "US"/"UK" for United States/United Kingdom.
+${steps}
 
-2. employers: Extract past and current employers from the company field and bio. Mark current employer as current=true.
+For non-country fields, return null if you cannot confidently determine the value.
 
-3. linkedin_url: Look for LinkedIn URLs in the bio or blog field. Return null if not found.
+Also return confidence: for each field above, a number from 0 to 1 for how sure you are of the value.`;
 
-4. website_url: Extract personal website URL from the blog field (ignore LinkedIn, Twitter, or GitHub links). Return null if not found.
+  // Only ask for the fields the rules could not resolve
+  const schema = EnrichedProfileSchema.pick(Object.fromEntries(remaining.map((field) => [field, true]))).extend({
+    confidence: z.object(Object.fromEntries(remaining.map((field) => [field, z.number()]))),
+  });
 
-5. university: Look for university/college names in the bio. Return null if not found.
+  const provider = options.provider ?? getLlmProvider();
+  const { result, outcome } = await generateCached(provider, schema, prompt, {
+    cache: options.cache,
+    refreshCache: options.refreshCache,
+    cassette: options.cassette,
+    request: { login: profile.login },
+  });
 
-${emailInstruction}
+  const { confidence, ...values } = result.object as Partial<EnrichedProfile> & { confidence: Record<string, number> };
 
-For non-country fields, return null if you cannot confidently determine the value.`,
-  });
+  const provenance: ProfileProvenance = { ...rules.provenance };
+  for (const field of remaining) {
+    provenance[field] = {
+      source: "llm",
+      confidence: clampConfidence(confidence[field]),
+    };
+  }
+  // A matched commit email was found in the user's commits; the LLM only picked it
+  const picked = values.email?.trim().toLowerCase();
+  if (provenance.email?.source === "llm" && picked && candidateEmails?.some((c) => c.email.toLowerCase() === picked)) {
+    provenance.email = { ...provenance.email, source: "commit", detail: "matched by LLM" };
+  }
 
-  // Standardize the country name
+  // Rule-based values win over the LLM's; standardize the country name
+  const merged = { ...values, ...resolved } as EnrichedProfile;
+  const country = standardizeCountry(merged.country);
+  const data = { ...merged, country };
   return {
-    ...object,
-    country: standardizeCountry(object.country),
+    data,
+    provenance,
+    location: locateInCountry(profile.location, country),
+    emailClass: corroborateWithEmail(data, provenance),
+    llm: outcome,
+    usage: outcome === "cached" ? undefined : result.usage,
   };
 }
+
+/**
+ * Classify the extracted email. An academic address names the user's
+ * university when nothing else did, and confirms a matching one. Listed
+ * universities are named in full; any other institution by its domain.
+ * Updates data and provenance in place.
+ */
+function corroborateWithEmail(data: EnrichedProfile, provenance: ProfileProvenance): EmailClassification | null {
+  const emailClass = classifyEmail(data.email);
+  if (emailClass?.type !== "university" || !emailClass.institution) return emailClass;
+  const { institution, university } = emailClass;
+
+  if (!data.university) {
+    data.university = university ?? institution;
+    provenance.university = university
+      ? { source: "email", confidence: 0.7, detail: "email domain" }
+      : { source: "email", confidence: 0.5, detail: "unlisted academic email domain" };
+  } else if (
+    provenance.university &&
+    (university ? sameUniversity(data.university, university) : namedByDomain(data.university, institution))
+  ) {
+    provenance.university = {
+      ...provenance.university,
+      confidence: Math.max(provenance.university.confidence, 0.9),
+      detail: "confirmed by email domain",
+    };
+  }
+  return emailClass;
+}
+
+function simplifyName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// "ucl" for "University College London"
+function acronym(name: string): string {
+  return simplifyName(name)
+    .split(" ")
+    .filter((word) => !["of", "the", "and", "at", "for", "in"].includes(word))
+    .map((word) => word[0])
+    .join("");
+}
+
+// "MIT" or "mit" for "Massachusetts Institute of Technology"
+function sameUniversity(extracted: string, known: string): boolean {
+  const a = simplifyName(extracted);
+  const b = simplifyName(known);
+  return a === b || a === acronym(known) || a.includes(b) || b.includes(a);
+}
+
+// "University of Wisconsin" for wisc.edu, "TU Dresden" for tu-dresden.de, "UCL" for ucl.ac.uk
+function namedByDomain(extracted: string, institution: string): boolean {
+  const label = institution.split(".")[0].replace(/^(uni|tu|th|hs|fh|ph)-/, "").replace(/-/g, "");
+  const squashed = simplifyName(extracted).replace(/ /g, "");
+  return squashed === label || acronym(extracted) === label || (label.length >= 4 && squashed.includes(label));
+}
+
+function describeCandidate(candidate: EmailCandidate): string {
+  return `   - ${candidate.email} (score ${candidate.score.toFixed(2)}: ${candidate.reasons.join("; ")})`;
+}
+
+function describeLocation(location: GeoLocation): string {
+  return [location.city, location.region, location.country].filter(Boolean).join(", ");
+}
+
+function clampConfidence(value: number | undefined): number {
+  if (value === undefined || Number.isNaN(value)) return 0;
+  return Math.min(1, Math.max(0, value));
+}
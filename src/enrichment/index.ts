@@ -1,3 +1,41 @@
-export { extractProfileData } from "./extractor.js";
-export { EnrichedProfileSchema, type EnrichedProfile, type Employer } from "./types.js";
-export { standardizeCountry } from "./country.js";
+export { extractProfileData, type ExtractOptions } from "./extractor.js";
+export {
+  EnrichedProfileSchema,
+  PROFILE_FIELDS,
+  ROLE_CATEGORIES,
+  SENIORITY_LEVELS,
+  type EnrichedProfile,
+  type Employer,
+  type ExtractedProfile,
+  type FieldProvenance,
+  type FieldSource,
+  type ProfileField,
+  type ProfileProvenance,
+  type RoleCategory,
+  type SeniorityLevel,
+} from "./types.js";
+export { standardizeCountry, countryCode } from "./country.js";
+export {
+  getLlmProvider,
+  getLlmConfig,
+  createLlmProvider,
+  LLM_PROVIDERS,
+  DEFAULT_MODEL,
+  type LlmProvider,
+  type LlmProviderName,
+  type LlmConfig,
+  type LlmResult,
+  type LlmUsage,
+} from "./llm.js";
+export {
+  llmCacheKey,
+  generateCached,
+  emptyLlmStats,
+  recordLlmOutcome,
+  formatLlmStats,
+  type CachedLlmResult,
+  type CachedGenerateOptions,
+  type LlmCache,
+  type LlmOutcome,
+  type LlmStats,
+} from "./llm-cache.js";
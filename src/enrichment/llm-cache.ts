@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import type { LlmProvider, LlmResult, LlmUsage } from "./llm.js";
+import type { Cassette } from "../cassette/index.js";
+
+/**
+ * Content-addressed cache of LLM results. Entries are keyed by a hash of the
+ * provider and its endpoint, the model, prompt and output schema, so any change
+ * to one of them is a miss. A stub run or a self-hosted endpoint serving the same
+ * model name never answers for the real provider.
+ */
+
+export interface CachedLlmResult extends LlmResult<unknown> {
+  model: string;
+  createdAt: string;
+}
+
+export interface LlmCache {
+  get(key: string): Promise<CachedLlmResult | null>;
+  set(key: string, entry: CachedLlmResult): Promise<void>;
+}
+
+/**
+ * How a profile's LLM fields were produced: no call needed (resolved by rules),
+ * served from the cache, or a call to the provider.
+ */
+export type LlmOutcome = "skipped" | "cached" | "called";
+
+export interface LlmStats {
+  called: number;
+  cached: number;
+  skipped: number;
+  usage: LlmUsage; // tokens spent on calls, excluding cache hits
+}
+
+export function llmCacheKey(
+  provider: Pick<LlmProvider, "name" | "model" | "baseUrl">,
+  prompt: string,
+  schema: z.ZodType
+): string {
+  return createHash("sha256")
+    .update(`${provider.name}\n${provider.baseUrl ?? ""}\n${provider.model}\n${prompt}\n${JSON.stringify(z.toJSONSchema(schema))}`)
+    .digest("hex");
+}
+
+export interface CachedGenerateOptions {
+  cache?: LlmCache;
+  refreshCache?: boolean; // ignore cached results, but still store fresh ones
+  cassette?: Cassette; // record or replay the call
+  request?: Record<string, unknown>; // context stored with the cassette entry
+}
+
+/**
+ * Generate an object, serving it from the cache when possible. Otherwise the
+ * call goes through the cassette, if any, and its result is cached.
+ */
+export async function generateCached(
+  provider: LlmProvider,
+  schema: z.ZodType,
+  prompt: string,
+  options: CachedGenerateOptions = {}
+): Promise<{ result: LlmResult<unknown>; outcome: Exclude<LlmOutcome, "skipped"> }> {
+  const key = llmCacheKey(provider, prompt, schema);
+
+  const cached = options.cache && !options.refreshCache ? await options.cache.get(key) : null;
+  if (cached) return { result: cached, outcome: "cached" };
+
+  const generate = (): Promise<LlmResult<unknown>> => provider.generateObject(schema, prompt);
+  const result = options.cassette
+    ? await options.cassette.intercept(
+        "llm",
+        key,
+        { provider: provider.name, model: provider.model, ...options.request },
+        generate
+      )
+    : await generate();
+  await options.cache?.set(key, { ...result, model: provider.model, createdAt: new Date().toISOString() });
+  return { result, outcome: "called" };
+}
+
+export function emptyLlmStats(): LlmStats {
+  return { called: 0, cached: 0, skipped: 0, usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 } };
+}
+
+export function recordLlmOutcome(stats: LlmStats, outcome: LlmOutcome, usage?: LlmUsage): void {
+  stats[outcome]++;
+  if (usage) {
+    stats.usage.inputTokens += usage.inputTokens;
+    stats.usage.outputTokens += usage.outputTokens;
+    stats.usage.totalTokens += usage.totalTokens;
+  }
+}
+
+export function formatLlmStats(stats: LlmStats): string {
+  const lookups = stats.called + stats.cached;
+  const rate = lookups > 0 ? ((stats.cached / lookups) * 100).toFixed(1) : "0.0";
+  return `${stats.cached}/${lookups} LLM calls served from cache (${rate}% hit rate), ${stats.skipped} skipped by rules, ${stats.usage.totalTokens} tokens used`;
+}
@@ -1,4 +1,129 @@
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { generateObject, type LanguageModel } from "ai";
+import { z } from "zod";
+
+/**
+ * LLM provider layer. The provider is chosen by config (LLM_PROVIDER, LLM_MODEL,
+ * LLM_BASE_URL, LLM_API_KEY) and the model can be overridden per command.
+ *
+ * - openrouter: OpenRouter, authenticated with OPENROUTER_API_KEY
+ * - openai-compatible: any OpenAI-compatible endpoint, e.g. a self-hosted Ollama or vLLM box
+ * - stub: deterministic, offline; returns an empty value for every schema field
+ */
+
+export const LLM_PROVIDERS = ["openrouter", "openai-compatible", "stub"] as const;
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+export const DEFAULT_MODEL = "google/gemini-2.5-flash-lite";
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model: string;
+  baseUrl?: string; // required for openai-compatible
+  apiKey?: string;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResult<T> {
+  object: T;
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  readonly baseUrl?: string; // the endpoint, when it is configurable (openai-compatible)
+  /**
+   * Throw if the provider is missing credentials or settings. Called up front so
+   * a run fails before doing any work, rather than on the first profile.
+   */
+  assertConfigured(): void;
+  generateObject<S extends z.ZodType>(schema: S, prompt: string): Promise<LlmResult<z.infer<S>>>;
+}
+
+/**
+ * Provider backed by an AI SDK language model. The model is created on first use,
+ * so constructing a provider never needs credentials (e.g. for cassette replays).
+ */
+class AiSdkProvider implements LlmProvider {
+  private languageModel: LanguageModel | null = null;
+
+  constructor(
+    readonly name: LlmProviderName,
+    readonly model: string,
+    private createModel: () => LanguageModel,
+    readonly baseUrl?: string
+  ) {}
+
+  assertConfigured(): void {
+    this.languageModel ??= this.createModel();
+  }
+
+  async generateObject<S extends z.ZodType>(schema: S, prompt: string): Promise<LlmResult<z.infer<S>>> {
+    this.assertConfigured();
+    const model = this.languageModel;
+    if (!model) {
+      throw new Error(`LLM provider "${this.name}" has no model configured`);
+    }
+    const { object, usage } = await generateObject({ model, schema, prompt });
+    return {
+      object: object as z.infer<S>,
+      usage: {
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+        totalTokens: usage.totalTokens ?? 0,
+      },
+    };
+  }
+}
+
+class StubProvider implements LlmProvider {
+  readonly name = "stub" as const;
+
+  constructor(readonly model: string) {}
+
+  assertConfigured(): void {}
+
+  async generateObject<S extends z.ZodType>(schema: S): Promise<LlmResult<z.infer<S>>> {
+    return {
+      object: schema.parse(emptyValueFor(z.toJSONSchema(schema) as JsonSchema)) as z.infer<S>,
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+    };
+  }
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+};
+
+/**
+ * The "empty" value for a JSON schema: null where allowed, otherwise [], {}, "", 0 or false.
+ */
+function emptyValueFor(schema: JsonSchema): unknown {
+  const types = schema.anyOf
+    ? schema.anyOf.flatMap((s) => s.type ?? [])
+    : Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+  if (types.includes("null")) return null;
+  if (types.includes("array")) return [];
+  if (types.includes("object")) {
+    return Object.fromEntries(
+      Object.entries(schema.properties ?? {}).map(([key, value]) => [key, emptyValueFor(value)])
+    );
+  }
+  if (types.includes("string")) return "";
+  if (types.includes("number") || types.includes("integer")) return 0;
+  if (types.includes("boolean")) return false;
+  return null;
+}
 
 export function getOpenRouter() {
   const apiKey = process.env.OPENROUTER_API_KEY;
@@ -7,3 +132,53 @@ export function getOpenRouter() {
   }
   return createOpenRouter({ apiKey });
 }
+
+/**
+ * Read LLM settings from the environment, with optional overrides (e.g. --model).
+ */
+export function getLlmConfig(overrides: Partial<LlmConfig> = {}): LlmConfig {
+  const provider = (overrides.provider || process.env.LLM_PROVIDER || "openrouter") as LlmProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}" (expected one of ${LLM_PROVIDERS.join(", ")})`);
+  }
+
+  return {
+    provider,
+    model: overrides.model || process.env.LLM_MODEL || DEFAULT_MODEL,
+    baseUrl: overrides.baseUrl || process.env.LLM_BASE_URL,
+    apiKey: overrides.apiKey || process.env.LLM_API_KEY,
+  };
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case "openrouter":
+      return new AiSdkProvider("openrouter", config.model, () => getOpenRouter()(config.model));
+
+    case "openai-compatible":
+      return new AiSdkProvider(
+        "openai-compatible",
+        config.model,
+        () => {
+          if (!config.baseUrl) {
+            throw new Error("LLM_BASE_URL is required for the openai-compatible provider");
+          }
+          const provider = createOpenAICompatible({
+            name: "openai-compatible",
+            baseURL: config.baseUrl,
+            apiKey: config.apiKey,
+            supportsStructuredOutputs: true,
+          });
+          return provider.chatModel(config.model);
+        },
+        config.baseUrl
+      );
+
+    case "stub":
+      return new StubProvider(config.model);
+  }
+}
+
+export function getLlmProvider(overrides: Partial<LlmConfig> = {}): LlmProvider {
+  return createLlmProvider(getLlmConfig(overrides));
+}
@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { GitHubUserProfile } from "../github/types.js";
+import { extractWithRules, unresolvedFields, type RuleInput } from "./rules.js";
+
+function profile(overrides: Partial<GitHubUserProfile> = {}): GitHubUserProfile {
+  return {
+    id: 1,
+    login: "jane",
+    name: "Jane Smith",
+    bio: null,
+    location: null,
+    company: null,
+    blog: null,
+    twitter_username: null,
+    email: null,
+    public_repos: 10,
+    followers: 10,
+    following: 10,
+    created_at: "2015-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function employers(company: string | null, input: Partial<RuleInput> = {}) {
+  return extractWithRules({ profile: profile({ company }), ...input }).values.employers;
+}
+
+test("extractEmployers takes a plain company name", () => {
+  assert.deepEqual(employers("Vercel"), [{ name: "Vercel", current: true }]);
+  assert.deepEqual(employers("@vercel"), [{ name: "vercel", current: true }]);
+  assert.deepEqual(employers(null), []);
+});
+
+test("extractEmployers uses the display name of an org the user belongs to", () => {
+  const organizations = [{ login: "vercel", name: "Vercel Inc." }] as RuleInput["organizations"];
+  assert.deepEqual(employers("@Vercel", { organizations }), [{ name: "Vercel Inc.", current: true }]);
+});
+
+test("extractEmployers leaves several employers to the LLM", () => {
+  for (const company of ["Google, ex-Meta", "Acme & Globex", "@vercel @nextjs", "vercel @nextjs", "formerly Stripe"]) {
+    assert.equal(employers(company), undefined, company);
+  }
+});
+
+test("extractEmployers leaves a job title in the company field to the LLM", () => {
+  for (const company of ["Staff Engineer @ Datadog", "CTO at Acme", "Founder, Polar", "Senior Developer"]) {
+    assert.equal(employers(company), undefined, company);
+  }
+});
+
+test("extractEmployers trusts the company field only with an empty bio", () => {
+  const result = extractWithRules({ profile: profile({ company: "Vercel", bio: "Previously at Stripe" }) });
+  assert.equal(result.values.employers, undefined);
+  assert.ok(unresolvedFields(result.values).includes("employers"));
+});
+
+test("extractWithRules reads LinkedIn from social accounts before the blog", () => {
+  const result = extractWithRules({
+    profile: profile({ blog: "linkedin.com/in/blog-jane" }),
+    socialAccounts: [{ provider: "linkedin", url: "https://www.linkedin.com/in/jane" }],
+  });
+  assert.equal(result.values.linkedin_url, "https://www.linkedin.com/in/jane");
+  assert.equal(result.provenance.linkedin_url?.source, "social_account");
+  assert.equal(result.values.website_url, null);
+});
+
+test("extractWithRules resolves a location in one country and leaves ambiguous ones", () => {
+  assert.equal(extractWithRules({ profile: profile({ location: "Berlin, Germany" }) }).values.country, "Germany");
+  assert.equal(extractWithRules({ profile: profile({ location: "Georgia" }) }).values.country, undefined);
+});
+
+test("extractWithRules asks the LLM about role only when there is something to read", () => {
+  const empty = extractWithRules({ profile: profile({ company: "Vercel" }) });
+  assert.equal(empty.values.job_title, null);
+
+  const titled = extractWithRules({ profile: profile({ company: "CTO at Acme" }) });
+  const unresolved = unresolvedFields(titled.values);
+  for (const field of ["employers", "job_title", "role_category", "seniority"] as const) {
+    assert.ok(unresolved.includes(field), field);
+  }
+});
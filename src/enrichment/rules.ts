@@ -0,0 +1,184 @@
+import type { GitHubOrganization, GitHubSocialAccount, GitHubUserProfile } from "../github/types.js";
+import {
+  PROFILE_FIELDS,
+  type EnrichedProfile,
+  type Employer,
+  type FieldProvenance,
+  type ProfileField,
+  type ProfileProvenance,
+} from "./types.js";
+import { geocodeLocation } from "../geo/index.js";
+import type { EmailCandidate } from "../emails/index.js";
+
+/**
+ * Rule-based extraction of the fields that can be read straight from a profile.
+ * A field is only returned when the rules are certain of it, including being
+ * certain that it is empty; everything else is left for the LLM.
+ */
+
+export interface RuleInput {
+  profile: GitHubUserProfile;
+  candidateEmails?: EmailCandidate[]; // ranked, most likely first
+  socialAccounts?: GitHubSocialAccount[];
+  organizations?: GitHubOrganization[];
+}
+
+export interface RuleResult {
+  values: Partial<EnrichedProfile>;
+  provenance: ProfileProvenance;
+}
+
+interface Resolved<T> extends FieldProvenance {
+  value: T;
+}
+
+const LINKEDIN_URL_PATTERN = /(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/(?:in|pub)\/[\w%-]+\/?/i;
+
+// Blog values that are profiles on other sites rather than a personal website
+const NON_WEBSITE_HOSTS = /(^|\.)(linkedin\.com|twitter\.com|x\.com|github\.com)$/i;
+
+// A company field naming more than one employer, or a past one
+const MULTIPLE_OR_PAST_EMPLOYERS = /[,;|/&+]|\band\b|\bex-|\bformer(ly)?\b|\bprev(iously)?\b/i;
+
+// A company field that carries a job title as well as a name ("CTO @acme")
+const TITLE_WORDS =
+  /\b(co-?founder|founder|ceo|cto|cfo|coo|vp|head|director|manager|lead|engineer|developer|dev|architect|scientist|researcher|designer|advocate|evangelist|consultant|freelanc\w*|professor|teacher|student|intern|phd)\b/i;
+
+// Confidence in a field being empty because the only place it could come from is empty
+const ABSENT_CONFIDENCE = 0.9;
+
+function isBlank(value: string | null | undefined): boolean {
+  return !value || value.trim() === "";
+}
+
+function withScheme(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(withScheme(url)).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function fromProfile<T>(value: T, field: string, confidence: number): Resolved<T> {
+  return { value, source: "profile", confidence, detail: field };
+}
+
+function extractLinkedIn(input: RuleInput): Resolved<string | null> | undefined {
+  const fromSocials = input.socialAccounts?.find((a) => a.provider.toLowerCase() === "linkedin");
+  if (fromSocials) return { value: fromSocials.url, source: "social_account", confidence: 1 };
+
+  for (const field of ["blog", "bio"] as const) {
+    const match = input.profile[field]?.match(LINKEDIN_URL_PATTERN);
+    if (match) return fromProfile(withScheme(match[0]), field, 0.95);
+  }
+
+  // The LLM only looks in the bio and blog, so nothing there means no URL
+  return fromProfile(null, "blog", ABSENT_CONFIDENCE);
+}
+
+function extractWebsite(profile: GitHubUserProfile): Resolved<string | null> | undefined {
+  if (isBlank(profile.blog)) return fromProfile(null, "blog", ABSENT_CONFIDENCE);
+
+  const blog = profile.blog!.trim();
+  const host = hostOf(blog);
+  if (!host) return undefined;
+  if (NON_WEBSITE_HOSTS.test(host)) return fromProfile(null, "blog", ABSENT_CONFIDENCE);
+  return fromProfile(withScheme(blog), "blog", 0.9);
+}
+
+function extractEmail(input: RuleInput): Resolved<string | null> | undefined {
+  if (!isBlank(input.profile.email)) return fromProfile(input.profile.email!.trim(), "email", 1);
+  const [best] = input.candidateEmails ?? [];
+  // GitHub only links commits to an account by an address verified on it
+  if (best?.linked) return { value: best.email, source: "commit", confidence: best.score, detail: "linked to the account" };
+  // Otherwise matching commit emails to the user is a judgement call for the LLM
+  if (best) return undefined;
+  return fromProfile(null, "email", ABSENT_CONFIDENCE);
+}
+
+/**
+ * The country of a location the gazetteer places in exactly one country:
+ * "Berlin, Germany", "Philadelphia, PA" or "東京". Ambiguous locations
+ * ("Cambridge") and unknown ones are left to the LLM.
+ */
+function extractCountry(profile: GitHubUserProfile): Resolved<string> | undefined {
+  const geocoded = geocodeLocation(profile.location);
+  return geocoded.status === "resolved" ? fromProfile(geocoded.location.country, "location", 0.95) : undefined;
+}
+
+/**
+ * Employers are only certain when the bio is empty (it often lists past jobs)
+ * and the company field names a single employer, with at most a leading "@"
+ * and no job title.
+ */
+function extractEmployers(input: RuleInput): Resolved<Employer[]> | undefined {
+  const { profile } = input;
+  if (!isBlank(profile.bio)) return undefined;
+  if (isBlank(profile.company)) return fromProfile([], "company", ABSENT_CONFIDENCE);
+
+  const company = profile.company!.trim();
+  if (MULTIPLE_OR_PAST_EMPLOYERS.test(company)) return undefined;
+  // Several handles ("@vercel @nextjs") or a handle after other text may be several employers
+  if (company.lastIndexOf("@") > 0) return undefined;
+  // A title alongside the name ("Staff Engineer @ Datadog", "CTO at Acme") is for the LLM to split out
+  if (TITLE_WORDS.test(company) || /\sat\s/i.test(company)) return undefined;
+
+  const handle = company.replace(/^@/, "");
+  if (!handle) return fromProfile([], "company", ABSENT_CONFIDENCE);
+
+  // Prefer the organization's display name for @handles the user is a member of
+  const organization = company.startsWith("@")
+    ? input.organizations?.find((o) => o.login.toLowerCase() === handle.toLowerCase())
+    : undefined;
+
+  return fromProfile([{ name: organization?.name || handle, current: true }], "company", 0.9);
+}
+
+/**
+ * Job title, role and seniority come from the bio and the company field. With
+ * an empty bio and a company field that is only a name, there is none to find.
+ */
+function roleIsAbsent(profile: GitHubUserProfile): boolean {
+  return isBlank(profile.bio) && !TITLE_WORDS.test(profile.company ?? "");
+}
+
+/**
+ * Return the fields the rules resolved with certainty, with their provenance.
+ * Fields that are absent from the result still need the LLM.
+ */
+export function extractWithRules(input: RuleInput): RuleResult {
+  const resolved: { [F in ProfileField]?: Resolved<EnrichedProfile[F]> } = {
+    country: extractCountry(input.profile),
+    employers: extractEmployers(input),
+    linkedin_url: extractLinkedIn(input),
+    website_url: extractWebsite(input.profile),
+    // Universities are only ever taken from the bio
+    university: isBlank(input.profile.bio) ? fromProfile(null, "bio", ABSENT_CONFIDENCE) : undefined,
+    email: extractEmail(input),
+    job_title: roleIsAbsent(input.profile) ? fromProfile(null, "bio", ABSENT_CONFIDENCE) : undefined,
+    role_category: roleIsAbsent(input.profile) ? fromProfile(null, "bio", ABSENT_CONFIDENCE) : undefined,
+    seniority: roleIsAbsent(input.profile) ? fromProfile(null, "bio", ABSENT_CONFIDENCE) : undefined,
+  };
+
+  const result: RuleResult = { values: {}, provenance: {} };
+  for (const field of PROFILE_FIELDS) {
+    const entry = resolved[field];
+    if (!entry) continue;
+
+    const { value, ...provenance } = entry;
+    (result.values as Record<ProfileField, unknown>)[field] = value;
+    result.provenance[field] = provenance;
+  }
+  return result;
+}
+
+/**
+ * Fields still missing from a rule-based result.
+ */
+export function unresolvedFields(resolved: Partial<EnrichedProfile>): ProfileField[] {
+  return PROFILE_FIELDS.filter((field) => !(field in resolved));
+}
@@ -1,10 +1,31 @@
 import { z } from "zod";
+import type { LlmUsage } from "./llm.js";
+import type { LlmOutcome } from "./llm-cache.js";
+import type { GeoLocation } from "../geo/index.js";
+import type { EmailClassification } from "../emails/index.js";
 
 export const EmployerSchema = z.object({
   name: z.string(),
   current: z.boolean(),
 });
 
+export const ROLE_CATEGORIES = [
+  "engineer",
+  "data_scientist",
+  "researcher",
+  "founder_exec",
+  "manager",
+  "product",
+  "designer",
+  "devrel",
+  "educator",
+  "student",
+  "other",
+] as const;
+
+// Ordered from least to most senior
+export const SENIORITY_LEVELS = ["intern", "junior", "mid", "senior", "staff", "principal", "director", "executive"] as const;
+
 export const EnrichedProfileSchema = z.object({
   country: z.string().nullable(),
   employers: z.array(EmployerSchema),
@@ -12,7 +33,54 @@ export const EnrichedProfileSchema = z.object({
   website_url: z.string().nullable(),
   university: z.string().nullable(),
   email: z.string().nullable(),
+  job_title: z.string().nullable(),
+  role_category: z.enum(ROLE_CATEGORIES).nullable(),
+  seniority: z.enum(SENIORITY_LEVELS).nullable(),
 });
 
 export type EnrichedProfile = z.infer<typeof EnrichedProfileSchema>;
 export type Employer = z.infer<typeof EmployerSchema>;
+export type RoleCategory = (typeof ROLE_CATEGORIES)[number];
+export type SeniorityLevel = (typeof SENIORITY_LEVELS)[number];
+
+export type ProfileField = keyof EnrichedProfile;
+
+export const PROFILE_FIELDS: ProfileField[] = [
+  "country",
+  "employers",
+  "linkedin_url",
+  "website_url",
+  "university",
+  "email",
+  "job_title",
+  "role_category",
+  "seniority",
+];
+
+/**
+ * Where an enriched value came from:
+ * - profile: read from a GitHub profile field (`detail` names the field)
+ * - social_account: a linked account on the GitHub profile
+ * - commit: an email found in the user's commits
+ * - email: the domain of the user's email, e.g. a university's
+ * - llm: inferred by the LLM
+ * - manual: set by hand
+ */
+export type FieldSource = "profile" | "social_account" | "commit" | "email" | "llm" | "manual";
+
+export interface FieldProvenance {
+  source: FieldSource;
+  confidence: number; // 0.0-1.0
+  detail?: string; // e.g. the profile field the value was read from
+}
+
+export type ProfileProvenance = Partial<Record<ProfileField, FieldProvenance>>;
+
+export interface ExtractedProfile {
+  data: EnrichedProfile;
+  provenance: ProfileProvenance;
+  location: GeoLocation | null; // city, region and country code, consistent with data.country
+  emailClass: EmailClassification | null; // what kind of address data.email is
+  llm: LlmOutcome;
+  usage?: LlmUsage; // tokens spent, when the LLM was called
+}
@@ -0,0 +1,513 @@
+/**
+ * Cities and metro areas where developers on GitHub tend to live. Populations
+ * are rough, in thousands; they only decide between namesakes, so "Portland"
+ * means Oregon rather than Maine. Aliases cover local spellings, nicknames
+ * and non-Latin names.
+ */
+
+export interface City {
+  name: string;
+  countryCode: string;
+  regionCode: string | null; // ISO 3166-2, when the region is in the gazetteer
+  population: number; // thousands
+  aliases: string[];
+}
+
+type CityRow = [name: string, country: string, region: string | null, population: number, aliases?: string[]];
+
+const ROWS: CityRow[] = [
+  // United States
+  ["New York", "US", "NY", 8300, ["New York City", "NYC", "NY", "Manhattan", "Brooklyn", "Queens", "纽约", "紐約", "ニューヨーク", "뉴욕", "Нью-Йорк"]],
+  ["San Francisco", "US", "CA", 870, ["SF", "San Fran", "旧金山", "舊金山", "サンフランシスコ", "샌프란시스코"]],
+  ["San Francisco Bay Area", "US", "CA", 7700, ["Bay Area", "SF Bay Area", "SF Bay", "SFBA", "Silicon Valley", "硅谷", "シリコンバレー"]],
+  ["Los Angeles", "US", "CA", 3900, ["LA", "洛杉矶", "ロサンゼルス"]],
+  ["San Diego", "US", "CA", 1390],
+  ["San Jose", "US", "CA", 1010],
+  ["Oakland", "US", "CA", 440],
+  ["Berkeley", "US", "CA", 120],
+  ["Palo Alto", "US", "CA", 68],
+  ["Mountain View", "US", "CA", 82],
+  ["Sunnyvale", "US", "CA", 155],
+  ["Santa Clara", "US", "CA", 130],
+  ["Menlo Park", "US", "CA", 33],
+  ["Cupertino", "US", "CA", 60],
+  ["Redwood City", "US", "CA", 85],
+  ["San Mateo", "US", "CA", 105],
+  ["Fremont", "US", "CA", 230],
+  ["Sacramento", "US", "CA", 525],
+  ["Santa Monica", "US", "CA", 92],
+  ["Irvine", "US", "CA", 310],
+  ["Seattle", "US", "WA", 750, ["西雅图", "シアトル"]],
+  ["Redmond", "US", "WA", 75],
+  ["Bellevue", "US", "WA", 150],
+  ["Kirkland", "US", "WA", 92],
+  ["Vancouver", "US", "WA", 190],
+  ["Portland", "US", "OR", 650, ["PDX"]],
+  ["Portland", "US", "ME", 68],
+  ["Austin", "US", "TX", 960, ["ATX"]],
+  ["Dallas", "US", "TX", 1300],
+  ["Houston", "US", "TX", 2300],
+  ["San Antonio", "US", "TX", 1450],
+  ["Boston", "US", "MA", 650],
+  ["Cambridge", "US", "MA", 118],
+  ["Somerville", "US", "MA", 80],
+  ["Chicago", "US", "IL", 2700, ["Chi-Town", "芝加哥"]],
+  ["Denver", "US", "CO", 715],
+  ["Boulder", "US", "CO", 105],
+  ["Washington", "US", "DC", 690, ["Washington DC", "Washington D.C.", "DC", "D.C."]],
+  ["Arlington", "US", "VA", 235],
+  ["Richmond", "US", "VA", 230],
+  ["Baltimore", "US", "MD", 580],
+  ["Atlanta", "US", "GA", 500, ["ATL"]],
+  ["Miami", "US", "FL", 450],
+  ["Orlando", "US", "FL", 310],
+  ["Tampa", "US", "FL", 400],
+  ["Phoenix", "US", "AZ", 1650],
+  ["Tucson", "US", "AZ", 540],
+  ["Philadelphia", "US", "PA", 1580, ["Philly"]],
+  ["Pittsburgh", "US", "PA", 300],
+  ["Minneapolis", "US", "MN", 430],
+  ["Detroit", "US", "MI", 640],
+  ["Ann Arbor", "US", "MI", 123],
+  ["Salt Lake City", "US", "UT", 200, ["SLC"]],
+  ["Provo", "US", "UT", 115],
+  ["Raleigh", "US", "NC", 470],
+  ["Durham", "US", "NC", 290],
+  ["Chapel Hill", "US", "NC", 60],
+  ["Charlotte", "US", "NC", 880],
+  ["Nashville", "US", "TN", 690],
+  ["Columbus", "US", "OH", 900],
+  ["Cleveland", "US", "OH", 370],
+  ["Cincinnati", "US", "OH", 310],
+  ["St. Louis", "US", "MO", 300, ["STL"]],
+  ["Kansas City", "US", "MO", 510],
+  ["Las Vegas", "US", "NV", 650],
+  ["Madison", "US", "WI", 270],
+  ["Milwaukee", "US", "WI", 570],
+  ["Jersey City", "US", "NJ", 290],
+  ["Hoboken", "US", "NJ", 60],
+  ["Newark", "US", "NJ", 310],
+  ["Princeton", "US", "NJ", 30],
+  ["New Haven", "US", "CT", 135],
+  ["Providence", "US", "RI", 190],
+  ["Ithaca", "US", "NY", 32],
+  ["Buffalo", "US", "NY", 275],
+  ["Rochester", "US", "NY", 210],
+  ["Burlington", "US", "VT", 45],
+  ["Honolulu", "US", "HI", 350],
+  ["Anchorage", "US", "AK", 290],
+  ["Albuquerque", "US", "NM", 560],
+  ["Indianapolis", "US", "IN", 880],
+  ["Louisville", "US", "KY", 620],
+  ["Omaha", "US", "NE", 490],
+  ["New Orleans", "US", "LA", 380, ["NOLA"]],
+  ["Birmingham", "US", "AL", 200],
+  ["Alexandria", "US", "VA", 155],
+
+  // Canada
+  ["Toronto", "CA", "ON", 2800, ["多伦多", "トロント"]],
+  ["Montreal", "CA", "QC", 1760, ["Montréal"]],
+  ["Vancouver", "CA", "BC", 660, ["温哥华", "バンクーバー"]],
+  ["Ottawa", "CA", "ON", 1000],
+  ["Calgary", "CA", "AB", 1300],
+  ["Edmonton", "CA", "AB", 1000],
+  ["Quebec City", "CA", "QC", 550, ["Québec City", "Ville de Québec"]],
+  ["Winnipeg", "CA", "MB", 750],
+  ["Halifax", "CA", "NS", 440],
+  ["Kitchener", "CA", "ON", 260],
+  ["Waterloo", "CA", "ON", 120],
+  ["Hamilton", "CA", "ON", 570],
+  ["London", "CA", "ON", 420],
+  ["Victoria", "CA", "BC", 92],
+
+  // United Kingdom and Ireland
+  ["London", "GB", "ENG", 8900, ["Greater London", "Londres", "Londra", "伦敦", "倫敦", "ロンドン", "런던", "Лондон"]],
+  ["Manchester", "GB", "ENG", 550],
+  ["Birmingham", "GB", "ENG", 1150],
+  ["Bristol", "GB", "ENG", 470],
+  ["Cambridge", "GB", "ENG", 145],
+  ["Oxford", "GB", "ENG", 160],
+  ["Leeds", "GB", "ENG", 800],
+  ["Liverpool", "GB", "ENG", 490],
+  ["Sheffield", "GB", "ENG", 580],
+  ["Newcastle upon Tyne", "GB", "ENG", 300, ["Newcastle"]],
+  ["Nottingham", "GB", "ENG", 330],
+  ["Brighton", "GB", "ENG", 290],
+  ["Reading", "GB", "ENG", 175],
+  ["Southampton", "GB", "ENG", 250],
+  ["York", "GB", "ENG", 200],
+  ["Edinburgh", "GB", "SCT", 525],
+  ["Glasgow", "GB", "SCT", 630],
+  ["Aberdeen", "GB", "SCT", 200],
+  ["Dundee", "GB", "SCT", 150],
+  ["Cardiff", "GB", "WLS", 360],
+  ["Belfast", "GB", "NIR", 340],
+  ["Dublin", "IE", null, 1200, ["Baile Átha Cliath"]],
+  ["Cork", "IE", null, 210],
+  ["Galway", "IE", null, 80],
+
+  // Germany, Austria, Switzerland
+  ["Berlin", "DE", "BE", 3700, ["柏林", "ベルリン", "베를린", "Берлин"]],
+  ["Munich", "DE", "BY", 1500, ["München", "Muenchen", "慕尼黑", "ミュンヘン"]],
+  ["Hamburg", "DE", "HH", 1850],
+  ["Frankfurt", "DE", "HE", 760, ["Frankfurt am Main", "Frankfurt a.M."]],
+  ["Cologne", "DE", "NW", 1080, ["Köln", "Koeln"]],
+  ["Stuttgart", "DE", "BW", 630],
+  ["Düsseldorf", "DE", "NW", 620, ["Duesseldorf"]],
+  ["Leipzig", "DE", "SN", 600],
+  ["Dresden", "DE", "SN", 560],
+  ["Karlsruhe", "DE", "BW", 310],
+  ["Heidelberg", "DE", "BW", 160],
+  ["Mannheim", "DE", "BW", 310],
+  ["Freiburg", "DE", "BW", 230, ["Freiburg im Breisgau"]],
+  ["Nuremberg", "DE", "BY", 520, ["Nürnberg", "Nuernberg"]],
+  ["Augsburg", "DE", "BY", 300],
+  ["Erlangen", "DE", "BY", 115],
+  ["Hanover", "DE", "NI", 535, ["Hannover"]],
+  ["Bremen", "DE", "HB", 570],
+  ["Bonn", "DE", "NW", 330],
+  ["Aachen", "DE", "NW", 250],
+  ["Dortmund", "DE", "NW", 590],
+  ["Essen", "DE", "NW", 580],
+  ["Münster", "DE", "NW", 315, ["Muenster"]],
+  ["Darmstadt", "DE", "HE", 160],
+  ["Potsdam", "DE", "BB", 180],
+  ["Kiel", "DE", "SH", 245],
+  ["Jena", "DE", "TH", 110],
+  ["Vienna", "AT", null, 1900, ["Wien", "维也纳", "ウィーン"]],
+  ["Graz", "AT", null, 290],
+  ["Linz", "AT", null, 210],
+  ["Salzburg", "AT", null, 155],
+  ["Innsbruck", "AT", null, 130],
+  ["Zurich", "CH", null, 420, ["Zürich", "Zuerich"]],
+  ["Geneva", "CH", null, 200, ["Genève", "Genf"]],
+  ["Basel", "CH", null, 175, ["Bâle"]],
+  ["Bern", "CH", null, 135, ["Berne"]],
+  ["Lausanne", "CH", null, 140],
+
+  // Western Europe
+  ["Paris", "FR", null, 2100, ["巴黎", "パリ", "파리", "Париж"]],
+  ["Lyon", "FR", null, 520],
+  ["Marseille", "FR", null, 870],
+  ["Toulouse", "FR", null, 490],
+  ["Bordeaux", "FR", null, 260],
+  ["Lille", "FR", null, 235],
+  ["Nantes", "FR", null, 320],
+  ["Nice", "FR", null, 340],
+  ["Grenoble", "FR", null, 160],
+  ["Montpellier", "FR", null, 300],
+  ["Rennes", "FR", null, 220],
+  ["Strasbourg", "FR", null, 290],
+  ["Amsterdam", "NL", null, 900, ["阿姆斯特丹"]],
+  ["Rotterdam", "NL", null, 650],
+  ["The Hague", "NL", null, 550, ["Den Haag", "'s-Gravenhage", "Hague"]],
+  ["Utrecht", "NL", null, 360],
+  ["Eindhoven", "NL", null, 235],
+  ["Delft", "NL", null, 105],
+  ["Leiden", "NL", null, 125],
+  ["Groningen", "NL", null, 235],
+  ["Brussels", "BE", null, 1200, ["Bruxelles", "Brussel"]],
+  ["Antwerp", "BE", null, 530, ["Antwerpen", "Anvers"]],
+  ["Ghent", "BE", null, 265, ["Gent", "Gand"]],
+  ["Leuven", "BE", null, 100, ["Louvain"]],
+  ["Madrid", "ES", null, 3300],
+  ["Barcelona", "ES", null, 1600],
+  ["Valencia", "ES", null, 800],
+  ["Seville", "ES", null, 690, ["Sevilla"]],
+  ["Málaga", "ES", null, 580],
+  ["Bilbao", "ES", null, 345],
+  ["Zaragoza", "ES", null, 675],
+  ["Lisbon", "PT", null, 545, ["Lisboa"]],
+  ["Porto", "PT", null, 230, ["Oporto"]],
+  ["Braga", "PT", null, 190],
+  ["Coimbra", "PT", null, 140],
+  ["Rome", "IT", null, 2800, ["Roma"]],
+  ["Milan", "IT", null, 1400, ["Milano"]],
+  ["Turin", "IT", null, 850, ["Torino"]],
+  ["Naples", "IT", null, 920, ["Napoli"]],
+  ["Bologna", "IT", null, 390],
+  ["Florence", "IT", null, 360, ["Firenze"]],
+  ["Pisa", "IT", null, 90],
+
+  // Northern Europe
+  ["Stockholm", "SE", null, 980],
+  ["Gothenburg", "SE", null, 600, ["Göteborg"]],
+  ["Malmö", "SE", null, 350],
+  ["Uppsala", "SE", null, 180],
+  ["Lund", "SE", null, 95],
+  ["Oslo", "NO", null, 700],
+  ["Bergen", "NO", null, 290],
+  ["Trondheim", "NO", null, 210],
+  ["Copenhagen", "DK", null, 650, ["København", "Kobenhavn"]],
+  ["Aarhus", "DK", null, 285, ["Århus"]],
+  ["Helsinki", "FI", null, 660],
+  ["Espoo", "FI", null, 300],
+  ["Tampere", "FI", null, 245],
+  ["Oulu", "FI", null, 210],
+  ["Reykjavík", "IS", null, 135],
+  ["Tallinn", "EE", null, 440],
+  ["Tartu", "EE", null, 95],
+  ["Riga", "LV", null, 610, ["Rīga"]],
+  ["Vilnius", "LT", null, 590],
+  ["Kaunas", "LT", null, 300],
+
+  // Central and Eastern Europe
+  ["Warsaw", "PL", null, 1800, ["Warszawa"]],
+  ["Kraków", "PL", null, 800, ["Cracow"]],
+  ["Wrocław", "PL", null, 640, ["Wroclaw"]],
+  ["Poznań", "PL", null, 540],
+  ["Gdańsk", "PL", null, 470],
+  ["Łódź", "PL", null, 670, ["Lodz"]],
+  ["Katowice", "PL", null, 290],
+  ["Prague", "CZ", null, 1300, ["Praha", "Prag"]],
+  ["Brno", "CZ", null, 380],
+  ["Bratislava", "SK", null, 475],
+  ["Budapest", "HU", null, 1700],
+  ["Bucharest", "RO", null, 1800, ["București", "Bucuresti"]],
+  ["Cluj-Napoca", "RO", null, 290, ["Cluj"]],
+  ["Iași", "RO", null, 270],
+  ["Timișoara", "RO", null, 250],
+  ["Sofia", "BG", null, 1250, ["София"]],
+  ["Plovdiv", "BG", null, 345, ["Пловдив"]],
+  ["Athens", "GR", null, 660, ["Athina", "Αθήνα"]],
+  ["Thessaloniki", "GR", null, 320, ["Θεσσαλονίκη"]],
+  ["Zagreb", "HR", null, 770],
+  ["Belgrade", "RS", null, 1200, ["Beograd", "Београд"]],
+  ["Novi Sad", "RS", null, 340, ["Нови Сад"]],
+  ["Ljubljana", "SI", null, 290],
+  ["Sarajevo", "BA", null, 275],
+  ["Skopje", "MK", null, 525, ["Скопје"]],
+  ["Tirana", "AL", null, 420, ["Tiranë"]],
+  ["Kyiv", "UA", null, 2900, ["Kiev", "Київ", "Киев"]],
+  ["Kharkiv", "UA", null, 1400, ["Kharkov", "Харків", "Харьков"]],
+  ["Lviv", "UA", null, 720, ["Lvov", "Львів", "Львов"]],
+  ["Odesa", "UA", null, 1000, ["Odessa", "Одеса", "Одесса"]],
+  ["Dnipro", "UA", null, 980, ["Dnipropetrovsk", "Дніпро", "Днепр"]],
+  ["Minsk", "BY", null, 2000, ["Мінск", "Минск"]],
+  ["Moscow", "RU", null, 12600, ["Moskva", "Москва", "莫斯科", "モスクワ"]],
+  ["Saint Petersburg", "RU", null, 5400, ["SPb", "Petersburg", "Санкт-Петербург", "Петербург", "СПб"]],
+  ["Novosibirsk", "RU", null, 1600, ["Новосибирск"]],
+  ["Yekaterinburg", "RU", null, 1500, ["Ekaterinburg", "Екатеринбург"]],
+  ["Kazan", "RU", null, 1300, ["Казань"]],
+  ["Nizhny Novgorod", "RU", null, 1250, ["Нижний Новгород"]],
+
+  // Middle East and Africa
+  ["Istanbul", "TR", null, 15500, ["İstanbul"]],
+  ["Ankara", "TR", null, 5600],
+  ["Izmir", "TR", null, 2900, ["İzmir"]],
+  ["Tel Aviv", "IL", null, 460, ["Tel Aviv-Yafo", "תל אביב"]],
+  ["Jerusalem", "IL", null, 950, ["ירושלים"]],
+  ["Haifa", "IL", null, 285, ["חיפה"]],
+  ["Herzliya", "IL", null, 100],
+  ["Dubai", "AE", null, 3500, ["دبي"]],
+  ["Abu Dhabi", "AE", null, 1500, ["أبو ظبي"]],
+  ["Riyadh", "SA", null, 7600, ["الرياض"]],
+  ["Jeddah", "SA", null, 3700, ["جدة"]],
+  ["Doha", "QA", null, 1200],
+  ["Amman", "JO", null, 4000, ["عمان"]],
+  ["Beirut", "LB", null, 2400, ["بيروت"]],
+  ["Baghdad", "IQ", null, 7000, ["بغداد"]],
+  ["Tehran", "IR", null, 8700, ["Teheran", "تهران"]],
+  ["Isfahan", "IR", null, 2000, ["اصفهان"]],
+  ["Shiraz", "IR", null, 1600, ["شیراز"]],
+  ["Mashhad", "IR", null, 3000, ["مشهد"]],
+  ["Nicosia", "CY", null, 200],
+  ["Limassol", "CY", null, 240],
+  ["Cairo", "EG", null, 10000, ["القاهرة"]],
+  ["Alexandria", "EG", null, 5200, ["الإسكندرية"]],
+  ["Casablanca", "MA", null, 3400],
+  ["Rabat", "MA", null, 580],
+  ["Tunis", "TN", null, 640],
+  ["Algiers", "DZ", null, 3400, ["Alger"]],
+  ["Lagos", "NG", null, 15000],
+  ["Abuja", "NG", null, 1200],
+  ["Nairobi", "KE", null, 4400],
+  ["Accra", "GH", null, 2500],
+  ["Addis Ababa", "ET", null, 3500],
+  ["Kigali", "RW", null, 1200],
+  ["Kampala", "UG", null, 1700],
+  ["Dar es Salaam", "TZ", null, 4400],
+  ["Dakar", "SN", null, 1100],
+  ["Cape Town", "ZA", null, 4700],
+  ["Johannesburg", "ZA", null, 5600, ["Joburg", "Jozi"]],
+  ["Pretoria", "ZA", null, 2500],
+  ["Durban", "ZA", null, 3900],
+
+  // South Asia
+  ["Bangalore", "IN", "KA", 8400, ["Bengaluru", "बेंगलुरु"]],
+  ["Mumbai", "IN", "MH", 12500, ["Bombay", "मुंबई"]],
+  ["Delhi", "IN", "DL", 16800, ["New Delhi", "नई दिल्ली", "दिल्ली"]],
+  ["Hyderabad", "IN", "TG", 6900, ["హైదరాబాద్"]],
+  ["Chennai", "IN", "TN", 7100, ["Madras", "சென்னை"]],
+  ["Pune", "IN", "MH", 3100, ["Poona"]],
+  ["Kolkata", "IN", "WB", 4500, ["Calcutta"]],
+  ["Ahmedabad", "IN", "GJ", 5600],
+  ["Surat", "IN", "GJ", 4500],
+  ["Noida", "IN", "UP", 640],
+  ["Lucknow", "IN", "UP", 2800],
+  ["Gurgaon", "IN", "HR", 880, ["Gurugram"]],
+  ["Jaipur", "IN", "RJ", 3000],
+  ["Kochi", "IN", "KL", 600, ["Cochin"]],
+  ["Thiruvananthapuram", "IN", "KL", 950, ["Trivandrum"]],
+  ["Indore", "IN", "MP", 2000],
+  ["Chandigarh", "IN", null, 1000],
+  ["Coimbatore", "IN", "TN", 1050],
+  ["Bhubaneswar", "IN", "OR", 840],
+  ["Mysore", "IN", "KA", 920, ["Mysuru"]],
+  ["Nagpur", "IN", "MH", 2400],
+  ["Visakhapatnam", "IN", "AP", 2000, ["Vizag"]],
+  ["Karachi", "PK", null, 14900, ["کراچی"]],
+  ["Lahore", "PK", null, 11100, ["لاہور"]],
+  ["Islamabad", "PK", null, 1000, ["اسلام آباد"]],
+  ["Rawalpindi", "PK", null, 2100],
+  ["Peshawar", "PK", null, 1970],
+  ["Faisalabad", "PK", null, 3200],
+  ["Dhaka", "BD", null, 8900, ["Dacca", "ঢাকা"]],
+  ["Chittagong", "BD", null, 2600, ["Chattogram", "চট্টগ্রাম"]],
+  ["Colombo", "LK", null, 750],
+  ["Kathmandu", "NP", null, 850, ["काठमाडौं"]],
+
+  // East Asia
+  ["Beijing", "CN", "BJ", 21500, ["Peking", "北京", "北京市"]],
+  ["Shanghai", "CN", "SH", 24000, ["上海", "上海市"]],
+  ["Shenzhen", "CN", "GD", 17500, ["深圳", "深圳市"]],
+  ["Guangzhou", "CN", "GD", 18700, ["Canton", "广州", "廣州"]],
+  ["Hangzhou", "CN", "ZJ", 12200, ["杭州"]],
+  ["Ningbo", "CN", "ZJ", 9400, ["宁波"]],
+  ["Chengdu", "CN", "SC", 20900, ["成都"]],
+  ["Wuhan", "CN", "HB", 12300, ["武汉"]],
+  ["Nanjing", "CN", "JS", 9300, ["南京"]],
+  ["Suzhou", "CN", "JS", 12700, ["苏州", "蘇州"]],
+  ["Xi'an", "CN", "SN", 12900, ["西安"]],
+  ["Tianjin", "CN", "TJ", 13900, ["天津"]],
+  ["Chongqing", "CN", "CQ", 32000, ["重庆"]],
+  ["Xiamen", "CN", "FJ", 5200, ["厦门"]],
+  ["Fuzhou", "CN", "FJ", 8300, ["福州"]],
+  ["Qingdao", "CN", "SD", 10000, ["青岛"]],
+  ["Jinan", "CN", "SD", 9200, ["济南"]],
+  ["Zhuhai", "CN", "GD", 2400, ["珠海"]],
+  ["Dongguan", "CN", "GD", 10500, ["东莞"]],
+  ["Hefei", "CN", null, 9400, ["合肥"]],
+  ["Changsha", "CN", null, 10000, ["长沙"]],
+  ["Dalian", "CN", null, 7400, ["大连"]],
+  ["Hong Kong", "HK", null, 7500, ["香港"]],
+  ["Taipei", "TW", null, 2600, ["Taipei City", "台北", "臺北"]],
+  ["New Taipei", "TW", null, 4000, ["New Taipei City", "新北"]],
+  ["Hsinchu", "TW", null, 450, ["新竹"]],
+  ["Taichung", "TW", null, 2800, ["台中", "臺中"]],
+  ["Tainan", "TW", null, 1860, ["台南", "臺南"]],
+  ["Kaohsiung", "TW", null, 2700, ["高雄"]],
+  ["Taoyuan", "TW", null, 2300, ["桃園", "桃园"]],
+  ["Tokyo", "JP", null, 14000, ["東京", "東京都", "东京", "Токио"]],
+  ["Osaka", "JP", null, 2750, ["大阪"]],
+  ["Kyoto", "JP", null, 1460, ["京都"]],
+  ["Yokohama", "JP", null, 3750, ["横浜"]],
+  ["Kawasaki", "JP", null, 1540, ["川崎"]],
+  ["Nagoya", "JP", null, 2300, ["名古屋"]],
+  ["Fukuoka", "JP", null, 1600, ["福岡"]],
+  ["Sapporo", "JP", null, 1970, ["札幌"]],
+  ["Kobe", "JP", null, 1500, ["神戸"]],
+  ["Sendai", "JP", null, 1100, ["仙台"]],
+  ["Tsukuba", "JP", null, 250, ["つくば"]],
+  ["Seoul", "KR", null, 9700, ["서울", "서울특별시", "首尔", "ソウル"]],
+  ["Busan", "KR", null, 3400, ["Pusan", "부산"]],
+  ["Incheon", "KR", null, 2950, ["인천"]],
+  ["Daejeon", "KR", null, 1450, ["대전"]],
+  ["Daegu", "KR", null, 2400, ["대구"]],
+  ["Gwangju", "KR", null, 1440, ["광주"]],
+  ["Suwon", "KR", null, 1200, ["수원"]],
+  ["Seongnam", "KR", null, 930, ["Pangyo", "성남", "판교"]],
+
+  // Southeast Asia and Oceania
+  ["Singapore", "SG", null, 5600, ["新加坡"]],
+  ["Ho Chi Minh City", "VN", null, 9000, ["Saigon", "HCMC", "Sài Gòn", "Thành phố Hồ Chí Minh", "TP HCM"]],
+  ["Hanoi", "VN", null, 8000, ["Hà Nội", "Ha Noi"]],
+  ["Da Nang", "VN", null, 1200, ["Danang", "Đà Nẵng"]],
+  ["Bangkok", "TH", null, 10500, ["Krung Thep", "กรุงเทพ", "กรุงเทพมหานคร"]],
+  ["Chiang Mai", "TH", null, 130, ["เชียงใหม่"]],
+  ["Kuala Lumpur", "MY", null, 1980, ["KL"]],
+  ["Penang", "MY", null, 720],
+  ["Cyberjaya", "MY", null, 100],
+  ["Jakarta", "ID", null, 10600],
+  ["Bandung", "ID", null, 2500],
+  ["Surabaya", "ID", null, 2900],
+  ["Yogyakarta", "ID", null, 420, ["Jogja", "Jogjakarta"]],
+  ["Denpasar", "ID", null, 725],
+  ["Manila", "PH", null, 1800],
+  ["Quezon City", "PH", null, 2960],
+  ["Makati", "PH", null, 630],
+  ["Cebu City", "PH", null, 960, ["Cebu"]],
+  ["Davao City", "PH", null, 1800, ["Davao"]],
+  ["Sydney", "AU", "NSW", 5300, ["悉尼", "シドニー"]],
+  ["Newcastle", "AU", "NSW", 320],
+  ["Melbourne", "AU", "VIC", 5100, ["墨尔本"]],
+  ["Brisbane", "AU", "QLD", 2600],
+  ["Gold Coast", "AU", "QLD", 700],
+  ["Perth", "AU", "WA", 2100],
+  ["Adelaide", "AU", "SA", 1400],
+  ["Canberra", "AU", "ACT", 460],
+  ["Hobart", "AU", "TAS", 250],
+  ["Darwin", "AU", "NT", 150],
+  ["Auckland", "NZ", null, 1700],
+  ["Wellington", "NZ", null, 215],
+  ["Christchurch", "NZ", null, 390],
+  ["Hamilton", "NZ", null, 180],
+  ["Dunedin", "NZ", null, 135],
+
+  // Latin America
+  ["São Paulo", "BR", "SP", 12300, ["Sampa"]],
+  ["Campinas", "BR", "SP", 1200],
+  ["Rio de Janeiro", "BR", "RJ", 6700, ["Rio"]],
+  ["Belo Horizonte", "BR", "MG", 2500, ["BH"]],
+  ["Brasília", "BR", "DF", 3000],
+  ["Porto Alegre", "BR", "RS", 1500, ["POA"]],
+  ["Curitiba", "BR", "PR", 1950],
+  ["Florianópolis", "BR", "SC", 540, ["Floripa"]],
+  ["Recife", "BR", "PE", 1650],
+  ["Salvador", "BR", "BA", 2900],
+  ["Fortaleza", "BR", "CE", 2700],
+  ["Manaus", "BR", null, 2200],
+  ["Buenos Aires", "AR", null, 3100, ["CABA", "Capital Federal"]],
+  ["Córdoba", "AR", null, 1400],
+  ["Rosario", "AR", null, 1200],
+  ["Mendoza", "AR", null, 115],
+  ["Santiago", "CL", null, 6300, ["Santiago de Chile"]],
+  ["Valparaíso", "CL", null, 300],
+  ["Bogotá", "CO", null, 7900],
+  ["Medellín", "CO", null, 2500],
+  ["Cali", "CO", null, 2200],
+  ["Lima", "PE", null, 9700],
+  ["Mexico City", "MX", null, 9200, ["CDMX", "Ciudad de México"]],
+  ["Guadalajara", "MX", null, 1400],
+  ["Monterrey", "MX", null, 1140],
+  ["Querétaro", "MX", null, 1000],
+  ["Puebla", "MX", null, 1700],
+  ["Tijuana", "MX", null, 1900],
+  ["Montevideo", "UY", null, 1300],
+  ["Caracas", "VE", null, 2000],
+  ["Quito", "EC", null, 2000],
+  ["Guayaquil", "EC", null, 2700],
+  ["Havana", "CU", null, 2100, ["La Habana"]],
+  ["Santo Domingo", "DO", null, 1000],
+  ["Guatemala City", "GT", null, 1000, ["Ciudad de Guatemala"]],
+  ["Panama City", "PA", null, 880, ["Ciudad de Panamá"]],
+  ["Asunción", "PY", null, 520],
+  ["La Paz", "BO", null, 800],
+  ["San Juan", "PR", null, 340],
+
+  // Central Asia and the Caucasus
+  ["Almaty", "KZ", null, 2000, ["Алматы"]],
+  ["Astana", "KZ", null, 1300, ["Nur-Sultan", "Астана"]],
+  ["Tashkent", "UZ", null, 2900, ["Toshkent", "Ташкент"]],
+  ["Tbilisi", "GE", null, 1200, ["თბილისი"]],
+  ["Yerevan", "AM", null, 1100, ["Երևան"]],
+  ["Baku", "AZ", null, 2300, ["Bakı"]],
+];
+
+export const CITIES: City[] = ROWS.map(([name, countryCode, region, population, aliases = []]) => ({
+  name,
+  countryCode,
+  regionCode: region ? `${countryCode}-${region}` : null,
+  population,
+  aliases,
+}));
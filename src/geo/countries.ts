@@ -0,0 +1,276 @@
+/**
+ * ISO 3166-1 countries. `name` is the display name stored in `country`; the
+ * repo has always written the United States and United Kingdom as "US" and
+ * "UK". `aliases` are other English, native and non-Latin names.
+ */
+
+export interface Country {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  aliases?: string[];
+}
+
+export const COUNTRIES: Country[] = [
+  { code: "AD", name: "Andorra" },
+  { code: "AE", name: "United Arab Emirates", aliases: ["UAE", "Emirates", "الإمارات"] },
+  { code: "AF", name: "Afghanistan" },
+  { code: "AG", name: "Antigua and Barbuda" },
+  { code: "AI", name: "Anguilla" },
+  { code: "AL", name: "Albania", aliases: ["Shqipëri", "Shqipëria"] },
+  { code: "AM", name: "Armenia", aliases: ["Հայաստան"] },
+  { code: "AO", name: "Angola" },
+  { code: "AQ", name: "Antarctica" },
+  { code: "AR", name: "Argentina" },
+  { code: "AS", name: "American Samoa" },
+  { code: "AT", name: "Austria", aliases: ["Österreich", "Oesterreich"] },
+  { code: "AU", name: "Australia", aliases: ["Aus", "Oz"] },
+  { code: "AW", name: "Aruba" },
+  { code: "AX", name: "Åland Islands", aliases: ["Aland Islands", "Åland"] },
+  { code: "AZ", name: "Azerbaijan", aliases: ["Azərbaycan"] },
+  { code: "BA", name: "Bosnia and Herzegovina", aliases: ["Bosnia", "Bosnia & Herzegovina", "BiH"] },
+  { code: "BB", name: "Barbados" },
+  { code: "BD", name: "Bangladesh", aliases: ["বাংলাদেশ"] },
+  { code: "BE", name: "Belgium", aliases: ["België", "Belgique", "Belgien"] },
+  { code: "BF", name: "Burkina Faso" },
+  { code: "BG", name: "Bulgaria", aliases: ["България"] },
+  { code: "BH", name: "Bahrain" },
+  { code: "BI", name: "Burundi" },
+  { code: "BJ", name: "Benin" },
+  { code: "BL", name: "Saint Barthélemy" },
+  { code: "BM", name: "Bermuda" },
+  { code: "BN", name: "Brunei", aliases: ["Brunei Darussalam"] },
+  { code: "BO", name: "Bolivia" },
+  { code: "BQ", name: "Caribbean Netherlands", aliases: ["Bonaire"] },
+  { code: "BR", name: "Brazil", aliases: ["Brasil"] },
+  { code: "BS", name: "Bahamas", aliases: ["The Bahamas"] },
+  { code: "BT", name: "Bhutan" },
+  { code: "BV", name: "Bouvet Island" },
+  { code: "BW", name: "Botswana" },
+  { code: "BY", name: "Belarus", aliases: ["Беларусь", "Belarús"] },
+  { code: "BZ", name: "Belize" },
+  { code: "CA", name: "Canada" },
+  { code: "CC", name: "Cocos (Keeling) Islands", aliases: ["Cocos Islands"] },
+  { code: "CD", name: "DR Congo", aliases: ["Democratic Republic of the Congo", "Congo-Kinshasa", "DRC"] },
+  { code: "CF", name: "Central African Republic" },
+  { code: "CG", name: "Republic of the Congo", aliases: ["Congo-Brazzaville", "Congo"] },
+  { code: "CH", name: "Switzerland", aliases: ["Schweiz", "Suisse", "Svizzera", "Swiss"] },
+  { code: "CI", name: "Ivory Coast", aliases: ["Côte d'Ivoire", "Cote d'Ivoire"] },
+  { code: "CK", name: "Cook Islands" },
+  { code: "CL", name: "Chile" },
+  { code: "CM", name: "Cameroon" },
+  {
+    code: "CN",
+    name: "China",
+    aliases: ["PRC", "People's Republic of China", "Mainland China", "中国", "中國", "中华人民共和国"],
+  },
+  { code: "CO", name: "Colombia" },
+  { code: "CR", name: "Costa Rica" },
+  { code: "CU", name: "Cuba" },
+  { code: "CV", name: "Cape Verde", aliases: ["Cabo Verde"] },
+  { code: "CW", name: "Curaçao", aliases: ["Curacao"] },
+  { code: "CX", name: "Christmas Island" },
+  { code: "CY", name: "Cyprus", aliases: ["Κύπρος"] },
+  { code: "CZ", name: "Czech Republic", aliases: ["Czechia", "Česko", "Česká republika", "Ceska republika"] },
+  { code: "DE", name: "Germany", aliases: ["Deutschland", "Allemagne", "Alemania"] },
+  { code: "DJ", name: "Djibouti" },
+  { code: "DK", name: "Denmark", aliases: ["Danmark"] },
+  { code: "DM", name: "Dominica" },
+  { code: "DO", name: "Dominican Republic", aliases: ["República Dominicana"] },
+  { code: "DZ", name: "Algeria", aliases: ["Algérie", "الجزائر"] },
+  { code: "EC", name: "Ecuador" },
+  { code: "EE", name: "Estonia", aliases: ["Eesti"] },
+  { code: "EG", name: "Egypt", aliases: ["مصر"] },
+  { code: "EH", name: "Western Sahara" },
+  { code: "ER", name: "Eritrea" },
+  { code: "ES", name: "Spain", aliases: ["España", "Espana", "Espanya"] },
+  { code: "ET", name: "Ethiopia" },
+  { code: "FI", name: "Finland", aliases: ["Suomi"] },
+  { code: "FJ", name: "Fiji" },
+  { code: "FK", name: "Falkland Islands" },
+  { code: "FM", name: "Micronesia" },
+  { code: "FO", name: "Faroe Islands", aliases: ["Føroyar"] },
+  { code: "FR", name: "France" },
+  { code: "GA", name: "Gabon" },
+  {
+    code: "GB",
+    name: "UK",
+    aliases: ["United Kingdom", "Great Britain", "Britain", "U.K.", "England", "Scotland", "Wales", "Northern Ireland"],
+  },
+  { code: "GD", name: "Grenada" },
+  { code: "GE", name: "Georgia", aliases: ["Sakartvelo", "საქართველო"] },
+  { code: "GF", name: "French Guiana" },
+  { code: "GG", name: "Guernsey" },
+  { code: "GH", name: "Ghana" },
+  { code: "GI", name: "Gibraltar" },
+  { code: "GL", name: "Greenland" },
+  { code: "GM", name: "Gambia", aliases: ["The Gambia"] },
+  { code: "GN", name: "Guinea" },
+  { code: "GP", name: "Guadeloupe" },
+  { code: "GQ", name: "Equatorial Guinea" },
+  { code: "GR", name: "Greece", aliases: ["Ελλάδα", "Hellas"] },
+  { code: "GS", name: "South Georgia and the South Sandwich Islands" },
+  { code: "GT", name: "Guatemala" },
+  { code: "GU", name: "Guam" },
+  { code: "GW", name: "Guinea-Bissau" },
+  { code: "GY", name: "Guyana" },
+  { code: "HK", name: "Hong Kong", aliases: ["香港", "HKSAR"] },
+  { code: "HM", name: "Heard Island and McDonald Islands" },
+  { code: "HN", name: "Honduras" },
+  { code: "HR", name: "Croatia", aliases: ["Hrvatska"] },
+  { code: "HT", name: "Haiti" },
+  { code: "HU", name: "Hungary", aliases: ["Magyarország", "Magyarorszag"] },
+  { code: "ID", name: "Indonesia" },
+  { code: "IE", name: "Ireland", aliases: ["Éire", "Eire", "Republic of Ireland"] },
+  { code: "IL", name: "Israel", aliases: ["ישראל"] },
+  { code: "IM", name: "Isle of Man" },
+  { code: "IN", name: "India", aliases: ["भारत", "Bharat"] },
+  { code: "IO", name: "British Indian Ocean Territory" },
+  { code: "IQ", name: "Iraq", aliases: ["العراق"] },
+  { code: "IR", name: "Iran", aliases: ["ایران", "Islamic Republic of Iran"] },
+  { code: "IS", name: "Iceland", aliases: ["Ísland"] },
+  { code: "IT", name: "Italy", aliases: ["Italia"] },
+  { code: "JE", name: "Jersey" },
+  { code: "JM", name: "Jamaica" },
+  { code: "JO", name: "Jordan", aliases: ["الأردن"] },
+  { code: "JP", name: "Japan", aliases: ["日本", "Nippon", "Nihon"] },
+  { code: "KE", name: "Kenya" },
+  { code: "KG", name: "Kyrgyzstan" },
+  { code: "KH", name: "Cambodia" },
+  { code: "KI", name: "Kiribati" },
+  { code: "KM", name: "Comoros" },
+  { code: "KN", name: "Saint Kitts and Nevis" },
+  { code: "KP", name: "North Korea", aliases: ["DPRK"] },
+  { code: "KR", name: "South Korea", aliases: ["Korea", "Republic of Korea", "대한민국", "한국", "Hanguk"] },
+  { code: "KW", name: "Kuwait" },
+  { code: "KY", name: "Cayman Islands" },
+  { code: "KZ", name: "Kazakhstan", aliases: ["Қазақстан", "Казахстан"] },
+  { code: "LA", name: "Laos" },
+  { code: "LB", name: "Lebanon", aliases: ["لبنان"] },
+  { code: "LC", name: "Saint Lucia" },
+  { code: "LI", name: "Liechtenstein" },
+  { code: "LK", name: "Sri Lanka", aliases: ["ශ්‍රී ලංකාව"] },
+  { code: "LR", name: "Liberia" },
+  { code: "LS", name: "Lesotho" },
+  { code: "LT", name: "Lithuania", aliases: ["Lietuva"] },
+  { code: "LU", name: "Luxembourg", aliases: ["Luxemburg"] },
+  { code: "LV", name: "Latvia", aliases: ["Latvija"] },
+  { code: "LY", name: "Libya" },
+  { code: "MA", name: "Morocco", aliases: ["Maroc", "المغرب"] },
+  { code: "MC", name: "Monaco" },
+  { code: "MD", name: "Moldova" },
+  { code: "ME", name: "Montenegro", aliases: ["Crna Gora"] },
+  { code: "MF", name: "Saint Martin" },
+  { code: "MG", name: "Madagascar" },
+  { code: "MH", name: "Marshall Islands" },
+  { code: "MK", name: "North Macedonia", aliases: ["Macedonia"] },
+  { code: "ML", name: "Mali" },
+  { code: "MM", name: "Myanmar", aliases: ["Burma"] },
+  { code: "MN", name: "Mongolia", aliases: ["Монгол"] },
+  { code: "MO", name: "Macau", aliases: ["Macao", "澳門", "澳门"] },
+  { code: "MP", name: "Northern Mariana Islands" },
+  { code: "MQ", name: "Martinique" },
+  { code: "MR", name: "Mauritania" },
+  { code: "MS", name: "Montserrat" },
+  { code: "MT", name: "Malta" },
+  { code: "MU", name: "Mauritius" },
+  { code: "MV", name: "Maldives" },
+  { code: "MW", name: "Malawi" },
+  { code: "MX", name: "Mexico", aliases: ["México"] },
+  { code: "MY", name: "Malaysia" },
+  { code: "MZ", name: "Mozambique" },
+  { code: "NA", name: "Namibia" },
+  { code: "NC", name: "New Caledonia" },
+  { code: "NE", name: "Niger" },
+  { code: "NF", name: "Norfolk Island" },
+  { code: "NG", name: "Nigeria" },
+  { code: "NI", name: "Nicaragua" },
+  { code: "NL", name: "Netherlands", aliases: ["The Netherlands", "Holland", "Nederland"] },
+  { code: "NO", name: "Norway", aliases: ["Norge", "Noreg"] },
+  { code: "NP", name: "Nepal", aliases: ["नेपाल"] },
+  { code: "NR", name: "Nauru" },
+  { code: "NU", name: "Niue" },
+  { code: "NZ", name: "New Zealand", aliases: ["Aotearoa"] },
+  { code: "OM", name: "Oman" },
+  { code: "PA", name: "Panama", aliases: ["Panamá"] },
+  { code: "PE", name: "Peru", aliases: ["Perú"] },
+  { code: "PF", name: "French Polynesia" },
+  { code: "PG", name: "Papua New Guinea" },
+  { code: "PH", name: "Philippines", aliases: ["Pilipinas"] },
+  { code: "PK", name: "Pakistan", aliases: ["پاکستان"] },
+  { code: "PL", name: "Poland", aliases: ["Polska"] },
+  { code: "PM", name: "Saint Pierre and Miquelon" },
+  { code: "PN", name: "Pitcairn Islands" },
+  { code: "PR", name: "Puerto Rico" },
+  { code: "PS", name: "Palestine", aliases: ["فلسطين"] },
+  { code: "PT", name: "Portugal" },
+  { code: "PW", name: "Palau" },
+  { code: "PY", name: "Paraguay" },
+  { code: "QA", name: "Qatar", aliases: ["قطر"] },
+  { code: "RE", name: "Réunion", aliases: ["Reunion"] },
+  { code: "RO", name: "Romania", aliases: ["România"] },
+  { code: "RS", name: "Serbia", aliases: ["Srbija", "Србија"] },
+  { code: "RU", name: "Russia", aliases: ["Russian Federation", "Россия", "Rossiya"] },
+  { code: "RW", name: "Rwanda" },
+  { code: "SA", name: "Saudi Arabia", aliases: ["KSA", "السعودية"] },
+  { code: "SB", name: "Solomon Islands" },
+  { code: "SC", name: "Seychelles" },
+  { code: "SD", name: "Sudan" },
+  { code: "SE", name: "Sweden", aliases: ["Sverige"] },
+  { code: "SG", name: "Singapore", aliases: ["新加坡", "Singapura"] },
+  { code: "SH", name: "Saint Helena" },
+  { code: "SI", name: "Slovenia", aliases: ["Slovenija"] },
+  { code: "SJ", name: "Svalbard and Jan Mayen" },
+  { code: "SK", name: "Slovakia", aliases: ["Slovensko"] },
+  { code: "SL", name: "Sierra Leone" },
+  { code: "SM", name: "San Marino" },
+  { code: "SN", name: "Senegal", aliases: ["Sénégal"] },
+  { code: "SO", name: "Somalia" },
+  { code: "SR", name: "Suriname" },
+  { code: "SS", name: "South Sudan" },
+  { code: "ST", name: "São Tomé and Príncipe", aliases: ["Sao Tome and Principe"] },
+  { code: "SV", name: "El Salvador" },
+  { code: "SX", name: "Sint Maarten" },
+  { code: "SY", name: "Syria", aliases: ["سوريا"] },
+  { code: "SZ", name: "Eswatini", aliases: ["Swaziland"] },
+  { code: "TC", name: "Turks and Caicos Islands" },
+  { code: "TD", name: "Chad" },
+  { code: "TF", name: "French Southern Territories" },
+  { code: "TG", name: "Togo" },
+  { code: "TH", name: "Thailand", aliases: ["ประเทศไทย", "ไทย"] },
+  { code: "TJ", name: "Tajikistan" },
+  { code: "TK", name: "Tokelau" },
+  { code: "TL", name: "Timor-Leste", aliases: ["East Timor"] },
+  { code: "TM", name: "Turkmenistan" },
+  { code: "TN", name: "Tunisia", aliases: ["Tunisie", "تونس"] },
+  { code: "TO", name: "Tonga" },
+  { code: "TR", name: "Turkey", aliases: ["Türkiye", "Turkiye"] },
+  { code: "TT", name: "Trinidad and Tobago" },
+  { code: "TV", name: "Tuvalu" },
+  { code: "TW", name: "Taiwan", aliases: ["Republic of China", "ROC", "台灣", "台湾", "臺灣"] },
+  { code: "TZ", name: "Tanzania" },
+  { code: "UA", name: "Ukraine", aliases: ["Україна", "Ukraina"] },
+  { code: "UG", name: "Uganda" },
+  { code: "UM", name: "United States Minor Outlying Islands" },
+  {
+    code: "US",
+    name: "US",
+    aliases: ["United States", "United States of America", "USA", "U.S.", "U.S.A.", "America", "美国", "アメリカ"],
+  },
+  { code: "UY", name: "Uruguay" },
+  { code: "UZ", name: "Uzbekistan", aliases: ["Oʻzbekiston", "Ozbekiston"] },
+  { code: "VA", name: "Vatican City", aliases: ["Holy See"] },
+  { code: "VC", name: "Saint Vincent and the Grenadines" },
+  { code: "VE", name: "Venezuela" },
+  { code: "VG", name: "British Virgin Islands" },
+  { code: "VI", name: "US Virgin Islands" },
+  { code: "VN", name: "Vietnam", aliases: ["Viet Nam", "Việt Nam"] },
+  { code: "VU", name: "Vanuatu" },
+  { code: "WF", name: "Wallis and Futuna" },
+  { code: "WS", name: "Samoa" },
+  { code: "XK", name: "Kosovo" },
+  { code: "YE", name: "Yemen" },
+  { code: "YT", name: "Mayotte" },
+  { code: "ZA", name: "South Africa", aliases: ["RSA"] },
+  { code: "ZM", name: "Zambia" },
+  { code: "ZW", name: "Zimbabwe" },
+];
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findCountry, geocodeLocation, locateInCountry, type GeoLocation } from "./geocode.js";
+
+function resolved(location: string): GeoLocation {
+  const result = geocodeLocation(location);
+  assert.equal(result.status, "resolved", `${location}: ${JSON.stringify(result)}`);
+  return (result as { location: GeoLocation }).location;
+}
+
+test("geocodeLocation reads city, state and country", () => {
+  assert.deepEqual(resolved("Philadelphia, PA"), {
+    city: "Philadelphia",
+    region: "Pennsylvania",
+    country: "US",
+    countryCode: "US",
+  });
+  assert.equal(resolved("Berlin, Germany").countryCode, "DE");
+  assert.equal(resolved("San Francisco CA").region, "California");
+});
+
+test("geocodeLocation settles a shared name with another piece", () => {
+  assert.equal(resolved("Vancouver, CA").region, "British Columbia");
+  assert.equal(resolved("Cambridge, MA").countryCode, "US");
+});
+
+test("geocodeLocation prefers a trailing US state over a foreign namesake", () => {
+  assert.deepEqual(resolved("Athens, GA"), { city: "Athens", region: "Georgia", country: "US", countryCode: "US" });
+  assert.deepEqual(resolved("Paris, TX"), { city: "Paris", region: "Texas", country: "US", countryCode: "US" });
+  assert.deepEqual(resolved("Moscow, ID"), { city: "Moscow", region: "Idaho", country: "US", countryCode: "US" });
+  // A state code that is also the country of the city still means that country
+  assert.equal(resolved("Berlin, DE").countryCode, "DE");
+  assert.equal(resolved("Jakarta, ID").countryCode, "ID");
+});
+
+test("geocodeLocation leaves places in several countries ambiguous", () => {
+  const result = geocodeLocation("Georgia");
+  assert.equal(result.status, "ambiguous");
+  const codes = (result as { candidates: GeoLocation[] }).candidates.map((c) => c.countryCode).sort();
+  assert.deepEqual(codes, ["GE", "US"]);
+});
+
+test("geocodeLocation ignores placeholders and unknown text", () => {
+  assert.deepEqual(geocodeLocation("Remote"), { status: "unknown" });
+  assert.deepEqual(geocodeLocation("Planet Earth"), { status: "unknown" });
+  assert.deepEqual(geocodeLocation(""), { status: "unknown" });
+  assert.deepEqual(geocodeLocation(null), { status: "unknown" });
+});
+
+test("geocodeLocation only reads lowercase two-letter codes after a separator", () => {
+  assert.deepEqual(geocodeLocation("in"), { status: "unknown" });
+  assert.equal(resolved("Chennai, in").countryCode, "IN");
+  assert.equal(resolved("SG").countryCode, "SG");
+});
+
+test("geocodeLocation reads native scripts, flags and extra words", () => {
+  assert.equal(resolved("中国北京").countryCode, "CN");
+  assert.equal(resolved("🇫🇷").countryCode, "FR");
+  assert.equal(resolved("Berlin/Remote").city, "Berlin");
+  assert.equal(resolved("Based in Lisbon").countryCode, "PT");
+});
+
+test("locateInCountry narrows an ambiguous location to the given country", () => {
+  assert.equal(locateInCountry("Cambridge", "UK")?.region, "England");
+  assert.deepEqual(locateInCountry("Somewhere", "Germany"), { city: null, region: null, country: "Germany", countryCode: "DE" });
+  assert.equal(locateInCountry("Berlin", null), null);
+});
+
+test("findCountry accepts names, aliases and codes in any case", () => {
+  assert.equal(findCountry("Deutschland")?.code, "DE");
+  assert.equal(findCountry("usa")?.name, "US");
+  assert.equal(findCountry("jp")?.code, "JP");
+  assert.equal(findCountry("Atlantis"), null);
+});
@@ -0,0 +1,366 @@
+import { CITIES } from "./cities.js";
+import { COUNTRIES, type Country } from "./countries.js";
+import { ABBREVIATED_COUNTRIES, REGIONS } from "./regions.js";
+
+/**
+ * Offline geocoding of the free-text GitHub `location` field ("Philadelphia,
+ * PA", "SF Bay Area", "Berlin/Remote", "東京都渋谷区") against the bundled
+ * gazetteer. A location that fits places in more than one country comes back
+ * as ambiguous, with its candidates, so the caller can decide with more context.
+ */
+
+export interface GeoLocation {
+  city: string | null;
+  region: string | null; // state, province or nation
+  country: string; // display name, "US"/"UK" for the United States/United Kingdom
+  countryCode: string; // ISO 3166-1 alpha-2
+}
+
+export type GeocodeResult =
+  | { status: "resolved"; location: GeoLocation }
+  | { status: "ambiguous"; candidates: GeoLocation[] }
+  | { status: "unknown" };
+
+export interface GeocodeOptions {
+  countryCode?: string | null; // only consider places in this country, e.g. one picked by the LLM
+}
+
+interface Place {
+  kind: "city" | "region" | "country";
+  city: string | null;
+  regionCode: string | null;
+  countryCode: string;
+  population: number; // thousands, cities only
+}
+
+interface Segment {
+  text: string;
+  places: Place[];
+}
+
+const SPECIFICITY: Record<Place["kind"], number> = { country: 0, region: 1, city: 2 };
+
+// A city this many times bigger than a namesake is taken to be the one meant
+const DOMINANCE = 5;
+
+// Locations that are not places
+const NOISE = new Set([
+  "remote",
+  "remotely",
+  "fully remote",
+  "remote first",
+  "hybrid",
+  "wfh",
+  "distributed",
+  "earth",
+  "planet earth",
+  "world",
+  "the world",
+  "worldwide",
+  "global",
+  "globe",
+  "internet",
+  "the internet",
+  "online",
+  "cyberspace",
+  "cloud",
+  "the cloud",
+  "everywhere",
+  "anywhere",
+  "somewhere",
+  "nowhere",
+  "here",
+  "home",
+  "localhost",
+  "127001",
+  "nomad",
+  "digital nomad",
+  "universe",
+  "milky way",
+  "mars",
+  "moon",
+]);
+
+// Scripts written without spaces between words, where names are found by substring
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+const SEPARATORS = /[,/\\|;·•→()[\]{}\n]+|\s+[-–—]+\s+/;
+
+const COUNTRY_BY_CODE = new Map(COUNTRIES.map((country) => [country.code, country]));
+const REGION_BY_CODE = new Map(REGIONS.map((region) => [region.code, region]));
+
+let index: Map<string, Place[]> | null = null;
+let unspacedKeys: string[] = []; // index keys in unspaced scripts, longest first
+
+/**
+ * Lowercase, strip accents and punctuation so "St. Louis", "Saint Louis" and
+ * "Zürich"/"Zurich" meet.
+ */
+function normalizePlace(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/[-_]+/g, " ")
+    .replace(/\bsaint\b/g, "st")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function getIndex(): Map<string, Place[]> {
+  if (index) return index;
+  const built = new Map<string, Place[]>();
+  const add = (name: string, place: Place) => {
+    const key = normalizePlace(name);
+    if (!key) return;
+    const places = built.get(key) ?? [];
+    if (!places.includes(place)) places.push(place);
+    built.set(key, places);
+  };
+
+  for (const country of COUNTRIES) {
+    const place: Place = { kind: "country", city: null, regionCode: null, countryCode: country.code, population: 0 };
+    for (const name of [country.code, country.name, ...(country.aliases ?? [])]) add(name, place);
+  }
+  for (const region of REGIONS) {
+    const countryCode = region.code.slice(0, 2);
+    const place: Place = { kind: "region", city: null, regionCode: region.code, countryCode, population: 0 };
+    const abbreviation = ABBREVIATED_COUNTRIES.has(countryCode) ? [region.code.slice(3)] : [];
+    for (const name of [region.name, ...(region.aliases ?? []), ...abbreviation]) add(name, place);
+  }
+  for (const city of CITIES) {
+    const place: Place = {
+      kind: "city",
+      city: city.name,
+      regionCode: city.regionCode,
+      countryCode: city.countryCode,
+      population: city.population,
+    };
+    for (const name of [city.name, ...city.aliases]) add(name, place);
+  }
+
+  index = built;
+  unspacedKeys = [...built.keys()].filter((key) => UNSPACED_SCRIPT.test(key)).sort((a, b) => b.length - a.length);
+  return built;
+}
+
+/**
+ * Places a piece of a location could be. Two-letter codes collide with
+ * ordinary words ("in", "it", "no"), so on their own they only count when
+ * written in capitals ("SG"); after a comma ("Chennai, in") they always do.
+ */
+function lookup(text: string, strict: boolean): Place[] {
+  const key = normalizePlace(text);
+  if (!key || NOISE.has(key)) return [];
+  if (key.length <= 2 && strict && !/^[A-Z]{2}$/.test(text.replace(/\./g, "").trim())) return [];
+
+  const places = getIndex().get(key);
+  if (places) return places;
+
+  // "Greater Boston", "Seattle Metro Area"
+  const trimmed = key.replace(/^greater /, "").replace(/ (metropolitan area|metro area|metro|area|region)$/, "");
+  return trimmed !== key ? (getIndex().get(trimmed) ?? []) : [];
+}
+
+/**
+ * Match one separated piece of the location, splitting it further when it is
+ * several names run together: "San Francisco CA", "Berlin remote", "中国北京".
+ */
+function matchSegment(text: string, strict: boolean): Segment[] {
+  const places = lookup(text, strict);
+  if (places.length > 0) return [{ text, places }];
+  if (NOISE.has(normalizePlace(text))) return [];
+
+  if (UNSPACED_SCRIPT.test(text)) {
+    const found: Array<Segment & { at: number }> = [];
+    let rest = normalizePlace(text);
+    for (const key of unspacedKeys) {
+      const at = rest.indexOf(key);
+      if (at < 0) continue;
+      found.push({ text: key, places: getIndex().get(key)!, at });
+      rest = rest.slice(0, at) + " ".repeat(key.length) + rest.slice(at + key.length);
+    }
+    return found.sort((a, b) => a.at - b.at).map(({ text, places }) => ({ text, places }));
+  }
+
+  const words = text.split(/\s+/);
+  for (let i = words.length - 1; i > 0; i--) {
+    const head = words.slice(0, i).join(" ");
+    const tail = words.slice(i).join(" ");
+    if (NOISE.has(normalizePlace(tail))) return matchSegment(head, strict);
+    if (NOISE.has(normalizePlace(head))) return matchSegment(tail, strict);
+
+    const tailPlaces = lookup(tail, true).filter((place) => place.kind !== "city");
+    if (tailPlaces.length > 0) return [...matchSegment(head, strict), { text: tail, places: tailPlaces }];
+  }
+  return [{ text, places: [] }];
+}
+
+function segmentsOf(location: string): Segment[] {
+  // Flag emoji name their country outright
+  const flags: Segment[] = [];
+  const text = location
+    .replace(/[\u{1F1E6}-\u{1F1FF}]{2}/gu, (flag) => {
+      const code = [...flag].map((c) => String.fromCharCode(c.codePointAt(0)! - 0x1f1e6 + 65)).join("");
+      if (COUNTRY_BY_CODE.has(code)) {
+        flags.push({
+          text: flag,
+          places: [{ kind: "country", city: null, regionCode: null, countryCode: code, population: 0 }],
+        });
+      }
+      return ",";
+    })
+    .replace(/[\p{Extended_Pictographic}\u{FE0F}\u{200D}\u{E0020}-\u{E007F}]/gu, " ");
+
+  const pieces = text
+    .split(SEPARATORS)
+    .map((piece) =>
+      piece
+        .replace(/^(?:(?:currently|now)\s+)?(?:based|living|located|residing)\s+(?:in|at)\s+/i, "")
+        .replace(/^(?:from|in)\s+/i, "")
+        .trim()
+    )
+    .filter((piece) => piece.length > 0);
+
+  return [...pieces.flatMap((piece, i) => matchSegment(piece, i === 0)), ...flags];
+}
+
+function compatible(a: Place, b: Place): boolean {
+  return a.countryCode === b.countryCode && (!a.regionCode || !b.regionCode || a.regionCode === b.regionCode);
+}
+
+function toLocation(place: Place): GeoLocation {
+  return {
+    city: place.city,
+    region: place.regionCode ? (REGION_BY_CODE.get(place.regionCode)?.name ?? null) : null,
+    country: COUNTRY_BY_CODE.get(place.countryCode)!.name,
+    countryCode: place.countryCode,
+  };
+}
+
+/**
+ * The US state a trailing two-letter piece abbreviates, as in "Athens, GA" or
+ * "Paris TX". Many US towns share a name with a foreign city the gazetteer
+ * knows, and the abbreviation says which one is meant.
+ */
+function trailingUsState(segments: Segment[]): Place | null {
+  if (segments.length < 2) return null;
+  const last = segments[segments.length - 1];
+  const code = last.text.replace(/\./g, "").trim().toUpperCase();
+  if (!/^[A-Z]{2}$/.test(code)) return null;
+  return last.places.find((place) => place.kind === "region" && place.regionCode === `US-${code}`) ?? null;
+}
+
+// A leading piece the gazetteer does not know, before a known region or country, is taken as the city
+function looksLikeCity(text: string): boolean {
+  const words = text.split(/\s+/);
+  return words.length <= 3 && words.every((word) => /^[\p{Lu}\p{Lo}][\p{L}\p{M}'-]*$/u.test(word));
+}
+
+/**
+ * Parse a free-text location into city, region and country. Each piece is
+ * matched against the gazetteer, and the reading that agrees with the most
+ * other pieces wins: "Vancouver, CA" is Vancouver, British Columbia because
+ * only Canada fits both, while "Georgia" alone is ambiguous.
+ */
+export function geocodeLocation(location: string | null | undefined, options: GeocodeOptions = {}): GeocodeResult {
+  if (!location || !location.trim()) return { status: "unknown" };
+
+  const pieces = segmentsOf(location);
+  const segments = pieces.map((segment) => ({
+    ...segment,
+    places: options.countryCode
+      ? segment.places.filter((place) => place.countryCode === options.countryCode)
+      : segment.places,
+  }));
+  const matched = segments.filter((segment) => segment.places.length > 0);
+  if (matched.length === 0) return { status: "unknown" };
+
+  const scored = matched.flatMap((segment, i) =>
+    segment.places.map((place) => ({
+      place,
+      segment: i,
+      agreement: matched.filter((other, j) => j !== i && other.places.some((o) => compatible(place, o))).length,
+    }))
+  );
+  const best = Math.max(...scored.map((entry) => entry.agreement));
+  let top = scored.filter((entry) => entry.agreement === best);
+
+  // When no reading agrees with another piece, a trailing US state abbreviation
+  // outranks a foreign city of the same name: "Athens, GA" is in Georgia, not Greece
+  const state = best === 0 ? trailingUsState(segments) : null;
+  if (state) {
+    const city = segments[0].places.every((place) => place.kind === "city") && looksLikeCity(segments[0].text);
+    return { status: "resolved", location: { ...toLocation(state), city: city ? segments[0].text : null } };
+  }
+
+  const cities = top.filter((entry) => entry.place.kind === "city").sort((a, b) => b.place.population - a.place.population);
+  if (cities.length > 1 && cities[0].place.population >= DOMINANCE * cities[1].place.population) {
+    top = top.filter((entry) => entry.place.kind !== "city" || entry === cities[0]);
+  }
+
+  const countries = new Set(top.map((entry) => entry.place.countryCode));
+  if (countries.size > 1) {
+    const seen = new Set<string>();
+    const candidates = top
+      .map((entry) => toLocation(entry.place))
+      .filter((candidate) => {
+        const key = JSON.stringify(candidate);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    return { status: "ambiguous", candidates };
+  }
+
+  // The most specific place from the earliest piece: "Berlin/Munich" is Berlin
+  const specificity = Math.max(...top.map((entry) => SPECIFICITY[entry.place.kind]));
+  const mostSpecific = top.filter((entry) => SPECIFICITY[entry.place.kind] === specificity);
+  const chosen = mostSpecific.reduce((first, entry) => (entry.segment < first.segment ? entry : first));
+
+  // Namesakes within the one country ("Washington" the city or the state) only settle the country
+  const conflicting = top.some((entry) => entry.segment === chosen.segment && !compatible(entry.place, chosen.place));
+  if (conflicting) {
+    const country = COUNTRY_BY_CODE.get(chosen.place.countryCode)!;
+    return { status: "resolved", location: { city: null, region: null, country: country.name, countryCode: country.code } };
+  }
+
+  const resolved = toLocation(chosen.place);
+  if (!resolved.city && pieces[0].places.length === 0 && looksLikeCity(pieces[0].text)) {
+    resolved.city = pieces[0].text;
+  }
+  return { status: "resolved", location: resolved };
+}
+
+/**
+ * City, region and country code to go with a country already settled, e.g.
+ * by the LLM. The location is geocoded within that country, which settles an
+ * ambiguous one ("Cambridge" with UK); otherwise only the country is known.
+ */
+export function locateInCountry(location: string | null | undefined, country: string | null | undefined): GeoLocation | null {
+  const found = findCountry(country);
+  if (!found) return null;
+
+  const geocoded = geocodeLocation(location, { countryCode: found.code });
+  if (geocoded.status === "resolved") return geocoded.location;
+  return { city: null, region: null, country: found.name, countryCode: found.code };
+}
+
+/**
+ * The country a name, alias or ISO code refers to. Unlike geocodeLocation,
+ * two-letter codes are accepted in any case: this is for values already known
+ * to be countries, such as the LLM's answer.
+ */
+export function findCountry(text: string | null | undefined): Country | null {
+  if (!text) return null;
+  const key = normalizePlace(text);
+  if (!key) return null;
+
+  const byCode = /^[a-z]{2}$/.test(key) ? COUNTRY_BY_CODE.get(key.toUpperCase()) : undefined;
+  if (byCode) return byCode;
+
+  const place = getIndex().get(key)?.find((candidate) => candidate.kind === "country");
+  return place ? COUNTRY_BY_CODE.get(place.countryCode)! : null;
+}
@@ -0,0 +1,11 @@
+export {
+  geocodeLocation,
+  locateInCountry,
+  findCountry,
+  type GeoLocation,
+  type GeocodeOptions,
+  type GeocodeResult,
+} from "./geocode.js";
+export { COUNTRIES, type Country } from "./countries.js";
+export { REGIONS, type Region } from "./regions.js";
+export { CITIES, type City } from "./cities.js";
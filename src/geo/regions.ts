@@ -0,0 +1,162 @@
+/**
+ * First-level subdivisions (states, provinces, nations) that show up in
+ * GitHub locations. Codes are ISO 3166-2. In countries where people write
+ * the short form ("Austin, TX", "Toronto, ON"), the part after the dash is
+ * also matched as an abbreviation.
+ */
+
+export interface Region {
+  code: string; // ISO 3166-2, e.g. "US-CA"
+  name: string;
+  aliases?: string[];
+}
+
+// Countries whose region codes double as everyday abbreviations
+export const ABBREVIATED_COUNTRIES = new Set(["US", "CA", "AU", "BR"]);
+
+export const REGIONS: Region[] = [
+  // United States
+  { code: "US-AL", name: "Alabama" },
+  { code: "US-AK", name: "Alaska" },
+  { code: "US-AZ", name: "Arizona" },
+  { code: "US-AR", name: "Arkansas" },
+  { code: "US-CA", name: "California", aliases: ["Calif", "Cali", "加州", "カリフォルニア"] },
+  { code: "US-CO", name: "Colorado" },
+  { code: "US-CT", name: "Connecticut" },
+  { code: "US-DE", name: "Delaware" },
+  { code: "US-DC", name: "District of Columbia" },
+  { code: "US-FL", name: "Florida" },
+  { code: "US-GA", name: "Georgia" },
+  { code: "US-HI", name: "Hawaii" },
+  { code: "US-ID", name: "Idaho" },
+  { code: "US-IL", name: "Illinois" },
+  { code: "US-IN", name: "Indiana" },
+  { code: "US-IA", name: "Iowa" },
+  { code: "US-KS", name: "Kansas" },
+  { code: "US-KY", name: "Kentucky" },
+  { code: "US-LA", name: "Louisiana" },
+  { code: "US-ME", name: "Maine" },
+  { code: "US-MD", name: "Maryland" },
+  { code: "US-MA", name: "Massachusetts", aliases: ["Mass"] },
+  { code: "US-MI", name: "Michigan" },
+  { code: "US-MN", name: "Minnesota" },
+  { code: "US-MS", name: "Mississippi" },
+  { code: "US-MO", name: "Missouri" },
+  { code: "US-MT", name: "Montana" },
+  { code: "US-NE", name: "Nebraska" },
+  { code: "US-NV", name: "Nevada" },
+  { code: "US-NH", name: "New Hampshire" },
+  { code: "US-NJ", name: "New Jersey" },
+  { code: "US-NM", name: "New Mexico" },
+  { code: "US-NY", name: "New York", aliases: ["New York State", "NYS"] },
+  { code: "US-NC", name: "North Carolina" },
+  { code: "US-ND", name: "North Dakota" },
+  { code: "US-OH", name: "Ohio" },
+  { code: "US-OK", name: "Oklahoma" },
+  { code: "US-OR", name: "Oregon" },
+  { code: "US-PA", name: "Pennsylvania" },
+  { code: "US-RI", name: "Rhode Island" },
+  { code: "US-SC", name: "South Carolina" },
+  { code: "US-SD", name: "South Dakota" },
+  { code: "US-TN", name: "Tennessee" },
+  { code: "US-TX", name: "Texas" },
+  { code: "US-UT", name: "Utah" },
+  { code: "US-VT", name: "Vermont" },
+  { code: "US-VA", name: "Virginia" },
+  { code: "US-WA", name: "Washington", aliases: ["Washington State"] },
+  { code: "US-WV", name: "West Virginia" },
+  { code: "US-WI", name: "Wisconsin" },
+  { code: "US-WY", name: "Wyoming" },
+
+  // Canada
+  { code: "CA-AB", name: "Alberta" },
+  { code: "CA-BC", name: "British Columbia" },
+  { code: "CA-MB", name: "Manitoba" },
+  { code: "CA-NB", name: "New Brunswick" },
+  { code: "CA-NL", name: "Newfoundland and Labrador", aliases: ["Newfoundland"] },
+  { code: "CA-NS", name: "Nova Scotia" },
+  { code: "CA-NT", name: "Northwest Territories" },
+  { code: "CA-NU", name: "Nunavut" },
+  { code: "CA-ON", name: "Ontario" },
+  { code: "CA-PE", name: "Prince Edward Island", aliases: ["PEI"] },
+  { code: "CA-QC", name: "Quebec", aliases: ["Québec"] },
+  { code: "CA-SK", name: "Saskatchewan" },
+  { code: "CA-YT", name: "Yukon" },
+
+  // Australia
+  { code: "AU-NSW", name: "New South Wales" },
+  { code: "AU-VIC", name: "Victoria" },
+  { code: "AU-QLD", name: "Queensland" },
+  { code: "AU-WA", name: "Western Australia" },
+  { code: "AU-SA", name: "South Australia" },
+  { code: "AU-TAS", name: "Tasmania" },
+  { code: "AU-ACT", name: "Australian Capital Territory" },
+  { code: "AU-NT", name: "Northern Territory" },
+
+  // Brazil
+  { code: "BR-SP", name: "São Paulo" },
+  { code: "BR-RJ", name: "Rio de Janeiro" },
+  { code: "BR-MG", name: "Minas Gerais" },
+  { code: "BR-RS", name: "Rio Grande do Sul" },
+  { code: "BR-PR", name: "Paraná" },
+  { code: "BR-SC", name: "Santa Catarina" },
+  { code: "BR-DF", name: "Distrito Federal" },
+  { code: "BR-BA", name: "Bahia" },
+  { code: "BR-PE", name: "Pernambuco" },
+  { code: "BR-CE", name: "Ceará" },
+
+  // United Kingdom
+  { code: "GB-ENG", name: "England" },
+  { code: "GB-SCT", name: "Scotland" },
+  { code: "GB-WLS", name: "Wales", aliases: ["Cymru"] },
+  { code: "GB-NIR", name: "Northern Ireland" },
+
+  // Germany
+  { code: "DE-BW", name: "Baden-Württemberg" },
+  { code: "DE-BY", name: "Bavaria", aliases: ["Bayern"] },
+  { code: "DE-BE", name: "Berlin" },
+  { code: "DE-BB", name: "Brandenburg" },
+  { code: "DE-HB", name: "Bremen" },
+  { code: "DE-HH", name: "Hamburg" },
+  { code: "DE-HE", name: "Hesse", aliases: ["Hessen"] },
+  { code: "DE-MV", name: "Mecklenburg-Vorpommern" },
+  { code: "DE-NI", name: "Lower Saxony", aliases: ["Niedersachsen"] },
+  { code: "DE-NW", name: "North Rhine-Westphalia", aliases: ["Nordrhein-Westfalen", "NRW"] },
+  { code: "DE-RP", name: "Rhineland-Palatinate", aliases: ["Rheinland-Pfalz"] },
+  { code: "DE-SL", name: "Saarland" },
+  { code: "DE-SN", name: "Saxony", aliases: ["Sachsen"] },
+  { code: "DE-ST", name: "Saxony-Anhalt", aliases: ["Sachsen-Anhalt"] },
+  { code: "DE-SH", name: "Schleswig-Holstein" },
+  { code: "DE-TH", name: "Thuringia", aliases: ["Thüringen"] },
+
+  // India
+  { code: "IN-KA", name: "Karnataka" },
+  { code: "IN-MH", name: "Maharashtra" },
+  { code: "IN-TN", name: "Tamil Nadu" },
+  { code: "IN-TG", name: "Telangana" },
+  { code: "IN-DL", name: "Delhi", aliases: ["NCR", "Delhi NCR"] },
+  { code: "IN-UP", name: "Uttar Pradesh" },
+  { code: "IN-WB", name: "West Bengal" },
+  { code: "IN-GJ", name: "Gujarat" },
+  { code: "IN-KL", name: "Kerala" },
+  { code: "IN-RJ", name: "Rajasthan" },
+  { code: "IN-HR", name: "Haryana" },
+  { code: "IN-AP", name: "Andhra Pradesh" },
+  { code: "IN-PB", name: "Punjab" },
+  { code: "IN-MP", name: "Madhya Pradesh" },
+  { code: "IN-OR", name: "Odisha", aliases: ["Orissa"] },
+
+  // China
+  { code: "CN-BJ", name: "Beijing", aliases: ["北京"] },
+  { code: "CN-SH", name: "Shanghai", aliases: ["上海"] },
+  { code: "CN-TJ", name: "Tianjin", aliases: ["天津"] },
+  { code: "CN-CQ", name: "Chongqing", aliases: ["重庆"] },
+  { code: "CN-GD", name: "Guangdong", aliases: ["广东", "廣東"] },
+  { code: "CN-ZJ", name: "Zhejiang", aliases: ["浙江"] },
+  { code: "CN-JS", name: "Jiangsu", aliases: ["江苏", "江蘇"] },
+  { code: "CN-SC", name: "Sichuan", aliases: ["四川"] },
+  { code: "CN-HB", name: "Hubei", aliases: ["湖北"] },
+  { code: "CN-SN", name: "Shaanxi", aliases: ["陕西"] },
+  { code: "CN-FJ", name: "Fujian", aliases: ["福建"] },
+  { code: "CN-SD", name: "Shandong", aliases: ["山东"] },
+];
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, verify } from "crypto";
+import { createAppJwt, GitHubAppAuth } from "./app-auth.js";
+import { startMockGitHubServer } from "./mock/server.js";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const PRIVATE_KEY_PEM = privateKey.export({ type: "pkcs1", format: "pem" }).toString();
+
+function decodeJwt(jwt: string): { payload: Record<string, unknown>; valid: boolean } {
+  const [header, payload, signature] = jwt.split(".");
+  return {
+    payload: JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")),
+    valid: verify("RSA-SHA256", Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, "base64url")),
+  };
+}
+
+test("createAppJwt signs a backdated JWT issued by the app", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+  const { payload, valid } = decodeJwt(createAppJwt("12345", PRIVATE_KEY_PEM, now));
+
+  assert.equal(valid, true);
+  assert.equal(payload.iss, "12345");
+  assert.equal(payload.iat, now / 1000 - 60);
+  assert.equal(payload.exp, now / 1000 - 60 + 9 * 60);
+});
+
+test("GitHubAppAuth exchanges a JWT and refreshes the token before it expires", async (t) => {
+  t.mock.method(console, "log", () => {});
+  const server = await startMockGitHubServer({ stargazers: {}, users: [] });
+  t.after(() => server.close());
+
+  let clock = Date.now();
+  const authorizations: string[] = [];
+  const auth = new GitHubAppAuth({
+    appId: "12345",
+    privateKey: PRIVATE_KEY_PEM,
+    installationId: "678",
+    baseUrl: server.url,
+    now: () => clock,
+    fetch: (input, init) => {
+      authorizations.push(new Headers(init?.headers).get("Authorization") ?? "");
+      return fetch(input, init);
+    },
+  });
+
+  // Concurrent callers share one exchange, and the token is cached
+  const tokens = await Promise.all([auth.getToken(), auth.getToken()]);
+  assert.deepEqual(tokens, ["ghs_mock_678", "ghs_mock_678"]);
+  clock += 50 * 60 * 1000;
+  await auth.getToken();
+  assert.equal(server.requests.length, 1);
+  assert.equal(server.requests[0], "POST /app/installations/678/access_tokens");
+
+  const { payload, valid } = decodeJwt(authorizations[0].replace(/^Bearer /, ""));
+  assert.equal(valid, true);
+  assert.equal(payload.iss, "12345");
+
+  // Within five minutes of the hour-long token expiring, a new one is fetched
+  clock += 6 * 60 * 1000;
+  assert.equal(await auth.getToken(), "ghs_mock_678");
+  assert.equal(server.requests.length, 2);
+});
+
+test("GitHubAppAuth reports a rejected exchange", async () => {
+  const auth = new GitHubAppAuth({
+    appId: "12345",
+    privateKey: PRIVATE_KEY_PEM,
+    installationId: "678",
+    fetch: async () => new Response(JSON.stringify({ message: "Bad credentials" }), { status: 401, statusText: "Unauthorized" }),
+  });
+
+  await assert.rejects(auth.getToken(), /GitHub App token exchange failed: 401 Unauthorized/);
+});
@@ -0,0 +1,104 @@
+import { createPrivateKey, sign } from "crypto";
+import { readFileSync } from "fs";
+import type { TokenSource } from "./token-pool.js";
+
+/**
+ * GitHub App authentication. The app's private key signs a short-lived JWT,
+ * which is exchanged for an installation access token that is valid for one
+ * hour. The token is cached and refreshed shortly before it expires.
+ */
+
+const DEFAULT_API_BASE = "https://api.github.com";
+const JWT_LIFETIME_SECONDS = 9 * 60; // GitHub allows at most 10 minutes
+const CLOCK_DRIFT_SECONDS = 60; // Backdate iat to tolerate clock skew
+const REFRESH_MARGIN_MS = 5 * 60 * 1000; // Refresh this long before the token expires
+
+export interface GitHubAppAuthOptions {
+  appId: string;
+  privateKey: string; // PEM-encoded private key contents
+  installationId: string;
+  baseUrl?: string; // API base, e.g. a local mock of the token endpoint
+  fetch?: typeof fetch;
+  now?: () => number; // clock in epoch ms, for tests
+}
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number; // epoch ms
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Create an RS256-signed JWT identifying the app.
+ */
+export function createAppJwt(appId: string, privateKey: string, now: number = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - CLOCK_DRIFT_SECONDS;
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({ iat: issuedAt, exp: issuedAt + JWT_LIFETIME_SECONDS, iss: appId })
+  );
+  const signature = sign("RSA-SHA256", Buffer.from(`${header}.${payload}`), createPrivateKey(privateKey));
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+export class GitHubAppAuth implements TokenSource {
+  readonly label: string;
+  private options: GitHubAppAuthOptions;
+  private current: InstallationToken | null = null;
+  private refreshing: Promise<InstallationToken> | null = null;
+
+  constructor(options: GitHubAppAuthOptions) {
+    this.options = options;
+    this.label = `app ${options.appId}/installation ${options.installationId}`;
+  }
+
+  static fromKeyFile(appId: string, privateKeyPath: string, installationId: string, baseUrl?: string): GitHubAppAuth {
+    return new GitHubAppAuth({ appId, installationId, baseUrl, privateKey: readFileSync(privateKeyPath, "utf-8") });
+  }
+
+  /**
+   * Return a valid installation token, exchanging a fresh JWT when the cached
+   * one is missing or about to expire. Concurrent callers share one exchange.
+   */
+  async getToken(): Promise<string> {
+    const now = this.options.now ?? Date.now;
+    if (this.current && this.current.expiresAt - REFRESH_MARGIN_MS > now()) {
+      return this.current.token;
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = this.exchange().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    this.current = await this.refreshing;
+    return this.current.token;
+  }
+
+  private async exchange(): Promise<InstallationToken> {
+    const { appId, privateKey, installationId } = this.options;
+    const baseUrl = this.options.baseUrl ?? DEFAULT_API_BASE;
+    const fetchImpl = this.options.fetch ?? fetch;
+    const now = this.options.now ?? Date.now;
+
+    const response = await fetchImpl(`${baseUrl}/app/installations/${installationId}/access_tokens`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${createAppJwt(appId, privateKey, now())}`,
+        Accept: "application/vnd.github+json",
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`GitHub App token exchange failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as { token: string; expires_at: string };
+    console.log(`[GitHub App] Installation token refreshed, expires at ${body.expires_at}`);
+    return { token: body.token, expiresAt: Date.parse(body.expires_at) };
+  }
+}
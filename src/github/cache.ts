@@ -0,0 +1,29 @@
+/**
+ * Storage for conditional-request caching. GitHub does not count `304 Not Modified`
+ * responses against the rate limit, so revalidating a cached body is free. Only
+ * REST GETs can be revalidated; GraphQL POSTs always spend points.
+ */
+
+export interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  body: string;
+  fetchedAt: string;
+}
+
+export interface ResponseCache {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  touch(key: string, fetchedAt: string): Promise<void>;
+}
+
+export interface CacheStats {
+  requests: number; // cacheable (REST) requests made
+  hits: number; // answered with 304 from a cached entry
+  misses: number; // no entry, or the entry was stale
+}
+
+export function formatCacheStats(stats: CacheStats): string {
+  const rate = stats.requests > 0 ? ((stats.hits / stats.requests) * 100).toFixed(1) : "0.0";
+  return `${stats.hits}/${stats.requests} REST requests served from cache (${rate}% hit rate)`;
+}
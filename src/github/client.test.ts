@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GitHubClient } from "./client.js";
+import { GitHubApiError } from "./errors.js";
+
+const RETRY = { baseDelayMs: 1, maxDelayMs: 5, secondaryRateLimitDelayMs: 1 };
+const PROFILE = { login: "octocat", id: 1 };
+
+function respond(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "X-RateLimit-Remaining": "4999", "X-RateLimit-Reset": String(Math.floor(Date.now() / 1000) + 3600), ...headers },
+  });
+}
+
+/**
+ * A fetch that plays back `responses` in order and records the token each
+ * request was sent with.
+ */
+function scripted(responses: Array<Response | Error>): { fetch: typeof fetch; tokens: string[] } {
+  const tokens: string[] = [];
+  const next = [...responses];
+  return {
+    tokens,
+    fetch: async (_input, init) => {
+      tokens.push(new Headers(init?.headers).get("Authorization")?.replace(/^Bearer /, "") ?? "");
+      const response = next.shift();
+      if (!response) throw new Error("unexpected request");
+      if (response instanceof Error) throw response;
+      return response;
+    },
+  };
+}
+
+function client(credentials: string[], responses: Array<Response | Error>, maxAttempts = 3) {
+  const script = scripted(responses);
+  const github = new GitHubClient(credentials, { fetch: script.fetch, retry: { ...RETRY, maxAttempts } });
+  return { github, tokens: script.tokens };
+}
+
+test("send retries network errors and server errors", async (t) => {
+  t.mock.method(console, "warn", () => {});
+  t.mock.method(console, "log", () => {});
+  const { github, tokens } = client(["token-a"], [
+    new TypeError("fetch failed"),
+    respond(502, { message: "Bad Gateway" }),
+    respond(200, PROFILE),
+  ]);
+
+  assert.deepEqual(await github.getUserProfile("octocat"), PROFILE);
+  assert.equal(tokens.length, 3);
+});
+
+test("send gives up after maxAttempts with a typed error", async (t) => {
+  t.mock.method(console, "warn", () => {});
+  t.mock.method(console, "log", () => {});
+  const { github, tokens } = client(["token-a"], [respond(500, {}), respond(503, {})], 2);
+
+  await assert.rejects(github.getUserProfile("octocat"), (error: unknown) => {
+    assert.ok(error instanceof GitHubApiError);
+    assert.equal(error.kind, "server");
+    assert.equal(error.status, 503);
+    assert.equal(error.attempts, 2);
+    return true;
+  });
+  assert.equal(tokens.length, 2);
+});
+
+test("send does not retry errors that will not clear", async (t) => {
+  t.mock.method(console, "log", () => {});
+  const { github, tokens } = client(["token-a"], [respond(404, { message: "Not Found" })]);
+
+  await assert.rejects(github.getUserProfile("ghost"), { name: "GitHubApiError", kind: "not_found" });
+  assert.equal(tokens.length, 1);
+});
+
+test("send waits out a secondary rate limit", async (t) => {
+  t.mock.method(console, "warn", () => {});
+  t.mock.method(console, "log", () => {});
+  const { github, tokens } = client(["token-a"], [
+    respond(403, { message: "You have exceeded a secondary rate limit" }),
+    respond(429, {}, { "Retry-After": "0" }),
+    respond(200, PROFILE),
+  ]);
+
+  assert.deepEqual(await github.getUserProfile("octocat"), PROFILE);
+  assert.equal(tokens.length, 3);
+});
+
+test("send moves to another token on a primary rate limit without spending an attempt", async (t) => {
+  t.mock.method(console, "log", () => {});
+  const { github, tokens } = client(
+    ["token-a", "token-b"],
+    [respond(403, { message: "API rate limit exceeded" }, { "X-RateLimit-Remaining": "0" }), respond(200, PROFILE)],
+    1
+  );
+
+  assert.deepEqual(await github.getUserProfile("octocat"), PROFILE);
+  assert.deepEqual(tokens, ["token-a", "token-b"]);
+});
@@ -1,150 +1,371 @@
-import type { GitHubStargazer, GitHubUserProfile, GitHubRepo, GitHubCommit, GitHubSocialAccount } from "./types.js";
+import type { GitHubStargazer, GitHubStargazerPage, GitHubUserProfile, GitHubRepo, GitHubCommit, GitHubEvent, GitHubSocialAccount, GitHubUserBundle } from "./types.js";
+import {
+  buildUserBatchQuery,
+  mapGraphQLUser,
+  userAlias,
+  GRAPHQL_MAX_BATCH_SIZE,
+  STARGAZERS_QUERY,
+  USER_REPO_LIMIT,
+  type GraphQLResponse,
+  type StargazersData,
+  type UserBatchData,
+} from "./graphql.js";
+import type { CacheStats, ResponseCache } from "./cache.js";
+import { TokenPool, type ApiResource, type GitHubCredential, type PooledToken } from "./token-pool.js";
+import { GitHubApiError } from "./errors.js";
+import { DEFAULT_RETRY_POLICY, backoffDelay, classifyStatus, isRetryable, parseRetryAfter, sleep, type RetryPolicy } from "./retry.js";
 
-const GITHUB_API_BASE = "https://api.github.com";
-const MIN_DELAY_MS = 100; // Minimum delay between requests
-const MAX_DELAY_MS = 60000; // Maximum delay (1 minute)
-const RATE_LIMIT_THRESHOLD = 500; // Start adaptive pacing when below this
-const RATE_LIMIT_RESERVE = 20; // Always keep this many calls in reserve
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+
+/**
+ * Derive the GraphQL endpoint from a REST base URL. GitHub Enterprise Server
+ * serves REST at /api/v3 and GraphQL at /api/graphql; everything else
+ * (github.com, local mocks) serves GraphQL at <base>/graphql.
+ */
+export function graphqlUrlFor(apiUrl: string): string {
+  const base = apiUrl.replace(/\/+$/, "");
+  return base.endsWith("/api/v3") ? `${base.slice(0, -"/v3".length)}/graphql` : `${base}/graphql`;
+}
+
+export interface GitHubClientOptions {
+  // Conditional-request cache for REST GETs (GraphQL is never cached); omit to always fetch fresh
+  cache?: ResponseCache;
+  // Overrides for the retry policy applied to transient failures
+  retry?: Partial<RetryPolicy>;
+  // REST base URL, e.g. https://ghe.example.com/api/v3 (default https://api.github.com)
+  apiUrl?: string;
+  // GraphQL endpoint (default derived from apiUrl)
+  graphqlUrl?: string;
+  // fetch implementation, e.g. to route requests through a test double
+  fetch?: typeof fetch;
+}
 
 export class GitHubClient {
-  private token: string;
-  private rateLimitRemaining: number = 5000;
-  private rateLimitReset: number = 0;
-  private requestCount: number = 0;
-  private lastLoggedRemaining: number = 5000;
+  private tokens: TokenPool;
+  private cache: ResponseCache | null;
+  private cacheStats: CacheStats = { requests: 0, hits: 0, misses: 0 };
+  private retryPolicy: RetryPolicy;
+  private apiUrl: string;
+  private graphqlUrl: string;
+  private fetchImpl: typeof fetch;
 
-  constructor(token: string) {
-    this.token = token;
+  /**
+   * Pass several credentials to spread requests across their rate limits.
+   * A credential is a token string or a source such as a GitHubAppAuth.
+   */
+  constructor(credentials: GitHubCredential | GitHubCredential[], options: GitHubClientOptions = {}) {
+    this.tokens = new TokenPool(Array.isArray(credentials) ? credentials : [credentials]);
+    this.cache = options.cache ?? null;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.apiUrl = (options.apiUrl ?? DEFAULT_GITHUB_API_URL).replace(/\/+$/, "");
+    this.graphqlUrl = options.graphqlUrl ?? graphqlUrlFor(this.apiUrl);
+    this.fetchImpl = options.fetch ?? fetch;
   }
 
-  private async request<T>(endpoint: string, headers?: Record<string, string>): Promise<T> {
-    // Wait based on adaptive rate limiting BEFORE request
-    await this.adaptiveWait();
-
-    const response = await fetch(`${GITHUB_API_BASE}${endpoint}`, {
-      headers: {
-        Authorization: `Bearer ${this.token}`,
-        Accept: "application/vnd.github+json",
-        "X-GitHub-Api-Version": "2022-11-28",
-        ...headers,
-      },
-    });
+  /**
+   * Send a request through the token pool and return the first OK (or 304) response.
+   *
+   * Primary rate limits are retried through another token, or after the pool's
+   * reset wait, and do not count as attempts. Server errors, secondary rate limits
+   * and network errors are retried only for idempotent requests, honoring
+   * Retry-After and otherwise backing off exponentially with jitter, up to the
+   * policy's maxAttempts. Anything else throws a GitHubApiError straight away.
+   */
+  private async send(
+    resource: ApiResource,
+    url: string,
+    endpoint: string,
+    init: RequestInit,
+    idempotent: boolean
+  ): Promise<{ response: Response; pooled: PooledToken }> {
+    for (let attempt = 1; ; attempt++) {
+      const pooled = await this.tokens.acquire(resource);
 
-    // Update rate limit info from response headers
-    this.rateLimitRemaining = parseInt(response.headers.get("X-RateLimit-Remaining") || "5000", 10);
-    this.rateLimitReset = parseInt(response.headers.get("X-RateLimit-Reset") || "0", 10);
-    this.requestCount++;
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, {
+          ...init,
+          headers: { Authorization: `Bearer ${pooled.token}`, ...(init.headers as Record<string, string>) },
+        });
+      } catch (error) {
+        // fetch rejects with a TypeError on network failure; anything else (e.g. from an
+        // injected fetch) is not ours to retry
+        if (!(error instanceof TypeError)) throw error;
 
-    // Log rate limit status on first request, every 100 requests, or when it drops significantly
-    if (this.requestCount === 1 || this.requestCount % 100 === 0 || this.rateLimitRemaining < this.lastLoggedRemaining - 500) {
-      this.logRateLimitStatus();
-      this.lastLoggedRemaining = this.rateLimitRemaining;
-    }
+        const reason = error instanceof Error ? error.message : String(error);
+        const failure = new GitHubApiError(`GitHub network error: ${reason} (${endpoint})`, {
+          kind: "network",
+          status: null,
+          endpoint,
+          attempts: attempt,
+          cause: error,
+        });
+        if (!(await this.waitBeforeRetry(failure, idempotent, null))) throw failure;
+        continue;
+      }
+
+      this.tokens.update(pooled, resource, response);
 
-    if (!response.ok) {
-      if (response.status === 403 && this.rateLimitRemaining === 0) {
-        const waitTime = Math.max(0, this.rateLimitReset * 1000 - Date.now());
-        console.log(`Rate limited! Waiting ${Math.ceil(waitTime / 1000)}s until reset...`);
-        await this.sleep(waitTime + 1000); // Add 1s buffer
-        return this.request<T>(endpoint, headers);
+      if (response.ok || response.status === 304) {
+        return { response, pooled };
       }
-      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
-    }
 
-    return response.json() as Promise<T>;
-  }
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
 
-  private async adaptiveWait(): Promise<void> {
-    const now = Date.now();
-    const resetTime = this.rateLimitReset * 1000;
-    const timeUntilReset = Math.max(0, resetTime - now);
+      if ((response.status === 403 || response.status === 429) && retryAfter === null && pooled.limits[resource].remaining === 0) {
+        // Retry through another token; the pool sleeps only if all are exhausted
+        attempt--;
+        continue;
+      }
 
-    // If we don't have rate limit info yet or reset is in the past, use minimum delay
-    if (this.rateLimitReset === 0 || timeUntilReset <= 0) {
-      await this.sleep(MIN_DELAY_MS);
-      return;
+      const kind = classifyStatus(response.status, retryAfter, await response.text());
+      const failure = new GitHubApiError(`GitHub API error: ${response.status} ${response.statusText} (${endpoint})`, {
+        kind,
+        status: response.status,
+        endpoint,
+        attempts: attempt,
+      });
+      const delay = retryAfter ?? (kind === "rate_limited" ? this.retryPolicy.secondaryRateLimitDelayMs : null);
+      if (!(await this.waitBeforeRetry(failure, idempotent, delay))) throw failure;
     }
+  }
 
-    // If we're above the threshold, just use minimum delay
-    if (this.rateLimitRemaining > RATE_LIMIT_THRESHOLD) {
-      await this.sleep(MIN_DELAY_MS);
-      return;
+  /**
+   * Sleep before retrying `failure` if the policy allows another attempt.
+   * `delay` overrides the exponential backoff, e.g. from Retry-After.
+   */
+  private async waitBeforeRetry(failure: GitHubApiError, idempotent: boolean, delay: number | null): Promise<boolean> {
+    const { maxAttempts, maxDelayMs } = this.retryPolicy;
+    if (!idempotent || !isRetryable(failure.kind) || failure.attempts >= maxAttempts) {
+      return false;
     }
 
-    // Below threshold: spread remaining calls (minus reserve) over time until reset
-    const availableCalls = Math.max(1, this.rateLimitRemaining - RATE_LIMIT_RESERVE);
+    const wait = Math.min(maxDelayMs, delay ?? backoffDelay(failure.attempts, this.retryPolicy));
+    console.warn(`${failure.message}; retrying in ${(wait / 1000).toFixed(1)}s (attempt ${failure.attempts + 1}/${maxAttempts})`);
+    await sleep(wait);
+    return true;
+  }
 
-    // Calculate delay to spread remaining calls over time until reset
-    const calculatedDelay = Math.floor(timeUntilReset / availableCalls);
+  private async request<T>(endpoint: string, headers?: Record<string, string>): Promise<T> {
+    // Keyed by the full URL so a mock or Enterprise server never shares entries with
+    // github.com; the same URL can return different representations depending on Accept
+    const url = `${this.apiUrl}${endpoint}`;
+    const cacheKey = headers?.Accept ? `${url} [${headers.Accept}]` : url;
+    const cached = this.cache ? await this.cache.get(cacheKey) : null;
 
-    // Clamp between min and max
-    const delay = Math.min(MAX_DELAY_MS, Math.max(MIN_DELAY_MS, calculatedDelay));
+    const conditionalHeaders: Record<string, string> = {};
+    if (cached?.etag) conditionalHeaders["If-None-Match"] = cached.etag;
+    if (cached?.lastModified) conditionalHeaders["If-Modified-Since"] = cached.lastModified;
 
-    // Log when we're in adaptive mode
-    console.log(`Rate limiting: ${this.rateLimitRemaining} calls left, ${Math.ceil(timeUntilReset / 1000)}s until reset, waiting ${Math.ceil(delay / 1000)}s`);
+    const { response } = await this.send(
+      "core",
+      url,
+      endpoint,
+      {
+        headers: {
+          Accept: "application/vnd.github+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+          ...headers,
+          ...conditionalHeaders,
+        },
+      },
+      true // every REST call this client makes is a GET
+    );
 
-    await this.sleep(delay);
-  }
+    if (response.status === 304 && cached && this.cache) {
+      this.cacheStats.requests++;
+      this.cacheStats.hits++;
+      await this.cache.touch(cacheKey, new Date().toISOString());
+      return JSON.parse(cached.body) as T;
+    }
+
+    const body = await response.text();
+
+    if (this.cache) {
+      this.cacheStats.requests++;
+      this.cacheStats.misses++;
+      const etag = response.headers.get("ETag");
+      const lastModified = response.headers.get("Last-Modified");
+      if (etag || lastModified) {
+        await this.cache.set(cacheKey, { etag, lastModified, body, fetchedAt: new Date().toISOString() });
+      }
+    }
 
-  private logRateLimitStatus(): void {
-    const now = Date.now();
-    const resetTime = this.rateLimitReset * 1000;
-    const timeUntilReset = Math.max(0, resetTime - now);
-    const minutes = Math.floor(timeUntilReset / 60000);
-    const seconds = Math.floor((timeUntilReset % 60000) / 1000);
-    console.log(`[Rate Limit] ${this.rateLimitRemaining} remaining, resets in ${minutes}m ${seconds}s (${this.requestCount} requests made)`);
+    return JSON.parse(body) as T;
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Conditional-request cache statistics for this client's lifetime. Only REST
+   * requests are counted: GraphQL cannot be revalidated.
+   */
+  getCacheStats(): CacheStats {
+    return { ...this.cacheStats };
   }
 
-  async getStargazers(owner: string, repo: string, page: number = 1, perPage: number = 100): Promise<GitHubStargazer[]> {
-    return this.request<GitHubStargazer[]>(
-      `/repos/${owner}/${repo}/stargazers?page=${page}&per_page=${perPage}`,
-      { Accept: "application/vnd.github.star+json" }
+  /**
+   * POST a query to the GraphQL endpoint. Partial results are returned as-is
+   * (e.g. a NOT_FOUND for one aliased user); only a response with no data throws.
+   * Queries are read-only, so they are retried like GETs.
+   */
+  private async graphql<T>(query: string, variables: Record<string, unknown>): Promise<GraphQLResponse<T>> {
+    const { response, pooled } = await this.send(
+      "graphql",
+      this.graphqlUrl,
+      "/graphql",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, variables }),
+      },
+      true
     );
+
+    const body = (await response.json()) as GraphQLResponse<T>;
+
+    // GraphQL reports an exhausted point budget as a 200 with a RATE_LIMITED error
+    if (body.errors?.some((e) => e.type === "RATE_LIMITED")) {
+      this.tokens.markExhausted(pooled, "graphql");
+      return this.graphql<T>(query, variables);
+    }
+
+    if (!body.data) {
+      const message = body.errors?.map((e) => e.message).join("; ") || "empty response";
+      throw new GitHubApiError(`GitHub GraphQL error: ${message}`, { kind: "graphql", status: response.status, endpoint: "/graphql" });
+    }
+
+    return body;
   }
 
-  async getAllStargazers(owner: string, repo: string): Promise<GitHubStargazer[]> {
-    const allStargazers: GitHubStargazer[] = [];
+  /**
+   * Fetch one page of stargazers, newest first, via GraphQL.
+   * Pass the previous page's `endCursor` as `after` to continue.
+   */
+  async getStargazersPage(owner: string, repo: string, after: string | null = null, perPage: number = 100): Promise<GitHubStargazerPage> {
+    const { data } = await this.graphql<StargazersData>(STARGAZERS_QUERY, { owner, name: repo, first: perPage, after });
+    if (!data?.repository) {
+      throw new GitHubApiError(`Repository ${owner}/${repo} not found`, { kind: "not_found", status: null, endpoint: "/graphql" });
+    }
+
+    const { stargazers } = data.repository;
+    return {
+      stargazers: stargazers.edges.map((edge) => ({
+        starred_at: edge.starredAt,
+        user: { id: edge.node.databaseId, login: edge.node.login },
+      })),
+      totalCount: stargazers.totalCount,
+      endCursor: stargazers.pageInfo.endCursor,
+      hasNextPage: stargazers.pageInfo.hasNextPage,
+    };
+  }
+
+  /**
+   * Page through stargazers newest first. Stops at the first stargazer for which
+   * `shouldStop` returns true (not included), once `limit` have been collected,
+   * or at the end of the list. `complete` is true only when the whole list was walked;
+   * `limited` when `limit` cut paging short.
+   */
+  async listStargazers(
+    owner: string,
+    repo: string,
+    options: { limit?: number; shouldStop?: (stargazer: GitHubStargazer) => boolean } = {}
+  ): Promise<{ stargazers: GitHubStargazer[]; totalCount: number; complete: boolean; limited: boolean }> {
+    const { limit, shouldStop } = options;
+    const collected: GitHubStargazer[] = [];
+    let after: string | null = null;
     let page = 1;
-    const perPage = 100;
+    let totalCount = 0;
 
     while (true) {
       console.log(`Fetching stargazers page ${page}...`);
-      const stargazers = await this.getStargazers(owner, repo, page, perPage);
+      const result = await this.getStargazersPage(owner, repo, after);
+      totalCount = result.totalCount;
 
-      if (stargazers.length === 0) {
-        break;
+      for (const stargazer of result.stargazers) {
+        if (shouldStop?.(stargazer)) {
+          return { stargazers: collected, totalCount, complete: false, limited: false };
+        }
+        collected.push(stargazer);
+        if (limit && collected.length >= limit) {
+          const complete = !result.hasNextPage && stargazer === result.stargazers.at(-1);
+          return { stargazers: collected, totalCount, complete, limited: !complete };
+        }
       }
 
-      allStargazers.push(...stargazers);
-
-      if (stargazers.length < perPage) {
-        break;
+      if (!result.hasNextPage || !result.endCursor) {
+        return { stargazers: collected, totalCount, complete: true, limited: false };
       }
 
+      after = result.endCursor;
       page++;
-      // Adaptive rate limiting is handled by request()
+      // Adaptive rate limiting is handled by graphql()
     }
+  }
 
-    return allStargazers;
+  async getAllStargazers(owner: string, repo: string): Promise<GitHubStargazer[]> {
+    const { stargazers } = await this.listStargazers(owner, repo);
+    return stargazers;
   }
 
   async getUserProfile(username: string): Promise<GitHubUserProfile> {
     return this.request<GitHubUserProfile>(`/users/${username}`);
   }
 
+  /**
+   * Look a user up by their immutable numeric ID, which survives renames.
+   */
+  async getUserById(id: number): Promise<GitHubUserProfile> {
+    return this.request<GitHubUserProfile>(`/user/${id}`);
+  }
+
+  /**
+   * The user's most recently pushed repos, the same ones the GraphQL bundle includes.
+   */
   async getUserRepos(username: string): Promise<GitHubRepo[]> {
-    return this.request<GitHubRepo[]>(`/users/${username}/repos?sort=updated&per_page=10`);
+    return this.request<GitHubRepo[]>(`/users/${username}/repos?sort=pushed&per_page=${USER_REPO_LIMIT}`);
+  }
+
+  /**
+   * The author's most recent commits in a repo, on the default branch or, with
+   * `sha`, reachable from that commit.
+   */
+  async getRepoCommits(owner: string, repo: string, author: string, sha?: string): Promise<GitHubCommit[]> {
+    const from = sha ? `&sha=${sha}` : "";
+    return this.request<GitHubCommit[]>(`/repos/${owner}/${repo}/commits?author=${author}${from}&per_page=30`);
   }
 
-  async getRepoCommits(owner: string, repo: string, author: string): Promise<GitHubCommit[]> {
-    return this.request<GitHubCommit[]>(`/repos/${owner}/${repo}/commits?author=${author}&per_page=30`);
+  /**
+   * The user's recent public activity, newest first (GitHub keeps 90 days).
+   */
+  async getUserPublicEvents(username: string): Promise<GitHubEvent[]> {
+    return this.request<GitHubEvent[]>(`/users/${username}/events/public?per_page=100`);
   }
 
   async getUserSocialAccounts(username: string): Promise<GitHubSocialAccount[]> {
     return this.request<GitHubSocialAccount[]>(`/users/${username}/social_accounts`);
   }
+
+  /**
+   * Fetch profiles, social accounts, top owned repos and organizations for many
+   * users at once via GraphQL. Logins are split into chunks of at most
+   * GRAPHQL_MAX_BATCH_SIZE. Users that no longer resolve are left out of the
+   * returned map, which is keyed by the login as requested.
+   */
+  async getUserBundles(logins: string[]): Promise<Map<string, GitHubUserBundle>> {
+    const bundles = new Map<string, GitHubUserBundle>();
+
+    for (let start = 0; start < logins.length; start += GRAPHQL_MAX_BATCH_SIZE) {
+      const chunk = logins.slice(start, start + GRAPHQL_MAX_BATCH_SIZE);
+      const { query, variables } = buildUserBatchQuery(chunk);
+      const { data } = await this.graphql<UserBatchData>(query, variables);
+
+      chunk.forEach((login, i) => {
+        const user = data?.[userAlias(i)];
+        if (user) {
+          bundles.set(login, mapGraphQLUser(user));
+        }
+      });
+    }
+
+    return bundles;
+  }
 }
@@ -0,0 +1,37 @@
+/**
+ * Typed errors raised by GitHubClient once retries are exhausted, so callers
+ * can tell a missing user from a flaky network or an exhausted rate limit.
+ */
+
+export type GitHubErrorKind =
+  | "not_found" // 404, or a GraphQL NOT_FOUND
+  | "unauthorized" // 401
+  | "forbidden" // 403 that is not a rate limit
+  | "rate_limited" // secondary rate limit (403/429) that did not clear in time
+  | "server" // 5xx
+  | "client" // any other 4xx
+  | "network" // no response: socket reset, DNS failure, timeout
+  | "graphql"; // GraphQL responded without data
+
+export class GitHubApiError extends Error {
+  readonly kind: GitHubErrorKind;
+  readonly status: number | null; // HTTP status, null when no response was received
+  readonly endpoint: string;
+  readonly attempts: number;
+
+  constructor(
+    message: string,
+    details: { kind: GitHubErrorKind; status: number | null; endpoint: string; attempts?: number; cause?: unknown }
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "GitHubApiError";
+    this.kind = details.kind;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.attempts = details.attempts ?? 1;
+  }
+}
+
+export function isGitHubApiError(error: unknown): error is GitHubApiError {
+  return error instanceof GitHubApiError;
+}
@@ -0,0 +1,195 @@
+import type { GitHubUserBundle } from "./types.js";
+
+/**
+ * GraphQL helpers for batched user lookups. One query fetches up to
+ * GRAPHQL_MAX_BATCH_SIZE users by aliasing `user(login:)` once per login.
+ */
+
+export const GRAPHQL_MAX_BATCH_SIZE = 100;
+
+// Most recently pushed repos fetched per user. Each repo's topics cost a
+// rate limit point per 100 repos, so a full batch costs about this many points.
+export const USER_REPO_LIMIT = 30;
+
+const USER_FIELDS_FRAGMENT = `
+fragment UserFields on User {
+  databaseId
+  login
+  name
+  bio
+  location
+  company
+  websiteUrl
+  twitterUsername
+  email
+  createdAt
+  updatedAt
+  followers { totalCount }
+  following { totalCount }
+  repositories(first: ${USER_REPO_LIMIT}, privacy: PUBLIC, ownerAffiliations: OWNER, orderBy: { field: PUSHED_AT, direction: DESC }) {
+    totalCount
+    nodes {
+      databaseId
+      name
+      nameWithOwner
+      owner { login }
+      updatedAt
+      pushedAt
+      isFork
+      primaryLanguage { name }
+      diskUsage
+      stargazerCount
+      repositoryTopics(first: 10) {
+        nodes { topic { name } }
+      }
+    }
+  }
+  socialAccounts(first: 10) {
+    nodes { provider url }
+  }
+  organizations(first: 10) {
+    nodes { login name }
+  }
+}`;
+
+export interface GraphQLError {
+  type?: string;
+  message: string;
+  path?: (string | number)[];
+}
+
+export interface GraphQLResponse<T> {
+  data: T | null;
+  errors?: GraphQLError[];
+}
+
+interface GraphQLUser {
+  databaseId: number;
+  login: string;
+  name: string | null;
+  bio: string | null;
+  location: string | null;
+  company: string | null;
+  websiteUrl: string | null;
+  twitterUsername: string | null;
+  email: string;
+  createdAt: string;
+  updatedAt: string;
+  followers: { totalCount: number };
+  following: { totalCount: number };
+  repositories: {
+    totalCount: number;
+    nodes: Array<{
+      databaseId: number;
+      name: string;
+      nameWithOwner: string;
+      owner: { login: string };
+      updatedAt: string;
+      pushedAt: string | null;
+      isFork: boolean;
+      primaryLanguage: { name: string } | null;
+      diskUsage: number | null;
+      stargazerCount: number;
+      repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+    }>;
+  };
+  socialAccounts: { nodes: Array<{ provider: string; url: string }> };
+  organizations: { nodes: Array<{ login: string; name: string | null }> };
+}
+
+export type UserBatchData = Record<string, GraphQLUser | null>;
+
+export function userAlias(index: number): string {
+  return `u${index}`;
+}
+
+/**
+ * Build a query that looks up each login under its own alias (`u0`, `u1`, ...),
+ * with logins passed as variables (`$l0`, `$l1`, ...) to avoid escaping issues.
+ */
+export function buildUserBatchQuery(logins: string[]): { query: string; variables: Record<string, string> } {
+  const variables: Record<string, string> = {};
+  const params: string[] = [];
+  const selections: string[] = [];
+
+  logins.forEach((login, i) => {
+    variables[`l${i}`] = login;
+    params.push(`$l${i}: String!`);
+    selections.push(`  ${userAlias(i)}: user(login: $l${i}) { ...UserFields }`);
+  });
+
+  const query = `query(${params.join(", ")}) {\n${selections.join("\n")}\n}\n${USER_FIELDS_FRAGMENT}`;
+  return { query, variables };
+}
+
+/**
+ * Map a GraphQL user onto the REST-shaped types the rest of the pipeline uses.
+ */
+export function mapGraphQLUser(user: GraphQLUser): GitHubUserBundle {
+  return {
+    profile: {
+      id: user.databaseId,
+      login: user.login,
+      name: user.name,
+      bio: user.bio,
+      location: user.location,
+      company: user.company,
+      blog: user.websiteUrl,
+      twitter_username: user.twitterUsername,
+      // GraphQL returns "" rather than null when there is no public email
+      email: user.email || null,
+      public_repos: user.repositories.totalCount,
+      followers: user.followers.totalCount,
+      following: user.following.totalCount,
+      created_at: user.createdAt,
+      updated_at: user.updatedAt,
+    },
+    // REST reports providers in lowercase ("linkedin"), GraphQL as enum values ("LINKEDIN")
+    socialAccounts: user.socialAccounts.nodes.map((a) => ({
+      provider: a.provider.toLowerCase(),
+      url: a.url,
+    })),
+    repos: user.repositories.nodes.map((r) => ({
+      id: r.databaseId,
+      name: r.name,
+      full_name: r.nameWithOwner,
+      owner: { login: r.owner.login },
+      updated_at: r.updatedAt,
+      pushed_at: r.pushedAt,
+      fork: r.isFork,
+      language: r.primaryLanguage?.name ?? null,
+      size: r.diskUsage ?? 0,
+      topics: r.repositoryTopics.nodes.map((n) => n.topic.name),
+      stargazers_count: r.stargazerCount,
+    })),
+    organizations: user.organizations.nodes.map((o) => ({ login: o.login, name: o.name })),
+  };
+}
+
+/**
+ * Stargazers newest-first. GraphQL cursors are not subject to the REST
+ * listing's page cap, so this can enumerate repos of any size.
+ */
+export const STARGAZERS_QUERY = `
+query($owner: String!, $name: String!, $first: Int!, $after: String) {
+  repository(owner: $owner, name: $name) {
+    stargazers(first: $first, after: $after, orderBy: { field: STARRED_AT, direction: DESC }) {
+      totalCount
+      pageInfo { endCursor hasNextPage }
+      edges {
+        starredAt
+        node { databaseId login }
+      }
+    }
+  }
+}`;
+
+export interface StargazersData {
+  repository: {
+    stargazers: {
+      totalCount: number;
+      pageInfo: { endCursor: string | null; hasNextPage: boolean };
+      edges: Array<{ starredAt: string; node: { databaseId: number; login: string } }>;
+    };
+  } | null;
+}
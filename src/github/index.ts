@@ -1,2 +1,16 @@
-export { GitHubClient } from "./client.js";
-export type { GitHubStargazer, GitHubUserProfile } from "./types.js";
+export { GitHubClient, DEFAULT_GITHUB_API_URL, graphqlUrlFor, type GitHubClientOptions } from "./client.js";
+export { GRAPHQL_MAX_BATCH_SIZE, USER_REPO_LIMIT } from "./graphql.js";
+export { GitHubAppAuth, createAppJwt, type GitHubAppAuthOptions } from "./app-auth.js";
+export type { GitHubCredential, TokenSource } from "./token-pool.js";
+export { formatCacheStats, type CacheStats, type ResponseCache, type CachedResponse } from "./cache.js";
+export type {
+  GitHubStargazer,
+  GitHubUserProfile,
+  GitHubRepo,
+  GitHubCommit,
+  GitHubEvent,
+  GitHubSocialAccount,
+  GitHubUserBundle,
+} from "./types.js";
+export { GitHubApiError, isGitHubApiError, type GitHubErrorKind } from "./errors.js";
+export { DEFAULT_RETRY_POLICY, type RetryPolicy } from "./retry.js";
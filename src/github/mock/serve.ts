@@ -0,0 +1,28 @@
+import { fileURLToPath } from "url";
+import { loadMockFixtures, startMockGitHubServer } from "./server.js";
+
+/**
+ * Run the mock GitHub server standalone:
+ *   pnpm mock-github [fixtures.json] [port]
+ * then point the CLI at it with --api-url or GITHUB_API_URL.
+ */
+async function main(): Promise<void> {
+  const fixturesPath = process.argv[2] ?? fileURLToPath(new URL("./fixtures.json", import.meta.url));
+  const port = process.argv[3] ? parseInt(process.argv[3], 10) : 4010;
+
+  const server = await startMockGitHubServer(loadMockFixtures(fixturesPath), port);
+  console.log(`Mock GitHub API listening on ${server.url} (fixtures: ${fixturesPath})`);
+  console.log(`Try: GITHUB_TOKEN=mock GITHUB_API_URL=${server.url} pnpm cli fetch acme/widget`);
+
+  const shutdown = async () => {
+    await server.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+  console.error("Mock server failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,256 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import type {
+  GitHubCommit,
+  GitHubEvent,
+  GitHubOrganization,
+  GitHubRepo,
+  GitHubSocialAccount,
+  GitHubStargazer,
+  GitHubUserProfile,
+} from "../types.js";
+
+/**
+ * In-process fake of the GitHub API for running the pipeline without network
+ * access. Serves the REST and GraphQL endpoints GitHubClient uses, plus the
+ * GitHub App token exchange, from JSON fixtures. Responses carry ETags and
+ * honor If-None-Match, so the response cache can be exercised too.
+ */
+
+export interface MockUserFixture {
+  profile: GitHubUserProfile;
+  socialAccounts?: GitHubSocialAccount[];
+  repos?: GitHubRepo[];
+  organizations?: GitHubOrganization[];
+  events?: GitHubEvent[]; // public activity, newest first
+}
+
+export interface MockGitHubFixtures {
+  stargazers: Record<string, GitHubStargazer[]>; // keyed by "owner/repo"
+  users: MockUserFixture[];
+  commits?: Record<string, GitHubCommit[]>; // keyed by "owner/repo"; the author and sha filters are not applied
+}
+
+export interface MockGitHubServer {
+  url: string; // REST base URL; GraphQL is served at `${url}/graphql`
+  requests: string[]; // "METHOD /path" for every request received, in order
+  close(): Promise<void>;
+}
+
+const RATE_LIMIT_HEADERS = {
+  "X-RateLimit-Limit": "5000",
+  "X-RateLimit-Remaining": "4999",
+};
+
+export function loadMockFixtures(path: string): MockGitHubFixtures {
+  return JSON.parse(readFileSync(path, "utf-8")) as MockGitHubFixtures;
+}
+
+export async function startMockGitHubServer(fixtures: MockGitHubFixtures, port: number = 0): Promise<MockGitHubServer> {
+  const requests: string[] = [];
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    requests.push(`${req.method} ${url.pathname}${url.search}`);
+
+    try {
+      if (req.method === "POST" && url.pathname === "/graphql") {
+        const { query, variables } = JSON.parse(await readBody(req)) as { query: string; variables: Record<string, unknown> };
+        return sendJson(req, res, 200, handleGraphQL(fixtures, query, variables ?? {}));
+      }
+
+      const tokenMatch = url.pathname.match(/^\/app\/installations\/([^/]+)\/access_tokens$/);
+      if (req.method === "POST" && tokenMatch) {
+        const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+        return sendJson(req, res, 201, { token: `ghs_mock_${tokenMatch[1]}`, expires_at: expiresAt });
+      }
+
+      if (req.method === "GET") {
+        const result = handleRest(fixtures, url);
+        if (result !== undefined) return sendJson(req, res, 200, result);
+      }
+
+      sendJson(req, res, 404, { message: "Not Found" });
+    } catch (error) {
+      sendJson(req, res, 500, { message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(req: IncomingMessage, res: ServerResponse, status: number, body: unknown): void {
+  const text = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(text).digest("hex")}"`;
+  const reset = String(Math.floor(Date.now() / 1000) + 3600);
+  const headers = { ...RATE_LIMIT_HEADERS, "X-RateLimit-Reset": reset, ETag: etag };
+
+  if (status === 200 && req.method === "GET" && req.headers["if-none-match"] === etag) {
+    res.writeHead(304, headers);
+    res.end();
+    return;
+  }
+
+  res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+  res.end(text);
+}
+
+function findUser(fixtures: MockGitHubFixtures, login: string): MockUserFixture | undefined {
+  const lower = login.toLowerCase();
+  return fixtures.users.find((u) => u.profile.login.toLowerCase() === lower);
+}
+
+function handleRest(fixtures: MockGitHubFixtures, url: URL): unknown {
+  const path = url.pathname;
+  const page = parseInt(url.searchParams.get("page") || "1", 10);
+  const perPage = parseInt(url.searchParams.get("per_page") || "30", 10);
+  const paginate = <T>(items: T[]) => items.slice((page - 1) * perPage, page * perPage);
+
+  let match: RegExpMatchArray | null;
+
+  if ((match = path.match(/^\/repos\/([^/]+)\/([^/]+)\/stargazers$/))) {
+    const stargazers = fixtures.stargazers[`${match[1]}/${match[2]}`];
+    if (!stargazers) return undefined;
+    // REST lists stargazers oldest first
+    return paginate([...stargazers].sort((a, b) => Date.parse(a.starred_at) - Date.parse(b.starred_at)));
+  }
+
+  if ((match = path.match(/^\/repos\/([^/]+)\/([^/]+)\/commits$/))) {
+    return paginate(fixtures.commits?.[`${match[1]}/${match[2]}`] ?? []);
+  }
+
+  if ((match = path.match(/^\/user\/(\d+)$/))) {
+    const id = Number(match[1]);
+    return fixtures.users.find((u) => u.profile.id === id)?.profile;
+  }
+
+  if ((match = path.match(/^\/users\/([^/]+)$/))) {
+    return findUser(fixtures, match[1])?.profile;
+  }
+
+  if ((match = path.match(/^\/users\/([^/]+)\/repos$/))) {
+    const user = findUser(fixtures, match[1]);
+    return user ? paginate(user.repos ?? []) : undefined;
+  }
+
+  if ((match = path.match(/^\/users\/([^/]+)\/events\/public$/))) {
+    const user = findUser(fixtures, match[1]);
+    return user ? paginate(user.events ?? []) : undefined;
+  }
+
+  if ((match = path.match(/^\/users\/([^/]+)\/social_accounts$/))) {
+    const user = findUser(fixtures, match[1]);
+    return user ? user.socialAccounts ?? [] : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Answer the two query shapes GitHubClient sends: the stargazers listing and
+ * the aliased user batch. Anything else is reported as a GraphQL error.
+ */
+function handleGraphQL(fixtures: MockGitHubFixtures, query: string, variables: Record<string, unknown>): unknown {
+  if (query.includes("stargazers(")) {
+    const stargazers = fixtures.stargazers[`${variables.owner}/${variables.name}`];
+    if (!stargazers) {
+      return { data: { repository: null }, errors: [{ type: "NOT_FOUND", message: "Could not resolve to a Repository" }] };
+    }
+
+    const sorted = [...stargazers].sort((a, b) => Date.parse(b.starred_at) - Date.parse(a.starred_at));
+    const start = typeof variables.after === "string" ? parseInt(Buffer.from(variables.after, "base64").toString(), 10) + 1 : 0;
+    const first = Number(variables.first ?? 100);
+    const page = sorted.slice(start, start + first);
+    const end = start + page.length - 1;
+
+    return {
+      data: {
+        repository: {
+          stargazers: {
+            totalCount: sorted.length,
+            pageInfo: {
+              endCursor: page.length > 0 ? Buffer.from(String(end)).toString("base64") : null,
+              hasNextPage: end < sorted.length - 1,
+            },
+            edges: page.map((s) => ({ starredAt: s.starred_at, node: { databaseId: s.user.id, login: s.user.login } })),
+          },
+        },
+      },
+    };
+  }
+
+  if (query.includes("UserFields")) {
+    const data: Record<string, unknown> = {};
+    const errors: Array<{ type: string; message: string; path: string[] }> = [];
+
+    for (const [name, login] of Object.entries(variables)) {
+      const alias = `u${name.slice(1)}`;
+      const user = findUser(fixtures, String(login));
+      data[alias] = user ? toGraphQLUser(user) : null;
+      if (!user) {
+        errors.push({ type: "NOT_FOUND", message: `Could not resolve to a User with the login of '${login}'.`, path: [alias] });
+      }
+    }
+
+    return errors.length > 0 ? { data, errors } : { data };
+  }
+
+  return { data: null, errors: [{ message: "Unsupported query in mock GitHub server" }] };
+}
+
+function toGraphQLUser(user: MockUserFixture): unknown {
+  const { profile } = user;
+  return {
+    databaseId: profile.id,
+    login: profile.login,
+    name: profile.name,
+    bio: profile.bio,
+    location: profile.location,
+    company: profile.company,
+    websiteUrl: profile.blog || null,
+    twitterUsername: profile.twitter_username,
+    email: profile.email ?? "",
+    createdAt: profile.created_at,
+    updatedAt: profile.updated_at,
+    followers: { totalCount: profile.followers },
+    following: { totalCount: profile.following },
+    repositories: {
+      totalCount: profile.public_repos,
+      nodes: (user.repos ?? []).map((r) => ({
+        databaseId: r.id,
+        name: r.name,
+        nameWithOwner: r.full_name,
+        owner: { login: r.owner.login },
+        updatedAt: r.updated_at,
+        pushedAt: r.pushed_at,
+        isFork: r.fork,
+        primaryLanguage: r.language ? { name: r.language } : null,
+        diskUsage: r.size,
+        stargazerCount: r.stargazers_count,
+        repositoryTopics: { nodes: r.topics.map((name) => ({ topic: { name } })) },
+      })),
+    },
+    socialAccounts: {
+      nodes: (user.socialAccounts ?? []).map((a) => ({ provider: a.provider.toUpperCase(), url: a.url })),
+    },
+    organizations: { nodes: user.organizations ?? [] },
+  };
+}
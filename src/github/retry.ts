@@ -0,0 +1,71 @@
+import type { GitHubErrorKind } from "./errors.js";
+
+/**
+ * Retry policy for transient GitHub failures: 5xx responses, secondary rate
+ * limits and network errors. Only idempotent requests are retried.
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number; // total attempts including the first
+  baseDelayMs: number; // backoff for the first retry, doubled on each attempt
+  maxDelayMs: number; // cap for a single backoff or Retry-After wait
+  secondaryRateLimitDelayMs: number; // wait when a secondary limit gives no Retry-After
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  secondaryRateLimitDelayMs: 60 * 1000, // GitHub asks for at least a minute
+};
+
+const RETRYABLE_KINDS: GitHubErrorKind[] = ["server", "network", "rate_limited"];
+
+export function isRetryable(kind: GitHubErrorKind): boolean {
+  return RETRYABLE_KINDS.includes(kind);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * baseDelayMs * 2^(attempt - 1), capped at maxDelayMs.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date.
+ * Returns milliseconds to wait, or null if absent or unparseable.
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return null;
+}
+
+/**
+ * Classify a non-OK HTTP status. `body` is the response text, used to spot
+ * secondary rate limits, which GitHub reports as a 403 with an explanatory message.
+ */
+export function classifyStatus(status: number, retryAfter: number | null, body: string): GitHubErrorKind {
+  if (status === 429) return "rate_limited";
+  if (status === 403) {
+    if (retryAfter !== null || /secondary rate limit|abuse/i.test(body)) return "rate_limited";
+    return "forbidden";
+  }
+  if (status === 401) return "unauthorized";
+  if (status === 404) return "not_found";
+  if (status >= 500) return "server";
+  return "client";
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
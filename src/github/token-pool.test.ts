@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TokenPool } from "./token-pool.js";
+
+function rateLimitResponse(remaining: number, reset?: number): Response {
+  const headers: Record<string, string> = { "X-RateLimit-Remaining": String(remaining) };
+  if (reset !== undefined) headers["X-RateLimit-Reset"] = String(reset);
+  return new Response(null, { status: remaining > 0 ? 200 : 403, headers });
+}
+
+// Let pending promise callbacks run without advancing mocked timers
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+test("acquire picks the token with the most headroom and skips exhausted ones", async (t) => {
+  t.mock.method(console, "log", () => {});
+  // A frozen clock keeps every token equally free, so headroom decides
+  t.mock.timers.enable({ apis: ["Date"] });
+  const pool = new TokenPool(["token-aaaa", "token-bbbb", "token-cccc"]);
+  const [a, b, c] = await Promise.all([pool.acquire("core"), pool.acquire("core"), pool.acquire("core")]);
+  const reset = Math.floor(Date.now() / 1000) + 3600;
+  pool.update(a, "core", rateLimitResponse(100, reset));
+  pool.update(b, "core", rateLimitResponse(4000, reset));
+  pool.update(c, "core", rateLimitResponse(0, reset));
+  pool.markExhausted(c, "core");
+
+  assert.equal((await pool.acquire("core")).token, "token-bbbb");
+  pool.markExhausted(b, "core");
+  assert.equal((await pool.acquire("core")).token, "token-aaaa");
+});
+
+test("acquire waits a minute when every token is exhausted without a reset time", async (t) => {
+  t.mock.method(console, "log", () => {});
+  const pool = new TokenPool(["token-aaaa"]);
+  const first = await pool.acquire("core");
+  t.mock.timers.enable({ apis: ["setTimeout", "Date"], now: Date.now() });
+  pool.update(first, "core", rateLimitResponse(0));
+  pool.markExhausted(first, "core");
+
+  let acquired = false;
+  const next = pool.acquire("core").then(() => (acquired = true));
+  await settle();
+  t.mock.timers.tick(59_000);
+  await settle();
+  assert.equal(acquired, false);
+
+  t.mock.timers.tick(2_100);
+  await settle();
+  t.mock.timers.tick(1_000); // pacing after the wait
+  await next;
+  assert.equal(acquired, true);
+});
+
+test("acquire waits for the earliest reset when one is known", async (t) => {
+  t.mock.method(console, "log", () => {});
+  const pool = new TokenPool(["token-aaaa"]);
+  const first = await pool.acquire("core");
+  const now = Date.now();
+  t.mock.timers.enable({ apis: ["setTimeout", "Date"], now });
+  pool.update(first, "core", rateLimitResponse(0, Math.floor(now / 1000) + 5));
+  pool.markExhausted(first, "core");
+
+  let acquired = false;
+  const next = pool.acquire("core").then(() => (acquired = true));
+  await settle();
+  t.mock.timers.tick(4_000);
+  await settle();
+  assert.equal(acquired, false);
+
+  t.mock.timers.tick(2_100);
+  await settle();
+  t.mock.timers.tick(1_000); // pacing after the wait
+  await next;
+  assert.equal(acquired, true);
+});
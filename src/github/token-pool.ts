@@ -0,0 +1,257 @@
+import { sleep } from "./retry.js";
+
+/**
+ * Pool of GitHub credentials with per-token rate limit tracking.
+ *
+ * Each token has its own REST ("core") and GraphQL budgets. Requests go through
+ * whichever token has the most headroom for the resource, pacing kicks in only
+ * when the pool's combined headroom runs low, and the pool sleeps only when
+ * every token is exhausted. Pacing spaces out requests per token, so adding
+ * tokens adds throughput.
+ */
+
+const MIN_DELAY_MS = 100; // Minimum delay between requests through one token
+const MAX_DELAY_MS = 60000; // Maximum delay (1 minute)
+const RATE_LIMIT_THRESHOLD = 500; // Start adaptive pacing when the pool is below this
+const RATE_LIMIT_RESERVE = 20; // Always keep this many calls in reserve per token
+const DEFAULT_LIMIT = 5000;
+const UNKNOWN_RESET_WAIT_MS = 60000; // Wait when every token is exhausted and none reported a reset time
+
+export type ApiResource = "core" | "graphql";
+
+interface RateLimitBucket {
+  remaining: number;
+  reset: number; // epoch seconds, 0 when unknown
+  nextAt: number; // epoch ms before which the token is not used again for this resource
+}
+
+/**
+ * A credential whose value can change over time, such as a GitHub App
+ * installation token that is refreshed every hour.
+ */
+export interface TokenSource {
+  label: string;
+  getToken(): Promise<string>;
+}
+
+export type GitHubCredential = string | TokenSource;
+
+export interface PooledToken {
+  token: string; // current value, refreshed from `source` on every acquire
+  label: string;
+  source: TokenSource | null;
+  limits: Record<ApiResource, RateLimitBucket>;
+}
+
+interface ResourceUsage {
+  label: string;
+  requestCount: number;
+  lastLoggedRemaining: number;
+}
+
+/**
+ * Show only the last four characters of a token in logs.
+ */
+function maskToken(token: string, index: number): string {
+  return `#${index + 1} (…${token.slice(-4)})`;
+}
+
+export class TokenPool {
+  private tokens: PooledToken[];
+  private usage: Record<ApiResource, ResourceUsage>;
+  private pacing: Promise<void> = Promise.resolve();
+
+  constructor(credentials: GitHubCredential[]) {
+    if (credentials.length === 0) {
+      throw new Error("At least one GitHub token is required");
+    }
+    this.tokens = credentials.map((credential, i) => ({
+      token: typeof credential === "string" ? credential : "",
+      label: typeof credential === "string" ? maskToken(credential, i) : `#${i + 1} (${credential.label})`,
+      source: typeof credential === "string" ? null : credential,
+      limits: {
+        core: { remaining: DEFAULT_LIMIT, reset: 0, nextAt: 0 },
+        graphql: { remaining: DEFAULT_LIMIT, reset: 0, nextAt: 0 },
+      },
+    }));
+
+    const fullPool = DEFAULT_LIMIT * credentials.length;
+    this.usage = {
+      core: { label: "Rate Limit", requestCount: 0, lastLoggedRemaining: fullPool },
+      graphql: { label: "GraphQL Rate Limit", requestCount: 0, lastLoggedRemaining: fullPool },
+    };
+  }
+
+  get size(): number {
+    return this.tokens.length;
+  }
+
+  /**
+   * Pick the token with the most headroom for `resource`, waiting first if the
+   * token needs pacing or every token is exhausted.
+   */
+  async acquire(resource: ApiResource): Promise<PooledToken> {
+    // Concurrent callers take turns reserving a slot, so pacing delays through
+    // one token add up instead of overlapping. The wait for the slot itself
+    // happens outside the lock, so other tokens keep serving requests.
+    const previous = this.pacing;
+    let release!: () => void;
+    this.pacing = new Promise((resolve) => (release = resolve));
+    await previous;
+
+    let best: PooledToken;
+    let startAt: number;
+    try {
+      this.expireResets(resource);
+
+      best = this.pickBest(resource);
+      if (best.limits[resource].remaining <= 0) {
+        await this.waitForReset(resource);
+        this.expireResets(resource);
+        best = this.pickBest(resource);
+      }
+
+      const bucket = best.limits[resource];
+      startAt = Math.max(Date.now(), bucket.nextAt);
+      bucket.nextAt = startAt + this.pacingInterval(resource);
+    } finally {
+      release();
+    }
+
+    await sleep(startAt - Date.now());
+
+    if (best.source) {
+      best.token = await best.source.getToken();
+    }
+    return best;
+  }
+
+  /**
+   * Record rate limit headers from a response made with `pooled`.
+   */
+  update(pooled: PooledToken, resource: ApiResource, response: Response): void {
+    const bucket = pooled.limits[resource];
+    bucket.remaining = parseInt(response.headers.get("X-RateLimit-Remaining") || String(DEFAULT_LIMIT), 10);
+    bucket.reset = parseInt(response.headers.get("X-RateLimit-Reset") || "0", 10);
+
+    const usage = this.usage[resource];
+    usage.requestCount++;
+
+    // Log rate limit status on first request, every 100 requests, or when it drops significantly
+    const total = this.totalRemaining(resource);
+    if (usage.requestCount === 1 || usage.requestCount % 100 === 0 || total < usage.lastLoggedRemaining - 500) {
+      this.logStatus(resource);
+      usage.lastLoggedRemaining = total;
+    }
+  }
+
+  /**
+   * Mark a token as exhausted for `resource`, e.g. after a rate limited response.
+   */
+  markExhausted(pooled: PooledToken, resource: ApiResource): void {
+    pooled.limits[resource].remaining = 0;
+  }
+
+  /**
+   * The token with budget left that is free soonest, then the one with the most
+   * headroom. When every token is exhausted, the one with the most headroom.
+   */
+  private pickBest(resource: ApiResource): PooledToken {
+    const now = Date.now();
+    const freeAt = (t: PooledToken) => Math.max(now, t.limits[resource].nextAt);
+    return this.tokens.reduce((best, t) => {
+      const a = t.limits[resource];
+      const b = best.limits[resource];
+      if ((a.remaining > 0) !== (b.remaining > 0)) return a.remaining > 0 ? t : best;
+      if (a.remaining > 0 && freeAt(t) !== freeAt(best)) return freeAt(t) < freeAt(best) ? t : best;
+      return a.remaining > b.remaining ? t : best;
+    });
+  }
+
+  /**
+   * Once a token's reset time has passed its budget is full again.
+   */
+  private expireResets(resource: ApiResource): void {
+    const nowSeconds = Date.now() / 1000;
+    for (const t of this.tokens) {
+      const bucket = t.limits[resource];
+      if (bucket.reset > 0 && bucket.reset <= nowSeconds) {
+        bucket.remaining = DEFAULT_LIMIT;
+        bucket.reset = 0;
+      }
+    }
+  }
+
+  private totalRemaining(resource: ApiResource): number {
+    return this.tokens.reduce((sum, t) => sum + t.limits[resource].remaining, 0);
+  }
+
+  /**
+   * Milliseconds until the first token with a known reset regains its budget.
+   */
+  private timeUntilNextReset(resource: ApiResource): number {
+    const resets = this.tokens.map((t) => t.limits[resource].reset).filter((r) => r > 0);
+    if (resets.length === 0) return 0;
+    return Math.max(0, Math.min(...resets) * 1000 - Date.now());
+  }
+
+  private async waitForReset(resource: ApiResource): Promise<void> {
+    const waitTime = this.timeUntilNextReset(resource) || UNKNOWN_RESET_WAIT_MS;
+    const scope = this.tokens.length > 1 ? `All ${this.tokens.length} tokens rate limited` : "Rate limited";
+    console.log(`${scope}! Waiting ${Math.ceil(waitTime / 1000)}s until reset...`);
+    await sleep(waitTime + 1000); // Add 1s buffer
+  }
+
+  /**
+   * Milliseconds between requests through one token for `resource`.
+   */
+  private pacingInterval(resource: ApiResource): number {
+    const totalRemaining = this.totalRemaining(resource);
+    const timeUntilReset = this.timeUntilNextReset(resource);
+
+    // If we don't have rate limit info yet or reset is in the past, use minimum delay
+    if (timeUntilReset <= 0) return MIN_DELAY_MS;
+
+    // If the pool is above the threshold, just use minimum delay
+    if (totalRemaining > RATE_LIMIT_THRESHOLD) return MIN_DELAY_MS;
+
+    // Below threshold: spread remaining calls (minus per-token reserve) over time until the next reset
+    const availableCalls = Math.max(
+      1,
+      this.tokens.reduce((sum, t) => sum + Math.max(0, t.limits[resource].remaining - RATE_LIMIT_RESERVE), 0)
+    );
+
+    // Every token takes its share of the calls, so each is spaced by the pool's interval times the pool size
+    const calculatedDelay = Math.floor((timeUntilReset * this.tokens.length) / availableCalls);
+
+    // Clamp between min and max
+    const delay = Math.min(MAX_DELAY_MS, Math.max(MIN_DELAY_MS, calculatedDelay));
+
+    // Log when we're in adaptive mode
+    const unit = resource === "graphql" ? "GraphQL points" : "calls";
+    console.log(`Rate limiting: ${totalRemaining} ${unit} left, ${Math.ceil(timeUntilReset / 1000)}s until reset, spacing requests per token by ${Math.ceil(delay / 1000)}s`);
+
+    return delay;
+  }
+
+  private logStatus(resource: ApiResource): void {
+    const usage = this.usage[resource];
+
+    if (this.tokens.length === 1) {
+      console.log(`[${usage.label}] ${formatBucket(this.tokens[0].limits[resource])} (${usage.requestCount} requests made)`);
+      return;
+    }
+
+    console.log(`[${usage.label}] ${this.totalRemaining(resource)} remaining across ${this.tokens.length} tokens (${usage.requestCount} requests made)`);
+    for (const t of this.tokens) {
+      console.log(`  ${t.label}: ${formatBucket(t.limits[resource])}`);
+    }
+  }
+}
+
+function formatBucket(bucket: RateLimitBucket): string {
+  const timeUntilReset = Math.max(0, bucket.reset * 1000 - Date.now());
+  const minutes = Math.floor(timeUntilReset / 60000);
+  const seconds = Math.floor((timeUntilReset % 60000) / 1000);
+  return `${bucket.remaining} remaining, resets in ${minutes}m ${seconds}s`;
+}
@@ -29,7 +29,12 @@ export interface GitHubRepo {
   full_name: string;
   owner: { login: string };
   updated_at: string;
+  pushed_at: string | null; // null for repos that were never pushed to
   fork: boolean;
+  language: string | null; // primary language, as detected by GitHub
+  size: number; // in KB
+  topics: string[];
+  stargazers_count: number;
 }
 
 export interface GitHubCommit {
@@ -38,9 +43,49 @@ export interface GitHubCommit {
     author: { name: string; email: string } | null;
     committer: { name: string; email: string } | null;
   };
+  // The GitHub accounts the commit's author and committer emails belong to
+  author?: { login: string } | null;
+  committer?: { login: string } | null;
+}
+
+/**
+ * An entry of a user's public activity feed. Only push events are used. The
+ * feed no longer lists a push's commits, only the commit the branch was moved
+ * to; other payloads are left untyped.
+ */
+export interface GitHubEvent {
+  id: string;
+  type: string; // e.g. "PushEvent"
+  repo: { name: string }; // "owner/repo"
+  created_at: string;
+  payload: { ref?: string; head?: string };
 }
 
 export interface GitHubSocialAccount {
   provider: string;
   url: string;
 }
+
+export interface GitHubOrganization {
+  login: string;
+  name: string | null;
+}
+
+/**
+ * Everything the enrichment worker needs about a single user, as returned
+ * by one entry of a batched GraphQL query.
+ */
+export interface GitHubUserBundle {
+  profile: GitHubUserProfile;
+  socialAccounts: GitHubSocialAccount[];
+  repos: GitHubRepo[];
+  organizations: GitHubOrganization[];
+  reposUnavailable?: boolean; // the repos could not be fetched, so `repos` is empty rather than known to be
+}
+
+export interface GitHubStargazerPage {
+  stargazers: GitHubStargazer[];
+  totalCount: number;
+  endCursor: string | null;
+  hasNextPage: boolean;
+}
@@ -1,47 +1,64 @@
 import "dotenv/config";
 import path from "path";
 import { getDb, initializeSchema, closeDb } from "./db/index.js";
-import { runFetch, runEnrich } from "./worker/index.js";
+import { runFetch, runEnrich, runRefresh } from "./worker/index.js";
 
 const HOUR_MS = 60 * 60 * 1000;
 
-function getEnvConfig(): { owner: string; repo: string; dbPath: string } {
+interface EnvConfig {
+  owner: string;
+  repo: string;
+  dbPath: string;
+  refreshAfterDays: number | null; // re-enrich profiles older than this, if set
+}
+
+function getEnvConfig(): EnvConfig {
   const owner = process.env.GITHUB_REPO_OWNER;
   const repo = process.env.GITHUB_REPO_NAME;
 
   if (!owner) throw new Error("GITHUB_REPO_OWNER environment variable is required");
   if (!repo) throw new Error("GITHUB_REPO_NAME environment variable is required");
 
+  const refreshAfter = process.env.REFRESH_AFTER_DAYS;
+  const refreshAfterDays = refreshAfter ? parseInt(refreshAfter, 10) : null;
+  if (refreshAfterDays !== null && !(refreshAfterDays >= 0)) {
+    throw new Error(`REFRESH_AFTER_DAYS must be a non-negative integer, got "${refreshAfter}"`);
+  }
+
   const dbPath = path.resolve(process.cwd(), "data", `${owner}-${repo}`, "stargazers.db");
-  return { owner, repo, dbPath };
+  return { owner, repo, dbPath, refreshAfterDays };
 }
 
-async function runCycle(owner: string, repo: string, dbPath: string): Promise<void> {
+async function runCycle({ owner, repo, dbPath, refreshAfterDays }: EnvConfig): Promise<void> {
   // Fetch new stargazers
   await runFetch({ owner, repo, dbPath });
   // Enrich pending profiles
   await runEnrich({ dbPath });
+  // Re-enrich stale profiles
+  if (refreshAfterDays !== null) {
+    await runRefresh({ dbPath, olderThanDays: refreshAfterDays });
+  }
 }
 
 async function main(): Promise<void> {
   console.log("Starting GitHub Stargazers Enrichment Worker...");
 
-  const { owner, repo, dbPath } = getEnvConfig();
+  const config = getEnvConfig();
 
   // Initialize database
-  const db = await getDb(dbPath);
+  const db = await getDb(config.dbPath);
   await initializeSchema(db);
   console.log("Database initialized");
 
   // Run immediately on start
   console.log(`[${new Date().toISOString()}] Running initial cycle...`);
-  await runCycle(owner, repo, dbPath);
+  await runCycle(config);
 
   // Then run every hour
   setInterval(async () => {
     console.log(`[${new Date().toISOString()}] Running scheduled cycle...`);
     try {
-      await runCycle(owner, repo, dbPath);
+      await runCycle(config);
     } catch (error) {
       console.error("Scheduled cycle failed:", error);
     }
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { GitHubUserProfile } from "../github/types.js";
+import { looksGenerated, scoreStargazers, type StargazerSignals } from "./detector.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const starredAtMs = Date.parse("2026-03-01T12:00:00Z");
+
+function profile(overrides: Partial<GitHubUserProfile> = {}): GitHubUserProfile {
+  return {
+    login: "jane",
+    id: 1,
+    name: "Jane Smith",
+    bio: "Rust developer",
+    location: "Berlin",
+    company: null,
+    blog: null,
+    email: null,
+    twitter_username: null,
+    public_repos: 12,
+    followers: 30,
+    created_at: "2015-01-01T00:00:00Z",
+    ...overrides,
+  } as GitHubUserProfile;
+}
+
+function signals(overrides: Partial<StargazerSignals> = {}): StargazerSignals {
+  return { id: 1, username: "jane", starredAtMs, joinDateMs: Date.parse("2015-01-01T00:00:00Z"), profile: profile(), ...overrides };
+}
+
+test("looksGenerated flags default-looking usernames", () => {
+  for (const username of ["user123456", "github-4821", "jsmith84729", "brave-otter-17", "a8f3k2m9x7q1w5z0"]) {
+    assert.equal(looksGenerated(username), true, username);
+  }
+});
+
+test("looksGenerated leaves ordinary usernames alone", () => {
+  for (const username of ["octocat", "jane-smith", "jsmith84", "torvalds", "sindresorhus"]) {
+    assert.equal(looksGenerated(username), false, username);
+  }
+});
+
+test("scoreStargazers finds nothing suspicious about an established account", () => {
+  const [score] = scoreStargazers([signals()], [starredAtMs]);
+  assert.equal(score.score, 0);
+  assert.deepEqual(score.reasons, []);
+});
+
+test("scoreStargazers adds up the signals of a fresh, empty account", () => {
+  const fresh = signals({
+    username: "user938475",
+    joinDateMs: starredAtMs - 2 * DAY_MS,
+    profile: profile({ name: null, bio: null, location: null, public_repos: 0, followers: 0 }),
+  });
+  const [score] = scoreStargazers([fresh], [starredAtMs]);
+  assert.deepEqual(
+    [...score.reasons].sort(),
+    ["default_username", "empty_profile", "no_followers", "no_repos", "very_new_account"]
+  );
+  assert.equal(score.score, 1);
+});
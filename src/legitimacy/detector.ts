@@ -0,0 +1,145 @@
+import type { GitHubUserProfile } from "../github/types.js";
+
+/**
+ * Heuristic detection of fake and bot stargazers. Each signal adds a fixed
+ * weight to a stargazer's suspicion score, capped at 1. No single signal is
+ * enough on its own to reach the default threshold.
+ */
+
+export const SUSPICION_REASONS = [
+  "very_new_account", // account less than a week old when it starred
+  "new_account", // account less than a month old when it starred
+  "empty_profile", // no name, bio, location, company, website or email
+  "no_repos",
+  "no_followers",
+  "default_username", // looks generated, e.g. "user123456" or "jsmith84729"
+  "star_burst", // fresh account starring in a window with many other stars
+] as const;
+
+export type SuspicionReason = (typeof SUSPICION_REASONS)[number];
+
+const REASON_WEIGHTS: Record<SuspicionReason, number> = {
+  very_new_account: 0.35,
+  new_account: 0.2,
+  empty_profile: 0.2,
+  no_repos: 0.15,
+  no_followers: 0.15,
+  default_username: 0.15,
+  star_burst: 0.25,
+};
+
+export const REASON_DESCRIPTIONS: Record<SuspicionReason, string> = {
+  very_new_account: "account under 7 days old at star time",
+  new_account: "account under 30 days old at star time",
+  empty_profile: "empty profile",
+  no_repos: "no public repos",
+  no_followers: "no followers",
+  default_username: "generated-looking username",
+  star_burst: "fresh account in a burst of stars",
+};
+
+export const DEFAULT_SUSPICION_THRESHOLD = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VERY_NEW_ACCOUNT_DAYS = 7;
+const NEW_ACCOUNT_DAYS = 30;
+
+// A burst is at least this many stars within half a window either side of a star
+const BURST_WINDOW_MS = 60 * 60 * 1000;
+const BURST_MIN_STARS = 10;
+
+const DEFAULT_USERNAME_PATTERNS = [
+  /^(user|github|git|dev|test)[-_]?\d+$/i, // "user123", "github-4821"
+  /^[a-z]+[-_]?\d{4,}$/i, // a word followed by four or more digits
+  /^[a-z]+-[a-z]+-\d+$/i, // "brave-otter-17"
+  /^(?=.*\d)(?=.*[a-z])[a-z0-9]{14,}$/i, // long run of letters and digits with no separators
+];
+
+export interface StargazerSignals {
+  id: number;
+  username: string;
+  starredAtMs: number | null;
+  joinDateMs: number | null;
+  profile: GitHubUserProfile | null; // null when the stored raw profile is missing
+}
+
+export interface SuspicionScore {
+  id: number;
+  username: string;
+  score: number;
+  reasons: SuspicionReason[];
+}
+
+function isBlank(value: string | null | undefined): boolean {
+  return !value || value.trim() === "";
+}
+
+function isEmptyProfile(profile: GitHubUserProfile): boolean {
+  return [profile.name, profile.bio, profile.location, profile.company, profile.blog, profile.email].every(isBlank);
+}
+
+export function looksGenerated(username: string): boolean {
+  return DEFAULT_USERNAME_PATTERNS.some((pattern) => pattern.test(username));
+}
+
+function accountAgeDays(stargazer: StargazerSignals): number | null {
+  const joinedMs = stargazer.joinDateMs ?? (stargazer.profile ? Date.parse(stargazer.profile.created_at) : NaN);
+  if (stargazer.starredAtMs === null || Number.isNaN(joinedMs)) return null;
+  return (stargazer.starredAtMs - joinedMs) / DAY_MS;
+}
+
+/**
+ * Index of the first element of a sorted array that is >= value.
+ */
+function lowerBound(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Stars within the burst window around `starredAtMs`, counted over every star
+ * of the repo so bursts are found even when only a sample is being scored.
+ */
+function starsAround(sortedStarTimes: number[], starredAtMs: number): number {
+  const half = BURST_WINDOW_MS / 2;
+  return lowerBound(sortedStarTimes, starredAtMs + half + 1) - lowerBound(sortedStarTimes, starredAtMs - half);
+}
+
+/**
+ * Score stargazers for how likely their star is fake. `allStarTimes` holds the
+ * star times of every active stargazer of the repo, not just those scored.
+ */
+export function scoreStargazers(stargazers: StargazerSignals[], allStarTimes: number[]): SuspicionScore[] {
+  const sortedStarTimes = [...allStarTimes].sort((a, b) => a - b);
+
+  return stargazers.map((stargazer) => {
+    const reasons: SuspicionReason[] = [];
+
+    const age = accountAgeDays(stargazer);
+    const fresh = age !== null && age < NEW_ACCOUNT_DAYS;
+    if (age !== null && age < VERY_NEW_ACCOUNT_DAYS) reasons.push("very_new_account");
+    else if (fresh) reasons.push("new_account");
+
+    const { profile } = stargazer;
+    if (profile) {
+      if (isEmptyProfile(profile)) reasons.push("empty_profile");
+      if (profile.public_repos === 0) reasons.push("no_repos");
+      if (profile.followers === 0) reasons.push("no_followers");
+    }
+
+    if (looksGenerated(stargazer.username)) reasons.push("default_username");
+
+    if (fresh && starsAround(sortedStarTimes, stargazer.starredAtMs!) >= BURST_MIN_STARS) {
+      reasons.push("star_burst");
+    }
+
+    const score = Math.min(1, reasons.reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0));
+    return { id: stargazer.id, username: stargazer.username, score: Math.round(score * 100) / 100, reasons };
+  });
+}
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { estimateShare } from "./estimate.js";
+
+test("estimateShare matches the Wilson interval for a small sample of a large population", () => {
+  const estimate = estimateShare(10, 100, 1_000_000_000);
+  assert.equal(estimate.share, 0.1);
+  assert.equal(estimate.exact, false);
+  assert.ok(Math.abs(estimate.lower - 0.0552) < 0.0005, `lower ${estimate.lower}`);
+  assert.ok(Math.abs(estimate.upper - 0.1744) < 0.0005, `upper ${estimate.upper}`);
+});
+
+test("estimateShare narrows the interval as the sample covers more of the population", () => {
+  const small = estimateShare(10, 100, 1_000_000);
+  const large = estimateShare(10, 100, 200);
+  assert.ok(large.upper - large.lower < small.upper - small.lower);
+  assert.ok(large.lower <= 0.1 && large.upper >= 0.1);
+});
+
+test("estimateShare is exact when the whole population was scored", () => {
+  assert.deepEqual(estimateShare(3, 50, 50), { share: 0.06, lower: 0.06, upper: 0.06, exact: true });
+});
+
+test("estimateShare keeps the interval within 0 and 1", () => {
+  const none = estimateShare(0, 20, 10_000);
+  assert.equal(none.lower, 0);
+  assert.ok(none.upper > 0 && none.upper < 0.2);
+
+  const all = estimateShare(20, 20, 10_000);
+  assert.equal(all.upper, 1);
+  assert.ok(all.lower > 0.8 && all.lower < 1);
+});
+
+test("estimateShare says nothing without a sample", () => {
+  assert.deepEqual(estimateShare(0, 0, 100), { share: 0, lower: 0, upper: 1, exact: false });
+});
@@ -0,0 +1,40 @@
+/**
+ * Estimating the share of fake stars from a scored sample of stargazers.
+ */
+
+export interface ShareEstimate {
+  share: number; // observed share of the sample
+  lower: number;
+  upper: number;
+  exact: boolean; // the whole population was scored, so there is no sampling error
+}
+
+const Z_95 = 1.959964;
+
+/**
+ * 95% Wilson score interval for `flagged` out of `sampled`, drawn without
+ * replacement from `population`. The finite population correction shrinks the
+ * interval as the sample approaches the full set, where it collapses to the
+ * observed share.
+ */
+export function estimateShare(flagged: number, sampled: number, population: number): ShareEstimate {
+  if (sampled === 0) return { share: 0, lower: 0, upper: 1, exact: false };
+
+  const share = flagged / sampled;
+  if (sampled >= population) return { share, lower: share, upper: share, exact: true };
+
+  // Sampling without replacement behaves like a larger sample with replacement
+  const fpc = (population - sampled) / (population - 1);
+  const n = sampled / fpc;
+
+  const z2 = Z_95 * Z_95;
+  const center = (share + z2 / (2 * n)) / (1 + z2 / n);
+  const margin = (Z_95 / (1 + z2 / n)) * Math.sqrt((share * (1 - share)) / n + z2 / (4 * n * n));
+
+  return {
+    share,
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+    exact: false,
+  };
+}
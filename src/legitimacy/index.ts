@@ -0,0 +1,12 @@
+export {
+  scoreStargazers,
+  looksGenerated,
+  SUSPICION_REASONS,
+  REASON_DESCRIPTIONS,
+  DEFAULT_SUSPICION_THRESHOLD,
+  type StargazerSignals,
+  type SuspicionReason,
+  type SuspicionScore,
+} from "./detector.js";
+export { estimateShare, type ShareEstimate } from "./estimate.js";
+export { countPopulation, countEnriched, countGone, loadStarTimes, loadSignals, saveScores } from "./store.js";
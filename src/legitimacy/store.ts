@@ -0,0 +1,90 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import type { GitHubUserProfile } from "../github/types.js";
+import type { StargazerSignals, SuspicionScore } from "./detector.js";
+
+// Stargazers that currently star the repo and still exist
+const POPULATION_SQL = "s.is_active = TRUE AND s.enrichment_status <> 'gone'";
+
+export async function countPopulation(connection: DuckDBConnection): Promise<number> {
+  const result = await connection.run(`SELECT COUNT(*) FROM stargazers s WHERE ${POPULATION_SQL}`);
+  const rows = await result.getRows();
+  return Number(rows[0][0]);
+}
+
+/**
+ * Active stars from deleted or suspended accounts. They can't be scored, but
+ * GitHub removing an account is itself a strong fake signal, so they are
+ * reported next to the estimate rather than dropped.
+ */
+export async function countGone(connection: DuckDBConnection): Promise<number> {
+  const result = await connection.run(
+    `SELECT COUNT(*) FROM stargazers s WHERE s.is_active = TRUE AND s.enrichment_status = 'gone'`
+  );
+  const rows = await result.getRows();
+  return Number(rows[0][0]);
+}
+
+export async function countEnriched(connection: DuckDBConnection): Promise<number> {
+  const result = await connection.run(
+    `SELECT COUNT(*) FROM stargazers s WHERE ${POPULATION_SQL} AND s.enrichment_status = 'completed'`
+  );
+  const rows = await result.getRows();
+  return Number(rows[0][0]);
+}
+
+/**
+ * Star times of every active stargazer, enriched or not, for burst detection.
+ */
+export async function loadStarTimes(connection: DuckDBConnection): Promise<number[]> {
+  const result = await connection.run(
+    `SELECT epoch_ms(s.starred_at) FROM stargazers s WHERE s.is_active = TRUE AND s.starred_at IS NOT NULL`
+  );
+  const rows = await result.getRows();
+  return rows.map((row) => Number(row[0]));
+}
+
+/**
+ * Load the signals of enriched stargazers; all of them, or `limit` picked at random.
+ */
+export async function loadSignals(connection: DuckDBConnection, limit?: number): Promise<StargazerSignals[]> {
+  const result = await connection.run(
+    `SELECT s.id, s.username, epoch_ms(s.starred_at), epoch_ms(s.join_date), e.raw_github_profile
+     FROM stargazers s
+     JOIN enriched_profiles e ON s.id = e.github_id
+     WHERE ${POPULATION_SQL} AND s.enrichment_status = 'completed'
+     ${limit !== undefined ? "ORDER BY RANDOM() LIMIT ?" : ""}`,
+    limit !== undefined ? [limit] : []
+  );
+  const rows = await result.getRows();
+
+  return rows.map((row) => {
+    let profile: GitHubUserProfile | null = null;
+    try {
+      profile = row[4] ? (JSON.parse(String(row[4])) as GitHubUserProfile) : null;
+    } catch {
+      // Score without profile signals
+    }
+    return {
+      id: row[0] as number,
+      username: row[1] as string,
+      starredAtMs: row[2] === null ? null : Number(row[2]),
+      joinDateMs: row[3] === null ? null : Number(row[3]),
+      profile,
+    };
+  });
+}
+
+/**
+ * Replace the stored scores with this run's, so an earlier sample never mixes
+ * into the current one.
+ */
+export async function saveScores(connection: DuckDBConnection, scores: SuspicionScore[]): Promise<void> {
+  await connection.run(`DELETE FROM legitimacy_scores`);
+  for (const score of scores) {
+    await connection.run(
+      `INSERT INTO legitimacy_scores (stargazer_id, username, score, reasons, scored_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [score.id, score.username, score.score, JSON.stringify(score.reasons)]
+    );
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Frameworks, libraries and platforms worth reporting on, detected from repo
+ * topics and names. `topics` are GitHub topic slugs. `names` are the words a
+ * repo name has to contain, in order ("react-native-maps" contains
+ * "react-native"). They default to `topics`, and are narrower where a topic
+ * slug is also an everyday word in repo names ("spring", "next", "notebook").
+ */
+
+export interface Framework {
+  name: string;
+  topics: string[];
+  names?: string[];
+}
+
+export const FRAMEWORKS: Framework[] = [
+  // Web frontend
+  { name: "React", topics: ["react", "reactjs", "react-js"] },
+  { name: "React Native", topics: ["react-native", "reactnative"] },
+  { name: "Next.js", topics: ["nextjs", "next-js", "next"], names: ["nextjs", "next-js"] },
+  { name: "Vue", topics: ["vue", "vuejs", "vue3", "vue-js"] },
+  { name: "Nuxt", topics: ["nuxt", "nuxtjs", "nuxt3"] },
+  { name: "Angular", topics: ["angular", "angularjs", "angular2"] },
+  { name: "Svelte", topics: ["svelte", "sveltekit", "svelte-kit"] },
+  { name: "SolidJS", topics: ["solidjs", "solid-js"] },
+  { name: "Remix", topics: ["remix", "remix-run"], names: ["remix-run"] },
+  { name: "Astro", topics: ["astro", "astrojs"], names: ["astrojs"] },
+  { name: "Tailwind CSS", topics: ["tailwindcss", "tailwind", "tailwind-css"] },
+  { name: "Three.js", topics: ["threejs", "three-js"] },
+
+  // Web backend
+  { name: "Node.js", topics: ["nodejs", "node-js"] },
+  { name: "Express", topics: ["express", "expressjs", "express-js"], names: ["expressjs", "express-api", "express-server"] },
+  { name: "NestJS", topics: ["nestjs", "nest-js"] },
+  { name: "Deno", topics: ["deno"] },
+  { name: "Bun", topics: ["bun", "bunjs"], names: ["bunjs"] },
+  { name: "Django", topics: ["django", "django-rest-framework"] },
+  { name: "Flask", topics: ["flask"] },
+  { name: "FastAPI", topics: ["fastapi"] },
+  { name: "Ruby on Rails", topics: ["rails", "ruby-on-rails", "rails7"] },
+  { name: "Laravel", topics: ["laravel"] },
+  { name: "Symfony", topics: ["symfony"] },
+  { name: "Spring Boot", topics: ["spring-boot", "springboot", "spring"], names: ["spring-boot", "springboot"] },
+  { name: ".NET", topics: ["dotnet", "dotnet-core", "aspnetcore", "aspnet-core", "blazor"] },
+  { name: "Phoenix", topics: ["phoenix", "phoenix-framework", "phoenix-liveview"], names: ["phoenix-liveview"] },
+  { name: "Gin", topics: ["gin", "gin-gonic"], names: ["gin-gonic"] },
+  { name: "Actix", topics: ["actix", "actix-web"] },
+  { name: "Axum", topics: ["axum"] },
+  { name: "Tokio", topics: ["tokio"] },
+  { name: "GraphQL", topics: ["graphql", "apollo-graphql", "graphql-server"] },
+
+  // Mobile and desktop
+  { name: "Flutter", topics: ["flutter", "flutter-app"] },
+  { name: "SwiftUI", topics: ["swiftui"] },
+  { name: "Jetpack Compose", topics: ["jetpack-compose", "compose-multiplatform"] },
+  { name: "Electron", topics: ["electron", "electron-app", "electronjs"] },
+  { name: "Tauri", topics: ["tauri", "tauri-app"] },
+  { name: "Qt", topics: ["qt", "qt5", "qt6", "pyqt5", "pyqt"] },
+
+  // Data and machine learning
+  { name: "PyTorch", topics: ["pytorch", "torch"], names: ["pytorch"] },
+  { name: "TensorFlow", topics: ["tensorflow", "tensorflow2", "keras"] },
+  { name: "JAX", topics: ["jax", "flax"] },
+  { name: "scikit-learn", topics: ["scikit-learn", "sklearn"] },
+  { name: "Hugging Face", topics: ["huggingface", "transformers", "hugging-face", "huggingface-transformers"], names: ["huggingface", "hugging-face"] },
+  { name: "LangChain", topics: ["langchain", "langgraph"] },
+  { name: "LLM", topics: ["llm", "llms", "large-language-models", "openai", "chatgpt", "gpt", "ollama", "rag"], names: ["llm", "chatgpt", "ollama"] },
+  { name: "pandas", topics: ["pandas"] },
+  { name: "Apache Spark", topics: ["spark", "apache-spark", "pyspark"], names: ["pyspark", "apache-spark"] },
+  { name: "Jupyter", topics: ["jupyter", "jupyter-notebook", "notebook"], names: ["jupyter"] },
+
+  // Infrastructure
+  { name: "Kubernetes", topics: ["kubernetes", "k8s", "helm", "kubernetes-operator"], names: ["kubernetes", "k8s"] },
+  { name: "Docker", topics: ["docker", "dockerfile", "docker-compose"] },
+  { name: "Terraform", topics: ["terraform", "terraform-provider", "terraform-module"] },
+  { name: "Ansible", topics: ["ansible", "ansible-role", "ansible-playbook"] },
+  { name: "AWS", topics: ["aws", "aws-lambda", "amazon-web-services", "aws-cdk"] },
+
+  // Games, embedded and robotics
+  { name: "Unity", topics: ["unity", "unity3d", "unity-3d"], names: ["unity3d"] },
+  { name: "Godot", topics: ["godot", "godot-engine", "godotengine"] },
+  { name: "Unreal Engine", topics: ["unreal-engine", "unrealengine", "ue4", "ue5"] },
+  { name: "Bevy", topics: ["bevy", "bevy-engine"] },
+  { name: "Arduino", topics: ["arduino", "esp32", "esp8266"] },
+  { name: "ROS", topics: ["ros", "ros2"] },
+  { name: "WebAssembly", topics: ["webassembly", "wasm"] },
+];
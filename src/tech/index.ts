@@ -0,0 +1,18 @@
+export { FRAMEWORKS, type Framework } from "./frameworks.js";
+export {
+  buildTechProfile,
+  detectFrameworks,
+  ACTIVE_WITHIN_DAYS,
+  type LanguageShare,
+  type TechProfile,
+} from "./profile.js";
+export {
+  saveTechProfile,
+  techSummary,
+  techBreakdown,
+  TECH_DIMENSIONS,
+  DEFAULT_MIN_LANGUAGE_SHARE,
+  type TechDimension,
+  type TechBreakdownRow,
+  type TechSummary,
+} from "./store.js";
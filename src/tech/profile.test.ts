@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { GitHubRepo } from "../github/types.js";
+import { buildTechProfile, detectFrameworks } from "./profile.js";
+
+const NOW = Date.parse("2026-01-01T00:00:00Z");
+
+function repo(fields: Partial<GitHubRepo> & { name: string }): GitHubRepo {
+  return {
+    id: 1,
+    full_name: `someone/${fields.name}`,
+    owner: { login: "someone" },
+    updated_at: "2025-06-01T00:00:00Z",
+    pushed_at: "2025-06-01T00:00:00Z",
+    fork: false,
+    language: null,
+    size: 100,
+    topics: [],
+    stargazers_count: 0,
+    ...fields,
+  };
+}
+
+test("detectFrameworks reads topics and whole words in repo names", () => {
+  assert.deepEqual(detectFrameworks({ name: "dashboard", topics: ["ReactJS"] }), ["React"]);
+  assert.deepEqual(detectFrameworks({ name: "react-native-maps", topics: [] }), ["React", "React Native"]);
+  assert.deepEqual(detectFrameworks({ name: "my-nextjs-blog", topics: [] }), ["Next.js"]);
+  // "next" is only a topic, not a name word
+  assert.deepEqual(detectFrameworks({ name: "next-steps", topics: [] }), []);
+  assert.deepEqual(detectFrameworks({ name: "reactor", topics: [] }), []);
+});
+
+test("buildTechProfile counts languages and frameworks only from original repos", () => {
+  const profile = buildTechProfile(
+    [
+      repo({ name: "api", language: "Go", stargazers_count: 5 }),
+      repo({ name: "web", language: "TypeScript", topics: ["react"], stargazers_count: 2 }),
+      repo({ name: "linux", language: "C", fork: true, stargazers_count: 1000 }),
+    ],
+    NOW
+  );
+
+  assert.deepEqual(
+    profile.languages.map((l) => l.language),
+    ["Go", "TypeScript"]
+  );
+  assert.equal(profile.languages[0].share, 0.5);
+  assert.deepEqual(profile.frameworks, ["React"]);
+  assert.equal(profile.repoCount, 3);
+  assert.equal(profile.forkCount, 1);
+  assert.equal(profile.originalRatio, 2 / 3);
+  assert.equal(profile.totalStars, 7);
+  assert.equal(profile.activeRepoCount, 2);
+  assert.equal(profile.lastPushAt, "2025-06-01T00:00:00.000Z");
+});
+
+test("buildTechProfile lets recent repos outweigh old ones", () => {
+  const profile = buildTechProfile(
+    [
+      repo({ name: "old", language: "Perl", pushed_at: "2016-01-01T00:00:00Z" }),
+      repo({ name: "new", language: "Rust" }),
+    ],
+    NOW
+  );
+
+  assert.equal(profile.languages[0].language, "Rust");
+  assert.equal(profile.activeRepoCount, 1);
+});
+
+test("buildTechProfile handles a user without repos", () => {
+  const profile = buildTechProfile([], NOW);
+
+  assert.deepEqual(profile.languages, []);
+  assert.equal(profile.originalRatio, null);
+  assert.equal(profile.lastPushAt, null);
+});
@@ -0,0 +1,133 @@
+import type { GitHubRepo } from "../github/types.js";
+import { FRAMEWORKS } from "./frameworks.js";
+
+/**
+ * A stargazer's technology profile, built from their most recently pushed
+ * public repos (up to USER_REPO_LIMIT). Languages, topics and frameworks only
+ * count repos they created; forks only count towards the activity metrics.
+ */
+
+export interface LanguageShare {
+  language: string;
+  share: number; // of the weighted code in original repos, 0-1
+}
+
+export interface TechProfile {
+  languages: LanguageShare[]; // largest share first
+  topics: string[]; // most frequent first, at most TOP_TOPICS
+  frameworks: string[]; // in FRAMEWORKS order
+  repoCount: number;
+  originalRepoCount: number;
+  forkCount: number;
+  originalRatio: number | null; // original repos / all repos; null without repos
+  activeRepoCount: number; // original repos pushed to within ACTIVE_WITHIN_DAYS
+  totalStars: number; // stars on original repos
+  lastPushAt: string | null; // most recent push to any repo
+}
+
+// A repo's weight halves for every this many years since its last push
+const RECENCY_HALF_LIFE_YEARS = 2;
+const TOP_TOPICS = 10;
+export const ACTIVE_WITHIN_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+function lastPushMs(repo: GitHubRepo): number | null {
+  const ms = Date.parse(repo.pushed_at ?? repo.updated_at);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * How much a repo counts towards its language. Size is damped logarithmically
+ * so one vendored monorepo does not drown out everything else, and older
+ * repos fade with RECENCY_HALF_LIFE_YEARS.
+ */
+function repoWeight(repo: GitHubRepo, now: number): number {
+  const pushedAt = lastPushMs(repo);
+  const ageYears = pushedAt === null ? 0 : Math.max(0, now - pushedAt) / YEAR_MS;
+  return Math.log2(2 + Math.max(0, repo.size)) * 0.5 ** (ageYears / RECENCY_HALF_LIFE_YEARS);
+}
+
+/**
+ * Split a repo name into lowercase words: "ReactNative_demo.app" becomes
+ * ["react", "native", "demo", "app"].
+ */
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 0);
+}
+
+function containsWords(words: string[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, j) => words[i + j] === word)) return true;
+  }
+  return false;
+}
+
+// Frameworks with each of their name phrases split into words
+const FRAMEWORK_NAME_WORDS = FRAMEWORKS.map((framework) =>
+  (framework.names ?? framework.topics).map((phrase) => phrase.split("-"))
+);
+
+/**
+ * Frameworks a repo uses, going by its topics and name.
+ */
+export function detectFrameworks(repo: Pick<GitHubRepo, "name" | "topics">): string[] {
+  const topics = new Set(repo.topics.map((t) => t.toLowerCase()));
+  const words = nameWords(repo.name);
+
+  return FRAMEWORKS.filter(
+    (framework, i) =>
+      framework.topics.some((t) => topics.has(t)) ||
+      FRAMEWORK_NAME_WORDS[i].some((phrase) => containsWords(words, phrase))
+  ).map((framework) => framework.name);
+}
+
+export function buildTechProfile(repos: GitHubRepo[], now: number = Date.now()): TechProfile {
+  const originals = repos.filter((r) => !r.fork);
+
+  const languageWeights = new Map<string, number>();
+  const topicCounts = new Map<string, number>();
+  const frameworks = new Set<string>();
+  for (const repo of originals) {
+    if (repo.language) {
+      languageWeights.set(repo.language, (languageWeights.get(repo.language) ?? 0) + repoWeight(repo, now));
+    }
+    for (const topic of new Set(repo.topics.map((t) => t.toLowerCase()))) {
+      topicCounts.set(topic, (topicCounts.get(topic) ?? 0) + 1);
+    }
+    for (const framework of detectFrameworks(repo)) {
+      frameworks.add(framework);
+    }
+  }
+
+  const totalWeight = [...languageWeights.values()].reduce((sum, w) => sum + w, 0);
+  const languages = [...languageWeights]
+    .map(([language, weight]) => ({ language, share: Math.round((weight / totalWeight) * 1000) / 1000 }))
+    .sort((a, b) => b.share - a.share || a.language.localeCompare(b.language));
+
+  const topics = [...topicCounts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_TOPICS)
+    .map(([topic]) => topic);
+
+  const pushes = repos.map(lastPushMs).filter((ms): ms is number => ms !== null);
+  const activeSince = now - ACTIVE_WITHIN_DAYS * DAY_MS;
+
+  return {
+    languages,
+    topics,
+    frameworks: FRAMEWORKS.map((f) => f.name).filter((name) => frameworks.has(name)),
+    repoCount: repos.length,
+    originalRepoCount: originals.length,
+    forkCount: repos.length - originals.length,
+    originalRatio: repos.length > 0 ? originals.length / repos.length : null,
+    activeRepoCount: originals.filter((r) => (lastPushMs(r) ?? 0) >= activeSince).length,
+    totalStars: originals.reduce((sum, r) => sum + r.stargazers_count, 0),
+    lastPushAt: pushes.length > 0 ? new Date(Math.max(...pushes)).toISOString() : null,
+  };
+}
@@ -0,0 +1,117 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import type { LanguageShare, TechProfile } from "./profile.js";
+
+export async function saveTechProfile(connection: DuckDBConnection, stargazerId: number, profile: TechProfile): Promise<void> {
+  await connection.run(
+    `INSERT INTO stargazer_tech (
+       stargazer_id, primary_language, languages, topics, frameworks, repo_count, original_repo_count,
+       fork_count, original_ratio, active_repo_count, total_stars, last_push_at, computed_at
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT (stargazer_id) DO UPDATE SET
+       primary_language = EXCLUDED.primary_language,
+       languages = EXCLUDED.languages,
+       topics = EXCLUDED.topics,
+       frameworks = EXCLUDED.frameworks,
+       repo_count = EXCLUDED.repo_count,
+       original_repo_count = EXCLUDED.original_repo_count,
+       fork_count = EXCLUDED.fork_count,
+       original_ratio = EXCLUDED.original_ratio,
+       active_repo_count = EXCLUDED.active_repo_count,
+       total_stars = EXCLUDED.total_stars,
+       last_push_at = EXCLUDED.last_push_at,
+       computed_at = EXCLUDED.computed_at`,
+    [
+      stargazerId,
+      profile.languages[0]?.language ?? null,
+      JSON.stringify(profile.languages),
+      JSON.stringify(profile.topics),
+      JSON.stringify(profile.frameworks),
+      profile.repoCount,
+      profile.originalRepoCount,
+      profile.forkCount,
+      profile.originalRatio,
+      profile.activeRepoCount,
+      profile.totalStars,
+      profile.lastPushAt,
+    ]
+  );
+}
+
+export const TECH_DIMENSIONS = ["language", "topic", "framework"] as const;
+export type TechDimension = (typeof TECH_DIMENSIONS)[number];
+
+// A language counts as one someone writes at or above this share of their code
+export const DEFAULT_MIN_LANGUAGE_SHARE = 0.1;
+
+export interface TechBreakdownRow {
+  value: string;
+  stargazers: number;
+}
+
+export interface TechSummary {
+  profiled: number; // active stargazers with a technology profile
+  withCode: number; // of those, with at least one original public repo
+  active: number; // of those, pushed to an original repo within ACTIVE_WITHIN_DAYS
+  medianOriginalRatio: number | null;
+}
+
+// Active stargazers that still exist and have a technology profile
+const PROFILED_SQL = `
+  FROM stargazer_tech t
+  JOIN stargazers s ON s.id = t.stargazer_id
+  WHERE s.is_active = TRUE AND s.enrichment_status <> 'gone'`;
+
+function parseList<T>(json: unknown): T[] {
+  try {
+    return json ? (JSON.parse(String(json)) as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function techSummary(connection: DuckDBConnection): Promise<TechSummary> {
+  const result = await connection.run(`
+    SELECT
+      COUNT(*),
+      COUNT(*) FILTER (WHERE t.original_repo_count > 0),
+      COUNT(*) FILTER (WHERE t.active_repo_count > 0),
+      MEDIAN(t.original_ratio)
+    ${PROFILED_SQL}
+  `);
+  const [profiled, withCode, active, medianOriginalRatio] = (await result.getRows())[0];
+  return {
+    profiled: Number(profiled),
+    withCode: Number(withCode),
+    active: Number(active),
+    medianOriginalRatio: medianOriginalRatio === null ? null : Number(medianOriginalRatio),
+  };
+}
+
+/**
+ * Active stargazers by language, topic or framework, most common first. Each
+ * stargazer counts once under every value they have. For languages, only
+ * those making up at least `minLanguageShare` of their code count.
+ */
+export async function techBreakdown(
+  connection: DuckDBConnection,
+  dimension: TechDimension,
+  minLanguageShare: number = DEFAULT_MIN_LANGUAGE_SHARE
+): Promise<TechBreakdownRow[]> {
+  // Stored as a JSON list in the languages, topics or frameworks column
+  const result = await connection.run(`SELECT t.${dimension}s ${PROFILED_SQL}`);
+
+  const counts = new Map<string, number>();
+  for (const [json] of await result.getRows()) {
+    const values =
+      dimension === "language"
+        ? parseList<LanguageShare>(json).filter((l) => l.share >= minLanguageShare).map((l) => l.language)
+        : parseList<string>(json);
+    for (const value of new Set(values)) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  return [...counts]
+    .map(([value, stargazers]) => ({ value, stargazers }))
+    .sort((a, b) => b.stargazers - a.stargazers || a.value.localeCompare(b.value));
+}
@@ -0,0 +1,135 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import type { Employer } from "../enrichment/index.js";
+
+/**
+ * The parts of an enriched profile whose changes are worth recording.
+ */
+export interface TrackedProfile {
+  company: string | null;
+  location: string | null;
+  country: string | null;
+  employers: Employer[];
+  linkedin_url: string | null;
+  website_url: string | null;
+  university: string | null;
+  email: string | null;
+  job_title: string | null;
+}
+
+export interface ProfileChange {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+// Column in profile_changes → label used in log lines
+const FIELD_LABELS: Record<string, string> = {
+  current_employer: "employer",
+  company: "company",
+  location: "location",
+  country: "country",
+  linkedin_url: "LinkedIn",
+  website_url: "website",
+  university: "university",
+  email: "email",
+  job_title: "job title",
+};
+
+function normalize(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Current employers as one comparable value, ignoring order and case.
+ */
+function currentEmployers(employers: Employer[]): string | null {
+  const names = employers.filter((e) => e.current).map((e) => e.name.trim());
+  if (names.length === 0) return null;
+  return names.sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase())).join(", ");
+}
+
+function flatten(profile: TrackedProfile): Record<string, string | null> {
+  return {
+    current_employer: currentEmployers(profile.employers),
+    company: normalize(profile.company),
+    location: normalize(profile.location),
+    country: normalize(profile.country),
+    linkedin_url: normalize(profile.linkedin_url),
+    website_url: normalize(profile.website_url),
+    university: normalize(profile.university),
+    email: normalize(profile.email),
+    job_title: normalize(profile.job_title),
+  };
+}
+
+/**
+ * Load the tracked fields of a stargazer's current enriched profile, or null if
+ * they have not been enriched yet.
+ */
+export async function loadTrackedProfile(
+  connection: DuckDBConnection,
+  githubId: number
+): Promise<TrackedProfile | null> {
+  const result = await connection.run(
+    `SELECT company, location, country, employers, linkedin_url, website_url, university, email, job_title
+     FROM enriched_profiles WHERE github_id = ?`,
+    [githubId]
+  );
+  const rows = await result.getRows();
+  if (rows.length === 0) return null;
+
+  const [company, location, country, employers, linkedinUrl, websiteUrl, university, email, jobTitle] = rows[0];
+  let parsedEmployers: Employer[] = [];
+  try {
+    parsedEmployers = employers ? (JSON.parse(String(employers)) as Employer[]) : [];
+  } catch {
+    // Treat unparseable employers as unknown
+  }
+
+  return {
+    company: company as string | null,
+    location: location as string | null,
+    country: country as string | null,
+    employers: parsedEmployers,
+    linkedin_url: linkedinUrl as string | null,
+    website_url: websiteUrl as string | null,
+    university: university as string | null,
+    email: email as string | null,
+    job_title: jobTitle as string | null,
+  };
+}
+
+/**
+ * Compare two versions of a profile. Values are compared after trimming, and
+ * current employers regardless of order and case.
+ */
+export function diffProfiles(before: TrackedProfile, after: TrackedProfile): ProfileChange[] {
+  const old = flatten(before);
+  const current = flatten(after);
+
+  return Object.keys(FIELD_LABELS)
+    .filter((field) => (old[field]?.toLowerCase() ?? null) !== (current[field]?.toLowerCase() ?? null))
+    .map((field) => ({ field, oldValue: old[field], newValue: current[field] }));
+}
+
+export function describeChange(change: ProfileChange): string {
+  const label = FIELD_LABELS[change.field] ?? change.field;
+  if (change.oldValue === null) return `${label} added: "${change.newValue}"`;
+  if (change.newValue === null) return `${label} removed (was "${change.oldValue}")`;
+  return `${label} changed from "${change.oldValue}" to "${change.newValue}"`;
+}
+
+export async function recordChanges(
+  connection: DuckDBConnection,
+  githubId: number,
+  username: string,
+  changes: ProfileChange[]
+): Promise<void> {
+  for (const change of changes) {
+    await connection.run(
+      `INSERT INTO profile_changes (github_id, username, field, old_value, new_value) VALUES (?, ?, ?, ?, ?)`,
+      [githubId, username, change.field, change.oldValue, change.newValue]
+    );
+  }
+}
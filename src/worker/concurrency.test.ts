@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createLimiter } from "./concurrency.js";
+
+test("createLimiter never runs more tasks than its limit", async () => {
+  const limit = createLimiter(1);
+  let running = 0;
+  let peak = 0;
+  const tracked = (work: () => Promise<unknown>) => async () => {
+    running++;
+    peak = Math.max(peak, running);
+    try {
+      await work();
+    } finally {
+      running--;
+    }
+  };
+
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  let first!: Promise<void>;
+  const tasks = [limit(() => (first = tracked(() => gate)())), limit(tracked(() => Promise.resolve()))];
+
+  // A caller arriving right as the first task ends, before the waiting one resumes
+  const late = first.then(() => limit(tracked(() => Promise.resolve())));
+  release();
+  await Promise.all([...tasks, late]);
+
+  assert.equal(peak, 1);
+  assert.equal(running, 0);
+});
+
+test("createLimiter starts tasks in the order they were submitted", async () => {
+  const limit = createLimiter(1);
+  const started: number[] = [];
+  const start = (i: number) => async () => void started.push(i);
+
+  let first!: Promise<void>;
+  const tasks = [limit(() => (first = start(0)())), limit(start(1)), limit(start(2))];
+  // Submitted as the first task ends, while the others are still waiting
+  tasks.push(first.then(() => limit(start(3))));
+  await Promise.all(tasks);
+
+  assert.deepEqual(started, [0, 1, 2, 3]);
+});
+
+test("createLimiter frees the slot when a task throws", async () => {
+  const limit = createLimiter(1);
+  await assert.rejects(limit(async () => Promise.reject(new Error("boom"))), /boom/);
+  assert.equal(await limit(async () => "next"), "next");
+});
+
+test("createLimiter rejects a non-positive concurrency", () => {
+  assert.throws(() => createLimiter(0), /positive integer/);
+});
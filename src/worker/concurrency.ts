@@ -0,0 +1,35 @@
+/**
+ * Run at most `concurrency` tasks at a time. Tasks start in the order they
+ * were submitted.
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(concurrency: number): Limiter {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  // A finished task hands its slot straight to the next waiter, so nobody
+  // arriving in between can take it
+  const next = () => {
+    const waiter = queue.shift();
+    if (waiter) waiter();
+    else active--;
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      next();
+    }
+  };
+}
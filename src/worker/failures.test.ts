@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { APICallError } from "ai";
+import { z } from "zod";
+import { GitHubApiError } from "../github/index.js";
+import { MAX_ENRICHMENT_ATTEMPTS, classifyEnrichmentError, nextAttemptAt } from "./failures.js";
+
+const MINUTE = 60 * 1000;
+const now = Date.parse("2026-01-01T00:00:00Z");
+
+test("nextAttemptAt quadruples the delay after each failure", () => {
+  assert.equal(nextAttemptAt(1, now)?.getTime(), now + 15 * MINUTE);
+  assert.equal(nextAttemptAt(2, now)?.getTime(), now + 60 * MINUTE);
+  assert.equal(nextAttemptAt(3, now)?.getTime(), now + 240 * MINUTE);
+});
+
+test("nextAttemptAt schedules the last retry within a day", () => {
+  assert.equal(nextAttemptAt(MAX_ENRICHMENT_ATTEMPTS - 1, now)?.getTime(), now + 960 * MINUTE);
+});
+
+test("nextAttemptAt gives up once the attempts are used up", () => {
+  assert.equal(nextAttemptAt(MAX_ENRICHMENT_ATTEMPTS, now), null);
+  assert.equal(nextAttemptAt(MAX_ENRICHMENT_ATTEMPTS + 1, now), null);
+});
+
+test("classifyEnrichmentError prefixes GitHub error kinds", () => {
+  const error = new GitHubApiError("GitHub API error: 502", { kind: "server", status: 502, endpoint: "/users/x" });
+  assert.deepEqual(classifyEnrichmentError(error), { kind: "github_server", message: "GitHub API error: 502" });
+});
+
+test("classifyEnrichmentError sorts LLM failures by status", () => {
+  const apiError = (statusCode: number) =>
+    new APICallError({ message: "failed", url: "https://llm", requestBodyValues: {}, statusCode });
+  assert.equal(classifyEnrichmentError(apiError(429)).kind, "llm_rate_limited");
+  assert.equal(classifyEnrichmentError(apiError(401)).kind, "llm_auth");
+  assert.equal(classifyEnrichmentError(apiError(503)).kind, "llm_server");
+  assert.equal(classifyEnrichmentError(apiError(400)).kind, "llm_api");
+});
+
+test("classifyEnrichmentError treats schema mismatches as llm_schema", () => {
+  const parsed = z.object({ country: z.string() }).safeParse({ country: 1 });
+  assert.equal(classifyEnrichmentError(parsed.error).kind, "llm_schema");
+  assert.equal(classifyEnrichmentError(new Error("boom")).kind, "unknown");
+});
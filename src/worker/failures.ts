@@ -0,0 +1,88 @@
+import { APICallError, JSONParseError, NoObjectGeneratedError, RetryError, TypeValidationError } from "ai";
+import { z } from "zod";
+import { isGitHubApiError, type GitHubErrorKind } from "../github/index.js";
+
+/**
+ * Classification of enrichment failures, stored in `stargazers.last_error_kind`,
+ * and the backoff schedule for re-queueing failed rows.
+ */
+
+const GITHUB_ERROR_KINDS: GitHubErrorKind[] = [
+  "not_found",
+  "unauthorized",
+  "forbidden",
+  "rate_limited",
+  "server",
+  "client",
+  "network",
+  "graphql",
+];
+
+export const ENRICHMENT_ERROR_KINDS = [
+  ...GITHUB_ERROR_KINDS.map((kind) => `github_${kind}` as const),
+  "llm_schema", // the model's output did not match the schema
+  "llm_rate_limited", // 429 from the LLM provider
+  "llm_server", // 5xx from the LLM provider
+  "llm_auth", // 401/403 from the LLM provider
+  "llm_api", // any other LLM provider error
+  "unknown",
+] as const;
+
+export type EnrichmentErrorKind = (typeof ENRICHMENT_ERROR_KINDS)[number];
+
+export interface ClassifiedError {
+  kind: EnrichmentErrorKind;
+  message: string;
+}
+
+export const MAX_ENRICHMENT_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 15 * 60 * 1000; // 15 minutes after the first failure
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+function classifyApiCallError(error: APICallError): EnrichmentErrorKind {
+  const status = error.statusCode;
+  if (status === 429) return "llm_rate_limited";
+  if (status === 401 || status === 403) return "llm_auth";
+  if (status !== undefined && status >= 500) return "llm_server";
+  return "llm_api";
+}
+
+export function classifyEnrichmentError(error: unknown): ClassifiedError {
+  const message = error instanceof Error ? error.message : String(error);
+
+  // The AI SDK wraps exhausted retries; classify the last underlying error
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+
+  let kind: EnrichmentErrorKind = "unknown";
+  if (isGitHubApiError(cause)) {
+    kind = `github_${cause.kind}`;
+  } else if (
+    NoObjectGeneratedError.isInstance(cause) ||
+    TypeValidationError.isInstance(cause) ||
+    JSONParseError.isInstance(cause) ||
+    cause instanceof z.ZodError
+  ) {
+    kind = "llm_schema";
+  } else if (APICallError.isInstance(cause)) {
+    kind = classifyApiCallError(cause);
+  }
+
+  return { kind, message };
+}
+
+/**
+ * When a row that has now failed `attempts` times should be retried, or null
+ * once it has used up its attempts. The delay quadruples with each attempt.
+ */
+export function nextAttemptAt(attempts: number, now: number = Date.now()): Date | null {
+  if (attempts >= MAX_ENRICHMENT_ATTEMPTS) return null;
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 4 ** (attempts - 1));
+  return new Date(now + delay);
+}
+
+export function formatFailureKinds(failures: Partial<Record<EnrichmentErrorKind, number>>): string {
+  return Object.entries(failures)
+    .sort(([, a], [, b]) => b - a)
+    .map(([kind, count]) => `${kind}: ${count}`)
+    .join(", ");
+}
@@ -1,110 +1,678 @@
 import "dotenv/config";
-import { getDb } from "../db/index.js";
-import { GitHubClient } from "../github/index.js";
-import { extractProfileData } from "../enrichment/index.js";
+import type { DuckDBConnection } from "@duckdb/node-api";
+import {
+  getDb,
+  getSyncState,
+  setSyncState,
+  SYNC_KEYS,
+  DuckDBResponseCache,
+  DuckDBLlmCache,
+  serializeConnection,
+} from "../db/index.js";
+import {
+  GitHubAppAuth,
+  GitHubClient,
+  DEFAULT_GITHUB_API_URL,
+  GRAPHQL_MAX_BATCH_SIZE,
+  formatCacheStats,
+  type CacheStats,
+  type GitHubCredential,
+  type GitHubRepo,
+  type GitHubStargazer,
+  type GitHubUserBundle,
+  type GitHubUserProfile,
+  isGitHubApiError,
+} from "../github/index.js";
+import {
+  extractProfileData,
+  getLlmProvider,
+  emptyLlmStats,
+  recordLlmOutcome,
+  formatLlmStats,
+  type LlmCache,
+  type LlmProvider,
+  type LlmStats,
+} from "../enrichment/index.js";
+import { CassetteMissError, createCassetteFetch, type Cassette } from "../cassette/index.js";
+import {
+  CompanyResolver,
+  classifyCompanies,
+  formatClassificationSources,
+  type ClassifyCompaniesStats,
+} from "../companies/index.js";
+import { buildTechProfile, saveTechProfile } from "../tech/index.js";
+import { discoverEmails, saveEmailCandidates, type EmailCandidate } from "../emails/index.js";
+import { reconcileStargazers } from "./reconcile.js";
+import { runDataMigrations } from "./migrations.js";
+import { createLimiter } from "./concurrency.js";
+import { Progress } from "./progress.js";
+import { describeChange, diffProfiles, loadTrackedProfile, recordChanges } from "./changes.js";
+import {
+  classifyEnrichmentError,
+  formatFailureKinds,
+  nextAttemptAt,
+  type EnrichmentErrorKind,
+} from "./failures.js";
+
+export { runDataMigrations } from "./migrations.js";
+export {
+  ENRICHMENT_ERROR_KINDS,
+  MAX_ENRICHMENT_ATTEMPTS,
+  formatFailureKinds,
+  type EnrichmentErrorKind,
+} from "./failures.js";
 
 const ENRICHMENT_BATCH_SIZE = 500;
+const DEFAULT_GITHUB_CONCURRENCY = 4; // Users whose GitHub data is fetched at once; pacing is still up to GitHubClient
+const DEFAULT_LLM_CONCURRENCY = 8; // LLM extractions in flight at once
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000; // Reconcile the full stargazer list once a day
 
-export interface FetchOptions {
+/**
+ * Options shared by every run that talks to GitHub.
+ */
+export interface GitHubConnectionOptions {
+  cache?: boolean; // use the HTTP response cache (default true)
+  apiUrl?: string; // REST base URL (default GITHUB_API_URL, then https://api.github.com)
+  graphqlUrl?: string; // GraphQL endpoint (default GITHUB_GRAPHQL_URL, then derived from apiUrl)
+  cassette?: Cassette; // record or replay all GitHub (and LLM) traffic
+}
+
+export interface FetchOptions extends GitHubConnectionOptions {
   owner: string;
   repo: string;
   dbPath: string;
   limit?: number;
+  full?: boolean; // force a full reconciliation pass instead of an incremental sync
 }
 
-export interface EnrichOptions {
+/**
+ * How profile data is fetched from GitHub. "graphql" batches many users into a
+ * single query; "rest" makes 3-9 calls per user.
+ */
+export type GitHubApiMode = "graphql" | "rest";
+
+export interface FetchStats {
+  total: number;
+  new: number;
+  restarred: number;
+  unstarred: number;
+  full: boolean;
+  cache: CacheStats;
+}
+
+export interface EnrichOptions extends GitHubConnectionOptions {
   dbPath: string;
   limit?: number;
   sample?: number; // 0.0-1.0, percentage of pending to randomly sample
+  api?: GitHubApiMode; // defaults to "graphql"
+  model?: string; // overrides LLM_MODEL
+  llmCache?: boolean; // use the LLM result cache (default true)
+  refreshCache?: boolean; // re-run LLM calls and overwrite their cached results
+  githubConcurrency?: number;
+  llmConcurrency?: number;
 }
 
-function getGitHubToken(): string {
-  const token = process.env.GITHUB_TOKEN;
-  if (!token) throw new Error("GITHUB_TOKEN environment variable is required");
-  return token;
+/**
+ * Values of `stargazers.enrichment_status`. `renamed` rows had their login
+ * updated after a rename and are still waiting to be enriched; `gone` rows
+ * belong to deleted or suspended accounts and are never retried.
+ */
+export type EnrichmentStatus = "pending" | "renamed" | "completed" | "failed" | "gone";
+
+// Statuses that still need enrichment
+const PENDING_STATUSES_SQL = `enrichment_status IN ('pending', 'renamed')`;
+
+// Pending rows, plus failed rows whose backoff has elapsed. Failed rows that used
+// up their attempts have no next_attempt_at and wait for `retry-failed`.
+const DUE_SQL = `(${PENDING_STATUSES_SQL} OR (enrichment_status = 'failed' AND next_attempt_at <= CURRENT_TIMESTAMP))`;
+
+// Columns read into an EnrichTarget
+const TARGET_COLUMNS = "id, username, COALESCE(attempt_count, 0)";
+
+export interface RefreshOptions extends Omit<EnrichOptions, "sample"> {
+  olderThanDays: number; // refresh profiles last enriched longer ago than this
+}
+
+export interface RefreshStats {
+  refreshed: number;
+  changed: number; // refreshed profiles with at least one changed field
+  failed: number;
+  gone: number;
+  stale: number; // profiles still due for a refresh
+  failures: FailureCounts;
+  cache: CacheStats;
+  llm: LlmStats;
 }
 
-function getOpenRouterKey(): void {
-  if (!process.env.OPENROUTER_API_KEY) {
-    throw new Error("OPENROUTER_API_KEY environment variable is required");
+export type FailureCounts = Partial<Record<EnrichmentErrorKind, number>>;
+
+export interface EnrichStats {
+  enriched: number;
+  failed: number;
+  gone: number;
+  pending: number;
+  failures: FailureCounts;
+  cache: CacheStats;
+  llm: LlmStats;
+}
+
+/**
+ * Read GitHub credentials. A GitHub App (GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY_PATH
+ * and GITHUB_APP_INSTALLATION_ID) takes precedence. Otherwise GITHUB_TOKENS takes a
+ * comma-separated pool of tokens, falling back to GITHUB_TOKEN.
+ */
+function getGitHubCredentials(apiUrl: string): GitHubCredential[] {
+  const appId = process.env.GITHUB_APP_ID;
+  const privateKeyPath = process.env.GITHUB_APP_PRIVATE_KEY_PATH;
+  const installationId = process.env.GITHUB_APP_INSTALLATION_ID;
+
+  if (appId || privateKeyPath || installationId) {
+    if (!appId || !privateKeyPath || !installationId) {
+      throw new Error(
+        "GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY_PATH and GITHUB_APP_INSTALLATION_ID must all be set to use a GitHub App"
+      );
+    }
+    return [GitHubAppAuth.fromKeyFile(appId, privateKeyPath, installationId, apiUrl)];
+  }
+
+  const tokens = (process.env.GITHUB_TOKENS || process.env.GITHUB_TOKEN || "")
+    .split(",")
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0);
+  if (tokens.length === 0) {
+    throw new Error("GITHUB_TOKEN, GITHUB_TOKENS or GitHub App environment variables are required");
   }
+  return tokens;
 }
 
+/**
+ * Create a GitHub client whose REST GETs are revalidated against the
+ * `http_cache` table unless caching is turned off. Endpoints come from the
+ * options, then GITHUB_API_URL/GITHUB_GRAPHQL_URL, then github.com.
+ *
+ * With a cassette, all traffic goes through it and the response cache is
+ * bypassed, so a replay does not depend on the state of the database. Replays
+ * need no credentials.
+ */
+function createGitHubClient(connection: DuckDBConnection, options: GitHubConnectionOptions): GitHubClient {
+  const { cassette } = options;
+  const apiUrl = options.apiUrl || process.env.GITHUB_API_URL || DEFAULT_GITHUB_API_URL;
+  const graphqlUrl = options.graphqlUrl || process.env.GITHUB_GRAPHQL_URL || undefined;
+  const cache = options.cache !== false && !cassette ? new DuckDBResponseCache(connection) : undefined;
+  const credentials = cassette?.mode === "replay" ? ["cassette-replay"] : getGitHubCredentials(apiUrl);
+  const fetchImpl = cassette ? createCassetteFetch(cassette) : undefined;
+  return new GitHubClient(credentials, { cache, apiUrl, graphqlUrl, fetch: fetchImpl });
+}
+
+/**
+ * Fetch a user's profile, social accounts and repos via REST.
+ */
+async function fetchUserBundleRest(github: GitHubClient, username: string): Promise<GitHubUserBundle> {
+  const profile = await github.getUserProfile(username);
+
+  let socialAccounts: GitHubUserBundle["socialAccounts"] = [];
+  try {
+    socialAccounts = await github.getUserSocialAccounts(username);
+  } catch (socialError) {
+    if (socialError instanceof CassetteMissError) throw socialError;
+    console.warn(`Could not fetch social accounts for ${username}:`, socialError);
+  }
+
+  let repos: GitHubRepo[] = [];
+  let reposUnavailable = false;
+  try {
+    repos = await github.getUserRepos(username);
+  } catch (repoError) {
+    if (repoError instanceof CassetteMissError) throw repoError;
+    console.warn(`Could not fetch repos for ${username}:`, repoError);
+    reposUnavailable = true;
+  }
+
+  return { profile, socialAccounts, repos, organizations: [], reposUnavailable };
+}
+
+/**
+ * Resolve a stargazer whose login returned 404 by looking the account up by its
+ * immutable numeric ID. Returns the current profile if the account was renamed,
+ * or null if it no longer exists (deleted or suspended).
+ */
+async function resolveMissingUser(github: GitHubClient, id: number): Promise<GitHubUserProfile | null> {
+  try {
+    return await github.getUserById(id);
+  } catch (error) {
+    if (isGitHubApiError(error) && error.kind === "not_found") return null;
+    throw error;
+  }
+}
 
 /**
  * Fetch stargazers from GitHub and save to database.
  * Does NOT fetch user profiles or run enrichment.
+ *
+ * Normally this is incremental: stargazers are paged newest-first and paging
+ * stops once it reaches stars older than the last synced position. A full pass
+ * over every page runs on the first sync, when forced, and once a day after that.
  */
-export async function runFetch(options: FetchOptions): Promise<{ total: number; new: number }> {
+export async function runFetch(options: FetchOptions): Promise<FetchStats> {
   const { owner, repo, dbPath, limit } = options;
-  const token = getGitHubToken();
   const db = await getDb(dbPath);
   const connection = await db.connect();
-  const github = new GitHubClient(token);
-
-  let newCount = 0;
 
   try {
-    console.log(`Fetching stargazers for ${owner}/${repo}...`);
-    let stargazers = await github.getAllStargazers(owner, repo);
-    console.log(`Found ${stargazers.length} total stargazers`);
+    const github = createGitHubClient(connection, options);
+    const lastStarredAt = await getSyncState(connection, SYNC_KEYS.lastStarredAt);
+    const lastFullSyncAt = await getSyncState(connection, SYNC_KEYS.lastFullSyncAt);
+    const fullSyncDue = !lastFullSyncAt || Date.now() - Date.parse(lastFullSyncAt) >= FULL_SYNC_INTERVAL_MS;
+    const full = options.full || !lastStarredAt || fullSyncDue;
+
+    let shouldStop: ((stargazer: GitHubStargazer) => boolean) | undefined;
+    if (full) {
+      console.log(`Fetching all stargazers for ${owner}/${repo} (full reconciliation)...`);
+    } else {
+      const cutoff = Date.parse(lastStarredAt);
+      console.log(`Fetching stargazers for ${owner}/${repo} starred since ${lastStarredAt}...`);
+      // Stars sharing the cutoff timestamp are re-read; duplicates are skipped below
+      shouldStop = (stargazer) => Date.parse(stargazer.starred_at) < cutoff;
+    }
 
-    // Apply limit if specified (take most recent N)
-    if (limit && limit > 0 && stargazers.length > limit) {
+    // Limit stops paging once the most recent N have been fetched
+    if (limit && limit > 0) {
       console.log(`Limiting to last ${limit} stargazers`);
-      stargazers = stargazers.slice(-limit);
     }
 
-    // Get existing IDs from database
-    const existingIds = new Set<number>();
-    const existingQuery = await connection.run("SELECT id FROM stargazers");
-    const rows = await existingQuery.getRows();
-    for (const row of rows) {
-      existingIds.add(row[0] as number);
-    }
+    const { stargazers, totalCount, complete, limited } = await github.listStargazers(owner, repo, {
+      limit: limit && limit > 0 ? limit : undefined,
+      shouldStop,
+    });
+    console.log(`Found ${stargazers.length} stargazers to sync (${totalCount} total)`);
 
-    // Insert new stargazers
-    for (const stargazer of stargazers) {
-      if (!existingIds.has(stargazer.user.id)) {
-        await connection.run(
-          `INSERT INTO stargazers (id, username, starred_at) VALUES (?, ?, ?)`,
-          [stargazer.user.id, stargazer.user.login, stargazer.starred_at]
-        );
-        newCount++;
-      }
-    }
+    // Insert new stargazers and record star/unstar events. Unstars can only be
+    // detected when every page was walked.
+    const reconciled = await reconcileStargazers(connection, stargazers, full && complete);
 
-    if (newCount > 0) {
-      console.log(`Inserted ${newCount} new stargazers`);
+    if (reconciled.new > 0) {
+      console.log(`Inserted ${reconciled.new} new stargazers`);
     } else {
       console.log("No new stargazers found");
     }
+    if (reconciled.restarred > 0) {
+      console.log(`${reconciled.restarred} stargazers starred again`);
+    }
+    if (reconciled.unstarred > 0) {
+      console.log(`${reconciled.unstarred} stargazers unstarred`);
+    }
+
+    // Remember the newest star seen so the next incremental sync can stop there.
+    // A sync cut short by --limit left a gap below it, so the cursor stays put.
+    const newest = stargazers[0]?.starred_at;
+    if (limited) {
+      console.log("Stopped at the limit; the next sync will continue from the previous position");
+    } else if (newest && (!lastStarredAt || Date.parse(newest) > Date.parse(lastStarredAt))) {
+      await setSyncState(connection, SYNC_KEYS.lastStarredAt, newest);
+    }
+
+    // Only a pass that walked every page counts as a reconciliation
+    if (full && complete) {
+      await setSyncState(connection, SYNC_KEYS.lastFullSyncAt, new Date().toISOString());
+    }
 
-    return { total: stargazers.length, new: newCount };
+    if (options.cache !== false && !options.cassette) {
+      console.log(`[Cache] ${formatCacheStats(github.getCacheStats())}`);
+    }
+
+    return {
+      total: totalCount,
+      new: reconciled.new,
+      restarred: reconciled.restarred,
+      unstarred: reconciled.unstarred,
+      full,
+      cache: github.getCacheStats(),
+    };
   } finally {
     connection.closeSync();
   }
 }
 
 /**
- * Enrich pending profiles with GitHub profile data and LLM extraction.
+ * Everything the enrichment pipeline shares between users in one run.
  */
-export async function runEnrich(options: EnrichOptions): Promise<{ enriched: number; failed: number; pending: number }> {
-  const { dbPath, limit, sample } = options;
-  const token = getGitHubToken();
-  getOpenRouterKey(); // Validate key exists
+interface EnrichContext {
+  connection: DuckDBConnection;
+  github: GitHubClient;
+  llm: LlmProvider;
+  llmCache?: LlmCache;
+  llmStats: LlmStats;
+  companies: CompanyResolver;
+  options: EnrichOptions;
+}
 
-  const db = await getDb(dbPath);
-  const connection = await db.connect();
-  const github = new GitHubClient(token);
+interface EnrichTarget {
+  id: number;
+  username: string;
+  attempts: number; // failed attempts so far
+}
+
+interface PipelineStats {
+  enriched: number;
+  failed: number;
+  gone: number;
+  changed: number; // profiles that differ from their previous enrichment
+  failures: FailureCounts;
+}
+
+async function withEnrichContext<T>(options: EnrichOptions, run: (context: EnrichContext) => Promise<T>): Promise<T> {
+  const llm = getLlmProvider({ model: options.model });
+  if (options.cassette?.mode !== "replay") {
+    llm.assertConfigured(); // Validate credentials exist
+  }
+
+  const db = await getDb(options.dbPath);
+  // Users are enriched concurrently; every statement goes through one queue
+  const connection = serializeConnection(await db.connect());
+
+  try {
+    await runDataMigrations(connection);
+    const github = createGitHubClient(connection, options);
+    // Like the HTTP cache, the LLM cache is bypassed while a cassette is in use
+    const llmCache = options.llmCache !== false && !options.cassette ? new DuckDBLlmCache(connection) : undefined;
+    const companies = new CompanyResolver(connection);
+    return await run({ connection, github, llm, llmCache, llmStats: emptyLlmStats(), companies, options });
+  } finally {
+    connection.closeSync();
+  }
+}
+
+function logCacheStats(context: EnrichContext): CacheStats {
+  const cache = context.github.getCacheStats();
+  if (context.options.cache !== false && !context.options.cassette) {
+    console.log(`[Cache] ${formatCacheStats(cache)}`);
+  }
+  console.log(`[LLM] ${formatLlmStats(context.llmStats)}`);
+  return cache;
+}
+
+/**
+ * Run `targets` through the enrichment pipeline: GitHub fetches and LLM
+ * extractions each run under their own concurrency limit, and database
+ * statements are serialized. Profiles are upserted, and fields that differ from
+ * a previous enrichment are recorded in `profile_changes`.
+ *
+ * With `refresh`, the targets were already enriched and a failure leaves their
+ * previous data and status in place.
+ */
+async function enrichProfiles(context: EnrichContext, targets: EnrichTarget[], refresh: boolean): Promise<PipelineStats> {
+  const { connection, github, llm, llmCache, llmStats, companies, options } = context;
+  const api = options.api ?? "graphql";
 
   let enriched = 0;
   let failed = 0;
+  let gone = 0;
+  let changed = 0;
+  const failures: FailureCounts = {};
+
+  const githubLimit = createLimiter(options.githubConcurrency ?? DEFAULT_GITHUB_CONCURRENCY);
+  const llmLimit = createLimiter(options.llmConcurrency ?? DEFAULT_LLM_CONCURRENCY);
+  const progress = new Progress(targets.length, "profiles");
+
+  // With GraphQL, profiles are prefetched one batch at a time, when the first user of a batch needs it
+  const batches = new Map<number, Promise<Map<string, GitHubUserBundle>>>();
+  const bundlesFor = (index: number): Promise<Map<string, GitHubUserBundle>> => {
+    if (api !== "graphql") return Promise.resolve(new Map());
+
+    const start = index - (index % GRAPHQL_MAX_BATCH_SIZE);
+    let batch = batches.get(start);
+    if (!batch) {
+      const logins = targets.slice(start, start + GRAPHQL_MAX_BATCH_SIZE).map((t) => t.username);
+      console.log(`Fetching ${logins.length} profiles via GraphQL...`);
+      batch = github.getUserBundles(logins).catch((batchError) => {
+        if (batchError instanceof CassetteMissError) throw batchError;
+        console.warn("GraphQL batch failed, falling back to REST for this batch:", batchError);
+        return new Map<string, GitHubUserBundle>();
+      });
+      batches.set(start, batch);
+    }
+    return batch;
+  };
+
+  // A replay that diverges from its recording stops every user from starting new work
+  let fatal: unknown = null;
+
+  const enrichUser = async ({ id, username: login, attempts }: EnrichTarget, index: number): Promise<void> => {
+    let username = login;
+    let renamed = false;
+
+    try {
+      // Fetch GitHub profile, social accounts and repos, and commit emails if needed
+      const fetched = await githubLimit(async () => {
+        if (fatal) return null;
+        console.log(`Enriching profile: ${username}`);
+
+        let bundle = (await bundlesFor(index)).get(username);
+        if (!bundle) {
+          if (api === "graphql") {
+            console.warn(`${username} missing from GraphQL batch, retrying via REST`);
+          }
+          try {
+            bundle = await fetchUserBundleRest(github, username);
+          } catch (error) {
+            if (!isGitHubApiError(error) || error.kind !== "not_found") throw error;
+
+            // The login no longer resolves: find out whether the account was renamed or removed
+            const current = await resolveMissingUser(github, id);
+            if (!current) {
+              console.log(`${username} no longer exists (deleted or suspended)`);
+              await connection.run(`UPDATE stargazers SET enrichment_status = 'gone' WHERE id = ?`, [id]);
+              gone++;
+              return null;
+            }
+
+            console.log(`${username} was renamed to ${current.login}`);
+            await connection.run(
+              `UPDATE stargazers SET username = ?, enrichment_status = 'renamed' WHERE id = ?`,
+              [current.login, id]
+            );
+            username = current.login;
+            renamed = true;
+            bundle = await fetchUserBundleRest(github, username);
+          }
+        }
+
+        // If email missing, try to find it from commits
+        let candidateEmails: EmailCandidate[] = [];
+        if (!bundle.profile.email) {
+          candidateEmails = await discoverEmails(github, bundle.profile, bundle.repos);
+        }
+
+        return { bundle, candidateEmails };
+      });
+      if (!fetched || fatal) return;
+
+      const { profile, socialAccounts, repos, organizations } = fetched.bundle;
+
+      // Extract data with rules, falling back to the LLM for whatever they cannot resolve
+      const extracted = await llmLimit(() =>
+        extractProfileData(profile, fetched.candidateEmails, {
+          provider: llm,
+          cassette: options.cassette,
+          cache: llmCache,
+          refreshCache: options.refreshCache,
+          socialAccounts,
+          organizations,
+        })
+      );
+      const { data: enrichedData, provenance, location } = extracted;
+      recordLlmOutcome(llmStats, extracted.llm, extracted.usage);
+
+      // Upsert the enriched profile, remembering what it said before
+      const previous = await loadTrackedProfile(connection, id);
+      await connection.run(
+        `INSERT INTO enriched_profiles (
+          github_id, name, bio, location, company, country, city, region, country_code, employers,
+          linkedin_url, website_url, university, email, email_type, email_domain, job_title, role_category,
+          seniority, twitter_username, social_accounts, organizations, field_provenance, raw_github_profile
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (github_id) DO UPDATE SET
+          name = excluded.name,
+          bio = excluded.bio,
+          location = excluded.location,
+          company = excluded.company,
+          country = excluded.country,
+          city = excluded.city,
+          region = excluded.region,
+          country_code = excluded.country_code,
+          employers = excluded.employers,
+          linkedin_url = excluded.linkedin_url,
+          website_url = excluded.website_url,
+          university = excluded.university,
+          email = excluded.email,
+          email_type = excluded.email_type,
+          email_domain = excluded.email_domain,
+          job_title = excluded.job_title,
+          role_category = excluded.role_category,
+          seniority = excluded.seniority,
+          twitter_username = excluded.twitter_username,
+          social_accounts = excluded.social_accounts,
+          organizations = excluded.organizations,
+          field_provenance = excluded.field_provenance,
+          raw_github_profile = excluded.raw_github_profile`,
+        [
+          id,
+          profile.name,
+          profile.bio,
+          profile.location,
+          profile.company,
+          enrichedData.country,
+          location?.city ?? null,
+          location?.region ?? null,
+          location?.countryCode ?? null,
+          JSON.stringify(enrichedData.employers),
+          enrichedData.linkedin_url,
+          enrichedData.website_url,
+          enrichedData.university,
+          enrichedData.email,
+          extracted.emailClass?.type ?? null,
+          extracted.emailClass?.domain ?? null,
+          enrichedData.job_title,
+          enrichedData.role_category,
+          enrichedData.seniority,
+          profile.twitter_username,
+          JSON.stringify(socialAccounts),
+          JSON.stringify(organizations),
+          JSON.stringify(provenance),
+          JSON.stringify(profile),
+        ]
+      );
+
+      // Without repos, keep the technology profile from the last enrichment
+      if (!fetched.bundle.reposUnavailable) {
+        await saveTechProfile(connection, id, buildTechProfile(repos));
+      }
+      await saveEmailCandidates(connection, id, fetched.candidateEmails, enrichedData.email);
+
+      // Link employers to canonical companies
+      await companies.linkEmployers(id, enrichedData.employers, {
+        organizations,
+        email: enrichedData.email ?? profile.email,
+      });
+
+      if (previous) {
+        const changes = diffProfiles(previous, { ...enrichedData, company: profile.company, location: profile.location });
+        if (changes.length > 0) {
+          await recordChanges(connection, id, username, changes);
+          for (const change of changes) {
+            console.log(`${username}: ${describeChange(change)}`);
+          }
+          changed++;
+        }
+      }
+
+      // Update status and join date
+      await connection.run(
+        `UPDATE stargazers SET
+          enrichment_status = 'completed', enriched_at = CURRENT_TIMESTAMP, join_date = ?,
+          attempt_count = 0, last_error = NULL, last_error_kind = NULL, next_attempt_at = NULL
+        WHERE id = ?`,
+        [profile.created_at, id]
+      );
+
+      enriched++;
+      // Rate limiting is handled by GitHubClient
+    } catch (error) {
+      // A replay that diverges from its recording must stop the run, not mark users failed
+      if (error instanceof CassetteMissError) {
+        fatal ??= error;
+        return;
+      }
+
+      console.error(`Failed to enrich ${username}:`, error);
+      const { kind, message } = classifyEnrichmentError(error);
+
+      if (refresh && !renamed) {
+        // A failed refresh keeps the profile's previous data and status. A row
+        // marked renamed above would count as pending forever, so it backs off instead.
+        await connection.run(
+          `UPDATE stargazers SET last_error = ?, last_error_kind = ? WHERE id = ?`,
+          [message, kind, id]
+        );
+      } else {
+        const nextAttempt = nextAttemptAt(attempts + 1);
+        await connection.run(
+          `UPDATE stargazers SET
+            enrichment_status = 'failed', attempt_count = ?, last_error = ?, last_error_kind = ?, next_attempt_at = ?
+          WHERE id = ?`,
+          [attempts + 1, message, kind, nextAttempt?.toISOString() ?? null, id]
+        );
+      }
+
+      failed++;
+      failures[kind] = (failures[kind] ?? 0) + 1;
+    } finally {
+      if (!fatal) progress.tick();
+    }
+  };
+
+  const settled = await Promise.allSettled(
+    targets.map((target, index) => enrichUser(target, index))
+  );
+  if (fatal) throw fatal;
+  const rejected = settled.find((result) => result.status === "rejected");
+  if (rejected) throw rejected.reason;
+
+  // Classify companies first seen in this run, once each
+  const classified = await classifyCompanies(connection, {
+    provider: llm,
+    cache: llmCache,
+    refreshCache: options.refreshCache,
+    cassette: options.cassette,
+    limit: llmLimit,
+    stats: llmStats,
+  });
+  if (classified.classified > 0 || classified.failed > 0) {
+    console.log(
+      `Classified ${classified.classified} new companies (${formatClassificationSources(classified.sources)})` +
+        (classified.failed > 0 ? `, ${classified.failed} failed` : "")
+    );
+  }
+
+  return { enriched, failed, gone, changed, failures };
+}
+
+function toTargets(rows: unknown[][]): EnrichTarget[] {
+  return rows.map((row) => ({ id: row[0] as number, username: row[1] as string, attempts: Number(row[2]) }));
+}
+
+/**
+ * Enrich pending profiles with GitHub profile data and LLM extraction.
+ */
+export async function runEnrich(options: EnrichOptions): Promise<EnrichStats> {
+  const { limit, sample, api = "graphql" } = options;
+
+  return withEnrichContext(options, async (context) => {
+    const { connection, llm } = context;
 
-  try {
     // Count total pending
     const countResult = await connection.run(
-      `SELECT COUNT(*) FROM stargazers WHERE enrichment_status = 'pending'`
+      `SELECT COUNT(*) FROM stargazers WHERE ${DUE_SQL}`
     );
     const countRows = await countResult.getRows();
     const totalPending = Number(countRows[0][0]);
@@ -120,105 +688,138 @@ export async function runEnrich(options: EnrichOptions): Promise<{ enriched: num
 
     // Get pending profiles - use random ordering for sampling
     const query = sample !== undefined && sample > 0 && sample <= 1
-      ? `SELECT id, username FROM stargazers WHERE enrichment_status = 'pending' ORDER BY RANDOM() LIMIT ?`
-      : `SELECT id, username FROM stargazers WHERE enrichment_status = 'pending' LIMIT ?`;
+      ? `SELECT ${TARGET_COLUMNS} FROM stargazers WHERE ${DUE_SQL} ORDER BY RANDOM() LIMIT ?`
+      : `SELECT ${TARGET_COLUMNS} FROM stargazers WHERE ${DUE_SQL} LIMIT ?`;
 
     const pendingResult = await connection.run(query, [batchSize]);
     const pendingRows = await pendingResult.getRows();
 
-    console.log(`Found ${totalPending} pending profiles, processing ${pendingRows.length}`);
+    console.log(`Found ${totalPending} pending profiles, processing ${pendingRows.length} (${api} API, ${llm.name}/${llm.model})`);
 
-    for (const row of pendingRows) {
-      const id = row[0] as number;
-      const username = row[1] as string;
+    const { enriched, failed, gone, failures } = await enrichProfiles(context, toTargets(pendingRows), false);
 
-      try {
-        console.log(`Enriching profile: ${username}`);
+    const remainingPending = totalPending - enriched - failed - gone;
+    console.log(`Enrichment completed: ${enriched} enriched, ${failed} failed, ${gone} gone, ${remainingPending} remaining`);
+    if (failed > 0) {
+      console.log(`Failures by kind: ${formatFailureKinds(failures)}`);
+    }
+    const cache = logCacheStats(context);
+    return { enriched, failed, gone, pending: remainingPending, failures, cache, llm: context.llmStats };
+  });
+}
 
-        // Fetch GitHub profile
-        const profile = await github.getUserProfile(username);
+export interface RetryFailedOptions extends Omit<EnrichOptions, "sample"> {
+  kinds?: EnrichmentErrorKind[]; // only retry failures of these kinds
+}
 
-        // If email missing, try to find it from commits
-        let candidateEmails: string[] = [];
-        if (!profile.email) {
-          try {
-            const repos = await github.getUserRepos(username);
-            const ownedRepo = repos.find((r) => r.owner.login === username && !r.fork);
-            if (ownedRepo) {
-              const commits = await github.getRepoCommits(ownedRepo.owner.login, ownedRepo.name, username);
-              candidateEmails = [
-                ...new Set(
-                  commits
-                    .flatMap((c) => [c.commit.author?.email, c.commit.committer?.email])
-                    .filter((e): e is string => !!e && !e.includes("noreply"))
-                ),
-              ];
-            }
-          } catch (emailError) {
-            console.warn(`Could not fetch commit emails for ${username}:`, emailError);
-          }
-        }
+/**
+ * Retry failed profiles now, ignoring their backoff and attempt limit.
+ */
+export async function runRetryFailed(options: RetryFailedOptions): Promise<EnrichStats> {
+  const { limit, kinds, api = "graphql" } = options;
+
+  return withEnrichContext(options, async (context) => {
+    const { connection, llm } = context;
+    const kindFilter = kinds && kinds.length > 0
+      ? ` AND last_error_kind IN (${kinds.map(() => "?").join(", ")})`
+      : "";
+    const failedSql = `enrichment_status = 'failed'${kindFilter}`;
+
+    const countResult = await connection.run(`SELECT COUNT(*) FROM stargazers WHERE ${failedSql}`, kinds ?? []);
+    const totalFailed = Number((await countResult.getRows())[0][0]);
+
+    const failedResult = await connection.run(
+      `SELECT ${TARGET_COLUMNS} FROM stargazers WHERE ${failedSql} ORDER BY next_attempt_at NULLS LAST LIMIT ?`,
+      [...(kinds ?? []), limit ?? ENRICHMENT_BATCH_SIZE]
+    );
+    const failedRows = await failedResult.getRows();
 
-        // Fetch social accounts
-        let socialAccounts: Array<{ provider: string; url: string }> = [];
-        try {
-          socialAccounts = await github.getUserSocialAccounts(username);
-        } catch (socialError) {
-          console.warn(`Could not fetch social accounts for ${username}:`, socialError);
-        }
+    const scope = kindFilter ? ` (${kinds!.join(", ")})` : "";
+    console.log(`Found ${totalFailed} failed profiles${scope}, retrying ${failedRows.length} (${api} API, ${llm.name}/${llm.model})`);
 
-        // Extract data with LLM
-        const enrichedData = await extractProfileData(profile, candidateEmails);
+    const { enriched, failed, gone, failures } = await enrichProfiles(context, toTargets(failedRows), false);
 
-        // Insert enriched profile
-        await connection.run(
-          `INSERT INTO enriched_profiles (
-            github_id, name, bio, location, company, country, employers,
-            linkedin_url, website_url, university, email, twitter_username, social_accounts, raw_github_profile
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            id,
-            profile.name,
-            profile.bio,
-            profile.location,
-            profile.company,
-            enrichedData.country,
-            JSON.stringify(enrichedData.employers),
-            enrichedData.linkedin_url,
-            enrichedData.website_url,
-            enrichedData.university,
-            enrichedData.email,
-            profile.twitter_username,
-            JSON.stringify(socialAccounts),
-            JSON.stringify(profile),
-          ]
-        );
+    const remainingFailed = totalFailed - enriched - gone;
+    console.log(`Retry completed: ${enriched} enriched, ${failed} failed again, ${gone} gone`);
+    if (failed > 0) {
+      console.log(`Failures by kind: ${formatFailureKinds(failures)}`);
+    }
+    const cache = logCacheStats(context);
+    return { enriched, failed, gone, pending: remainingFailed, failures, cache, llm: context.llmStats };
+  });
+}
 
-        // Update status and join date
-        await connection.run(
-          `UPDATE stargazers SET enrichment_status = 'completed', enriched_at = CURRENT_TIMESTAMP, join_date = ? WHERE id = ?`,
-          [profile.created_at, id]
-        );
+/**
+ * Re-enrich completed profiles whose last enrichment is older than
+ * `olderThanDays`, stalest first, and record which fields changed.
+ */
+export async function runRefresh(options: RefreshOptions): Promise<RefreshStats> {
+  const { limit, olderThanDays, api = "graphql" } = options;
 
-        enriched++;
-        // Rate limiting is handled by GitHubClient
-      } catch (error) {
-        console.error(`Failed to enrich ${username}:`, error);
+  return withEnrichContext(options, async (context) => {
+    const { connection, llm } = context;
+    const staleSql = `enrichment_status = 'completed' AND enriched_at < CURRENT_TIMESTAMP - to_days(CAST(? AS INTEGER))`;
 
-        await connection.run(
-          `UPDATE stargazers SET enrichment_status = 'failed' WHERE id = ?`,
-          [id]
-        );
+    const countResult = await connection.run(`SELECT COUNT(*) FROM stargazers WHERE ${staleSql}`, [olderThanDays]);
+    const totalStale = Number((await countResult.getRows())[0][0]);
 
-        failed++;
-      }
+    const staleResult = await connection.run(
+      `SELECT ${TARGET_COLUMNS} FROM stargazers WHERE ${staleSql} ORDER BY enriched_at LIMIT ?`,
+      [olderThanDays, limit ?? ENRICHMENT_BATCH_SIZE]
+    );
+    const staleRows = await staleResult.getRows();
+
+    console.log(`Found ${totalStale} profiles enriched more than ${olderThanDays} days ago, refreshing ${staleRows.length} (${api} API, ${llm.name}/${llm.model})`);
+
+    const { enriched, failed, gone, changed, failures } = await enrichProfiles(context, toTargets(staleRows), true);
+
+    const remainingStale = totalStale - enriched - gone;
+    console.log(`Refresh completed: ${enriched} refreshed, ${changed} changed, ${failed} failed, ${gone} gone, ${remainingStale} still stale`);
+    if (failed > 0) {
+      console.log(`Failures by kind: ${formatFailureKinds(failures)}`);
     }
+    const cache = logCacheStats(context);
+    return { refreshed: enriched, changed, failed, gone, stale: remainingStale, failures, cache, llm: context.llmStats };
+  });
+}
+
+export interface ClassifyCompaniesRunOptions {
+  dbPath: string;
+  all?: boolean; // reclassify every company not classified by hand
+  model?: string;
+  cache?: boolean; // use the LLM result cache (default true)
+  refreshCache?: boolean;
+  llmConcurrency?: number;
+}
+
+export interface ClassifyCompaniesRunStats extends ClassifyCompaniesStats {
+  llm: LlmStats;
+}
+
+/**
+ * Classify companies outside an enrichment run, e.g. after merging companies or
+ * to reclassify them with another model. Needs no GitHub credentials.
+ */
+export async function runClassifyCompanies(options: ClassifyCompaniesRunOptions): Promise<ClassifyCompaniesRunStats> {
+  const llm = getLlmProvider({ model: options.model });
+  llm.assertConfigured();
+
+  const db = await getDb(options.dbPath);
+  const connection = serializeConnection(await db.connect());
+  const llmStats = emptyLlmStats();
 
-    const remainingPending = totalPending - enriched - failed;
-    console.log(`Enrichment completed: ${enriched} enriched, ${failed} failed, ${remainingPending} remaining`);
-    return { enriched, failed, pending: remainingPending };
+  try {
+    const stats = await classifyCompanies(connection, {
+      all: options.all,
+      provider: llm,
+      cache: options.cache !== false ? new DuckDBLlmCache(connection) : undefined,
+      refreshCache: options.refreshCache,
+      limit: createLimiter(options.llmConcurrency ?? DEFAULT_LLM_CONCURRENCY),
+      stats: llmStats,
+    });
+    console.log(`[LLM] ${formatLlmStats(llmStats)}`);
+    return { ...stats, llm: llmStats };
   } finally {
     connection.closeSync();
   }
 }
-
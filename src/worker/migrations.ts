@@ -0,0 +1,74 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import { getSyncState, setSyncState } from "../db/index.js";
+import { classifyEmail } from "../emails/index.js";
+import { locateInCountry } from "../geo/index.js";
+
+/**
+ * One-off backfills that need application code and so cannot run as SQL in
+ * initializeSchema. Each runs once per database and is recorded in
+ * `sync_state`; rows it cannot fill are left empty rather than retried on
+ * every run.
+ */
+
+interface DataMigration {
+  name: string;
+  run(connection: DuckDBConnection): Promise<void>;
+}
+
+const MIGRATIONS: DataMigration[] = [
+  { name: "locate_profiles", run: locateProfiles },
+  { name: "classify_emails", run: classifyStoredEmails },
+];
+
+export async function runDataMigrations(connection: DuckDBConnection): Promise<void> {
+  for (const migration of MIGRATIONS) {
+    const key = `migrations.${migration.name}`;
+    if (await getSyncState(connection, key)) continue;
+    await migration.run(connection);
+    await setSyncState(connection, key, new Date().toISOString());
+  }
+}
+
+/**
+ * City, region and country code for profiles enriched before they were stored.
+ */
+async function locateProfiles(connection: DuckDBConnection): Promise<void> {
+  const unlocated = await connection.run(
+    `SELECT github_id, location, country FROM enriched_profiles WHERE country IS NOT NULL AND country_code IS NULL`
+  );
+  for (const [githubId, location, country] of await unlocated.getRows()) {
+    const located = locateInCountry(location as string | null, country as string);
+    if (!located) continue;
+    await connection.run(`UPDATE enriched_profiles SET city = ?, region = ?, country_code = ? WHERE github_id = ?`, [
+      located.city,
+      located.region,
+      located.countryCode,
+      githubId,
+    ]);
+  }
+}
+
+/**
+ * Email type and domain for profiles and candidates stored before they were.
+ */
+async function classifyStoredEmails(connection: DuckDBConnection): Promise<void> {
+  const unclassified = await connection.run(
+    `SELECT github_id, email FROM enriched_profiles WHERE email IS NOT NULL AND email_type IS NULL`
+  );
+  for (const [githubId, email] of await unclassified.getRows()) {
+    const classification = classifyEmail(email as string);
+    if (!classification) continue;
+    await connection.run(`UPDATE enriched_profiles SET email_type = ?, email_domain = ? WHERE github_id = ?`, [
+      classification.type,
+      classification.domain,
+      githubId,
+    ]);
+  }
+
+  const candidates = await connection.run(`SELECT DISTINCT email FROM email_candidates WHERE email_type IS NULL`);
+  for (const [email] of await candidates.getRows()) {
+    const classification = classifyEmail(email as string);
+    if (!classification) continue;
+    await connection.run(`UPDATE email_candidates SET email_type = ? WHERE email = ?`, [classification.type, email as string]);
+  }
+}
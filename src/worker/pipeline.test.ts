@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { dumpCommand } from "../commands/dump.js";
+import { getDb, initializeSchema, closeDb } from "../db/index.js";
+import { loadMockFixtures, startMockGitHubServer } from "../github/mock/server.js";
+import { runEnrich, runFetch } from "./index.js";
+
+const FIXTURES = fileURLToPath(new URL("../github/mock/fixtures.json", import.meta.url));
+
+// Quoted fields may contain commas, quotes and newlines
+function parseCsv(csv: string): Record<string, string>[] {
+  const records: string[][] = [[]];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') field += csv[++i];
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ",") records[records.length - 1].push(field), (field = "");
+    else if (char === "\n") records[records.length - 1].push(field), (field = ""), records.push([]);
+    else field += char;
+  }
+  records[records.length - 1].push(field);
+
+  const [headers, ...rows] = records;
+  return rows.map((row) => Object.fromEntries(headers.map((header, i) => [header, row[i] ?? ""])));
+}
+
+test("fetch, enrich and dump run end to end against the mock GitHub API", async (t) => {
+  for (const method of ["log", "warn", "error"] as const) t.mock.method(console, method, () => {});
+  process.env.GITHUB_TOKEN = "mock";
+  process.env.LLM_PROVIDER = "stub";
+
+  const server = await startMockGitHubServer(loadMockFixtures(FIXTURES));
+  const dataDir = mkdtempSync(path.join(tmpdir(), "pipeline-test-"));
+  t.after(async () => {
+    await server.close();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  mkdirSync(path.join(dataDir, "acme-widget"));
+  const dbPath = path.join(dataDir, "acme-widget", "stargazers.db");
+  await initializeSchema(await getDb(dbPath));
+  await closeDb();
+
+  const fetched = await runFetch({ owner: "acme", repo: "widget", dbPath, apiUrl: server.url });
+  assert.equal(fetched.total, 3);
+  assert.equal(fetched.new, 3);
+
+  const enriched = await runEnrich({ dbPath, apiUrl: server.url });
+  assert.equal(enriched.enriched, 2);
+  assert.equal(enriched.gone, 1);
+  assert.equal(enriched.failed, 0);
+
+  const output = path.join(dataDir, "export.csv");
+  await dumpCommand("acme/widget", { dataDir, output });
+  const rows = parseCsv(readFileSync(output, "utf-8"));
+  assert.deepEqual(rows.map((row) => row.username).sort(), ["alice-dev", "bob-builder", "deleted-account"]);
+  const rowOf = (username: string) => rows.find((row) => row.username === username) ?? {};
+
+  const alice = rowOf("alice-dev");
+  assert.equal(alice.email, "alice@example.com");
+  assert.equal(alice.country_code, "DE");
+  assert.notEqual(alice.primary_language, "");
+
+  // Bob has no public email; the one GitHub links to his commits is used
+  const bob = rowOf("bob-builder");
+  assert.equal(bob.email, "bob@mit.edu");
+  assert.equal(bob.email_type, "university");
+  assert.equal(bob.university, "Massachusetts Institute of Technology");
+
+  // The deleted account keeps its star but has no profile
+  const gone = rowOf("deleted-account");
+  assert.equal(gone.name, "");
+  assert.equal(gone.email, "");
+
+  await dumpCommand("acme/widget", { dataDir, output, excludeGone: true });
+  assert.equal(parseCsv(readFileSync(output, "utf-8")).length, 2);
+});
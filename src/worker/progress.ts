@@ -0,0 +1,36 @@
+const REPORT_INTERVAL_MS = 10_000;
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * Periodic progress line with throughput and ETA for a fixed amount of work.
+ */
+export class Progress {
+  private done = 0;
+  private startedAt = Date.now();
+  private lastReportAt = Date.now();
+
+  constructor(private total: number, private unit: string) {}
+
+  tick(): void {
+    this.done++;
+    const now = Date.now();
+    if (this.done === this.total || now - this.lastReportAt >= REPORT_INTERVAL_MS) {
+      this.lastReportAt = now;
+      console.log(`[Progress] ${this.format(now)}`);
+    }
+  }
+
+  private format(now: number): string {
+    const elapsed = now - this.startedAt;
+    const rate = elapsed > 0 ? this.done / (elapsed / 1000) : 0;
+    const percent = ((this.done / this.total) * 100).toFixed(1);
+    const eta = rate > 0 ? formatDuration(((this.total - this.done) / rate) * 1000) : "unknown";
+    return `${this.done}/${this.total} ${this.unit} (${percent}%), ${rate.toFixed(2)} ${this.unit}/s, ETA ${eta}`;
+  }
+}
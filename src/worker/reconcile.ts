@@ -0,0 +1,117 @@
+import type { DuckDBConnection } from "@duckdb/node-api";
+import type { GitHubStargazer } from "../github/index.js";
+
+export interface ReconcileStats {
+  new: number;
+  restarred: number;
+  unstarred: number;
+}
+
+interface KnownStargazer {
+  username: string;
+  starredAtMs: number | null;
+  isActive: boolean;
+}
+
+async function recordEvent(
+  connection: DuckDBConnection,
+  id: number,
+  username: string,
+  eventType: "star" | "unstar",
+  eventAt: string
+): Promise<void> {
+  await connection.run(
+    `INSERT INTO star_events (stargazer_id, username, event_type, event_at) VALUES (?, ?, ?, ?)`,
+    [id, username, eventType, eventAt]
+  );
+}
+
+/**
+ * Apply a fetched list of stargazers to the database and record star/unstar events.
+ *
+ * - Unknown IDs are inserted with a `star` event.
+ * - Inactive stargazers that reappear get a new `star` event (a re-star).
+ * - Active stargazers whose `starred_at` moved forward unstarred and starred again
+ *   between syncs, so they get an `unstar` followed by a `star`.
+ * - Stargazers listed under a new login have their username updated.
+ * - When `complete` is true the list is the full set of current stargazers, and any
+ *   active stargazer missing from it gets an `unstar` event. GitHub does not expose
+ *   when a star was removed, so the event is timestamped at detection.
+ */
+export async function reconcileStargazers(
+  connection: DuckDBConnection,
+  stargazers: GitHubStargazer[],
+  complete: boolean
+): Promise<ReconcileStats> {
+  const stats: ReconcileStats = { new: 0, restarred: 0, unstarred: 0 };
+
+  const known = new Map<number, KnownStargazer>();
+  const existingQuery = await connection.run(
+    "SELECT id, username, epoch_ms(starred_at), is_active FROM stargazers"
+  );
+  for (const row of await existingQuery.getRows()) {
+    known.set(row[0] as number, {
+      username: row[1] as string,
+      starredAtMs: row[2] === null ? null : Number(row[2]),
+      isActive: row[3] !== false,
+    });
+  }
+
+  const seen = new Set<number>();
+
+  for (const stargazer of stargazers) {
+    const { id, login } = stargazer.user;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const existing = known.get(id);
+    const starredAtMs = Date.parse(stargazer.starred_at);
+
+    if (!existing) {
+      await connection.run(
+        `INSERT INTO stargazers (id, username, starred_at) VALUES (?, ?, ?)`,
+        [id, login, stargazer.starred_at]
+      );
+      await recordEvent(connection, id, login, "star", stargazer.starred_at);
+      stats.new++;
+      continue;
+    }
+
+    // Timestamps round-trip through DuckDB, so allow for sub-second differences
+    const moved = existing.starredAtMs !== null && starredAtMs - existing.starredAtMs >= 1000;
+
+    if (!existing.isActive || moved) {
+      if (existing.isActive) {
+        // Unstarred and re-starred since the last sync; the unstar happened at some point before the new star
+        await recordEvent(connection, id, login, "unstar", stargazer.starred_at);
+      }
+      await connection.run(
+        `UPDATE stargazers SET username = ?, starred_at = ?, is_active = TRUE WHERE id = ?`,
+        [login, stargazer.starred_at, id]
+      );
+      await recordEvent(connection, id, login, "star", stargazer.starred_at);
+      stats.restarred++;
+    } else if (existing.username !== login) {
+      // Renamed since we first saw them; the numeric ID is stable
+      await connection.run(`UPDATE stargazers SET username = ? WHERE id = ?`, [login, id]);
+    }
+  }
+
+  if (complete) {
+    const detectedAt = new Date().toISOString();
+    const activeQuery = await connection.run(
+      "SELECT id, username FROM stargazers WHERE is_active = TRUE"
+    );
+    for (const row of await activeQuery.getRows()) {
+      const id = row[0] as number;
+      if (seen.has(id)) continue;
+
+      const username = row[1] as string;
+      await connection.run(`UPDATE stargazers SET is_active = FALSE WHERE id = ?`, [id]);
+      await recordEvent(connection, id, username, "unstar", detectedAt);
+      stats.unstarred++;
+    }
+  }
+
+  return stats;
+}